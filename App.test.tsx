@@ -0,0 +1,349 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, waitFor, within, act } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import App from './App';
+import { Language, CalendarEra, ItemStatus, CostCategory, SalesChannel } from './types';
+import { createTranslator, createFormatters } from './services/i18n';
+import { createBackup } from './services/backup';
+import { loadData, saveData, savePhoto, loadPhoto, saveSettings, loadSettings, DEFAULT_SETTINGS, SCHEMA_VERSION } from './services/storage';
+
+// The app starts in Thai with the Buddhist calendar and baht until settings say otherwise
+const t = createTranslator(Language.TH);
+const { formatCurrency } = createFormatters(Language.TH, CalendarEra.BUDDHIST, 'THB');
+
+const photo = { id: 'p1', createdAt: '2026-01-10T00:00:00Z', width: 1, height: 1, image: 'data:image/jpeg;base64,', thumbnail: 'data:image/jpeg;base64,' };
+
+// Storage here is localStorage behind promises, so one macrotask lets every pending write finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const setField = async (user: ReturnType<typeof userEvent.setup>, field: HTMLElement, value: string) => {
+  await user.clear(field);
+  await user.type(field, value);
+};
+
+const addSale = async (user: ReturnType<typeof userEvent.setup>) => {
+  await user.click(await screen.findByRole('button', { name: t('form.addTitle') }));
+  await setField(user, screen.getByPlaceholderText(t('form.brandPlaceholder')), 'Sony');
+  await setField(user, screen.getByPlaceholderText(t('form.modelPlaceholder')), 'SS-1');
+  await setField(user, screen.getByLabelText(t('costCategory.purchase')), '900');
+  await setField(user, document.querySelector<HTMLInputElement>('input[name="sellingPrice"]')!, '1500');
+  await user.click(screen.getByRole('button', { name: t('common.save') }));
+};
+
+describe('sale form', () => {
+  it('adds a sale to the list and stores it', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+    await addSale(user);
+
+    expect(screen.getByRole('heading', { name: 'Sony SS-1' })).toBeTruthy();
+    expect(screen.getByText(`+${formatCurrency(600)}`)).toBeTruthy();
+    await waitFor(async () => {
+      const stored = (await loadData()).sales;
+      expect(stored).toHaveLength(1);
+      expect(stored[0]).toMatchObject({ brand: 'Sony', model: 'SS-1', sellingPrice: 1500 });
+    });
+  });
+
+  it('edits a sale and shows the new profit', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+    await addSale(user);
+
+    await user.click(screen.getByTitle(t('list.edit')));
+    await setField(user, document.querySelector<HTMLInputElement>('input[name="sellingPrice"]')!, '2000');
+    await user.click(screen.getByRole('button', { name: t('common.save') }));
+
+    expect(screen.getByText(`+${formatCurrency(1100)}`)).toBeTruthy();
+    expect(screen.queryByText(`+${formatCurrency(600)}`)).toBeNull();
+  });
+
+  it("keeps an old sale's channel fee when only its note is edited", async () => {
+    await saveSettings({ ...DEFAULT_SETTINGS, channelFees: { ...DEFAULT_SETTINGS.channelFees, [SalesChannel.SHOPEE]: { percent: 10, fixed: 0 } } });
+    await saveData([{
+      id: 'a1', brand: 'Sony', model: 'SS-1', type: 'ลำโพง', status: ItemStatus.SOLD, purchaseDate: '2026-01-01', date: '2026-01-10',
+      sellingPrice: 1000, channel: SalesChannel.SHOPEE, channelFee: 50, costs: [{ id: 'c1', category: CostCategory.PURCHASE, amount: 600 }]
+    }], []);
+    const user = userEvent.setup();
+    render(<App />);
+    await user.click(await screen.findByRole('button', { name: t('nav.list') }));
+    await user.click(await screen.findByTitle(t('list.edit')));
+    await user.type(document.querySelector<HTMLTextAreaElement>('textarea[name="note"]')!, 'boxed');
+    await user.click(screen.getByRole('button', { name: t('common.save') }));
+
+    await waitFor(async () => expect((await loadData()).sales[0]).toMatchObject({ note: 'boxed', channelFee: 50 }));
+  });
+
+  it('deletes a sale and brings it back with undo', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+    await addSale(user);
+
+    await user.click(screen.getByTitle(t('list.delete')));
+    expect(screen.queryByRole('heading', { name: 'Sony SS-1' })).toBeNull();
+
+    await user.click(screen.getByRole('button', { name: t('undo.undo') }));
+    expect(screen.getByRole('heading', { name: 'Sony SS-1' })).toBeTruthy();
+  });
+});
+
+describe('undo', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('gives each delete its own time to be undone', async () => {
+    const sold = (id: string) => ({
+      id, brand: 'Sony', model: id, type: 'ลำโพง', status: ItemStatus.SOLD, purchaseDate: '2026-01-01', date: '2026-01-10',
+      sellingPrice: 1500, costs: [{ id: `c-${id}`, category: CostCategory.PURCHASE, amount: 900 }]
+    });
+    await saveData([sold('A1'), sold('B2')], []);
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+    render(<App />);
+    await user.click(await screen.findByRole('button', { name: t('nav.list') }));
+
+    await user.click((await screen.findAllByTitle(t('list.delete')))[0]);
+    act(() => vi.advanceTimersByTime(4000));
+    await user.click(screen.getByTitle(t('list.delete')));
+    act(() => vi.advanceTimersByTime(4000));
+    expect(screen.getByRole('button', { name: t('undo.undo') })).toBeTruthy();
+
+    act(() => vi.advanceTimersByTime(2500));
+    expect(screen.queryByRole('button', { name: t('undo.undo') })).toBeNull();
+  });
+});
+
+describe('edit history', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('records a mistaken edit and puts the earlier price back', async () => {
+    const user = userEvent.setup();
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    render(<App />);
+    await addSale(user);
+
+    await user.click(screen.getByTitle(t('list.edit')));
+    await setField(user, document.querySelector<HTMLInputElement>('input[name="sellingPrice"]')!, '150');
+    await user.click(screen.getByRole('button', { name: t('common.save') }));
+
+    await user.click(screen.getByTitle(t('list.edit')));
+    await user.click(screen.getByText(t('audit.itemTitle')));
+    expect(screen.getByText(t('auditAction.update'))).toBeTruthy();
+    await user.click(screen.getByTitle(t('audit.restoreVersion')));
+    await user.click(screen.getByRole('button', { name: t('common.save') }));
+
+    expect(screen.getByText(`+${formatCurrency(600)}`)).toBeTruthy();
+  });
+
+  it('brings back a deleted sale after the undo is gone', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+    await addSale(user);
+
+    await user.click(screen.getByTitle(t('list.delete')));
+    await user.click(screen.getByTitle(t('list.history')));
+    await user.click(screen.getByLabelText(t('audit.deletedOnly')));
+    await user.click(screen.getByTitle(t('audit.restoreDeleted')));
+    expect(screen.getByText(t('audit.empty'))).toBeTruthy();
+
+    await user.click(screen.getByRole('button', { name: t('nav.list') }));
+    expect(screen.getByRole('heading', { name: 'Sony SS-1' })).toBeTruthy();
+  });
+
+  it('keeps the photos of a deleted sale so it can be restored after a reload', async () => {
+    await savePhoto(photo);
+    await saveData([{
+      id: 'a1', brand: 'Sony', model: 'SS-1', type: 'ลำโพง', status: ItemStatus.SOLD, purchaseDate: '2026-01-01', date: '2026-01-10',
+      sellingPrice: 1500, costs: [{ id: 'c1', category: CostCategory.PURCHASE, amount: 900 }], photoIds: ['p1']
+    }], []);
+    const user = userEvent.setup();
+    const { unmount } = render(<App />);
+    await user.click(await screen.findByRole('button', { name: t('nav.list') }));
+    await user.click(await screen.findByTitle(t('list.delete')));
+    unmount();
+
+    // Loading again is when unused photos are cleared out
+    render(<App />);
+    await user.click(await screen.findByRole('button', { name: t('nav.list') }));
+    await user.click(screen.getByTitle(t('list.history')));
+    await user.click(await screen.findByTitle(t('audit.restoreDeleted')));
+
+    await waitFor(async () => expect((await loadData()).sales[0]?.photoIds).toEqual(['p1']));
+    expect(await loadPhoto('p1')).toEqual(photo);
+  });
+});
+
+describe('unused photos', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the photos of records set aside as unreadable', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await savePhoto(photo);
+    localStorage.setItem('audio_sales_data', JSON.stringify({
+      version: SCHEMA_VERSION,
+      sales: [{ id: 'a1', brand: 'Sony', model: 'SS-1', status: 'lost', photoIds: ['p1'] }],
+      expenses: []
+    }));
+    render(<App />);
+
+    expect(await screen.findByText(t('app.quarantine', { count: 1 }))).toBeTruthy();
+    await settle();
+    expect(await loadPhoto('p1')).toEqual(photo);
+  });
+
+  it('keeps every photo when the data is from a newer version', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await savePhoto(photo);
+    // A newer version may keep photos somewhere this one doesn't look
+    localStorage.setItem('audio_sales_data', JSON.stringify({ version: SCHEMA_VERSION + 1, sales: [], expenses: [], gallery: ['p1'] }));
+    render(<App />);
+
+    expect(await screen.findByText(t('app.readOnly'))).toBeTruthy();
+    await settle();
+    expect(await loadPhoto('p1')).toEqual(photo);
+  });
+});
+
+describe('bulk changes', () => {
+  it('moves only the sales a new date is valid for, once confirmed', async () => {
+    const sold = (id: string, purchaseDate: string, date: string) => ({
+      id, brand: 'Sony', model: id, type: 'ลำโพง', status: ItemStatus.SOLD, purchaseDate, date,
+      sellingPrice: 1500, costs: [{ id: `c-${id}`, category: CostCategory.PURCHASE, amount: 900 }]
+    });
+    await saveData([sold('A1', '2026-01-01', '2026-01-10'), sold('B2', '2026-02-01', '2026-02-10')], []);
+    const user = userEvent.setup();
+    render(<App />);
+    await user.click(await screen.findByRole('button', { name: t('nav.list') }));
+    await user.click(await screen.findByTitle(t('list.select')));
+    await user.click(screen.getByRole('button', { name: t('bulk.selected', { selected: 0, total: 2 }) }));
+    await user.click(screen.getByTitle(t('bulk.changeDate')));
+    await user.type(screen.getByLabelText(t('bulk.changeDate')), '2026-01-15');
+    expect((await loadData()).sales.map(item => item.date)).toEqual(['2026-01-10', '2026-02-10']);
+
+    await user.click(screen.getByRole('button', { name: t('bulk.apply', { count: 2 }) }));
+    expect(screen.getByText(
+      `${t('list.changedDate', { count: 1 })} · ${t('bulk.skipped', { count: 1, reason: t('validation.saleBeforePurchase') })}`
+    )).toBeTruthy();
+    await waitFor(async () => expect((await loadData()).sales.map(item => item.date)).toEqual(['2026-01-15', '2026-02-10']));
+  });
+});
+
+describe('tags and notes', () => {
+  it('saves them with the sale and finds the sale by tag', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+    await addSale(user);
+    await user.click(await screen.findByRole('button', { name: t('form.addTitle') }));
+    await setField(user, screen.getByPlaceholderText(t('form.brandPlaceholder')), 'Marantz');
+    await setField(user, screen.getByPlaceholderText(t('form.modelPlaceholder')), 'PM6006');
+    await setField(user, screen.getByLabelText(t('costCategory.purchase')), '6000');
+    await setField(user, document.querySelector<HTMLInputElement>('input[name="sellingPrice"]')!, '9000');
+    await user.type(screen.getByLabelText(t('form.tags')), 'vintage{Enter}#Vintage,needs service{Enter}');
+    await user.type(document.querySelector<HTMLTextAreaElement>('textarea[name="note"]')!, ' remote included ');
+    await user.click(screen.getByRole('button', { name: t('common.save') }));
+
+    await waitFor(async () => {
+      const stored = (await loadData()).sales;
+      expect(stored.find(item => item.brand === 'Marantz')).toMatchObject({ tags: ['vintage', 'needs service'], note: 'remote included' });
+    });
+
+    // The untagged sale drops out whether the tag is picked from a chip or from the filter
+    await user.click(screen.getByTitle(t('list.filterTag', { tag: 'vintage' })));
+    expect(screen.getByRole('heading', { name: 'Marantz PM6006' })).toBeTruthy();
+    expect(screen.queryByRole('heading', { name: 'Sony SS-1' })).toBeNull();
+
+    await user.click(screen.getByTitle(t('filter.clear')));
+    expect(screen.getByRole('heading', { name: 'Sony SS-1' })).toBeTruthy();
+    await user.click(screen.getByTitle(t('filter.more')));
+    await user.selectOptions(screen.getByDisplayValue(t('filter.allTags')), 'needs service');
+    expect(screen.getByRole('heading', { name: 'Marantz PM6006' })).toBeTruthy();
+    expect(screen.queryByRole('heading', { name: 'Sony SS-1' })).toBeNull();
+  });
+});
+
+describe('item types', () => {
+  it('brings a merged type back with its items on undo', async () => {
+    await saveData([{
+      id: 'a1', brand: 'Sony', model: 'SS-1', type: 'ลำโพง', status: ItemStatus.SOLD, purchaseDate: '2026-01-01', date: '2026-01-10',
+      sellingPrice: 1500, costs: [{ id: 'c1', category: CostCategory.PURCHASE, amount: 900 }]
+    }], []);
+    const user = userEvent.setup();
+    render(<App />);
+    await user.click(await screen.findByTitle(t('settings.title')));
+    const row = screen.getByDisplayValue('ลำโพง').parentElement!;
+    await user.selectOptions(within(row).getByRole('combobox'), 'แอมป์');
+    expect(screen.queryByDisplayValue('ลำโพง')).toBeNull();
+
+    await user.click(screen.getByRole('button', { name: t('undo.undo') }));
+    expect(screen.getByDisplayValue('ลำโพง')).toBeTruthy();
+    await waitFor(async () => {
+      expect((await loadData()).sales[0].type).toBe('ลำโพง');
+      expect((await loadSettings()).categories.some(category => category.name === 'ลำโพง')).toBe(true);
+    });
+  });
+});
+
+describe('backup', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("keeps this device's sync connection when a backup replaces everything", async () => {
+    vi.spyOn(globalThis, 'fetch').mockRejectedValue(new TypeError('offline'));
+    const sync = { serverUrl: 'https://sync.example', token: 'secret-token' };
+    await saveSettings({ ...DEFAULT_SETTINGS, sync });
+    const backup = await createBackup([], [], { ...DEFAULT_SETTINGS, shop: { ...DEFAULT_SETTINGS.shop, name: 'Old shop' } });
+    const user = userEvent.setup();
+    render(<App />);
+    await user.click(await screen.findByTitle(t('backup.title')));
+    await user.upload(screen.getByLabelText(t('backup.pickFile')), new File([JSON.stringify(backup)], 'backup.json', { type: 'application/json' }));
+    await user.click(await screen.findByRole('radio', { name: `${t('backup.replace')} ${t('backup.replaceHint')}` }));
+    await user.click(screen.getByRole('button', { name: t('backup.confirm') }));
+
+    await waitFor(async () => expect(await loadSettings()).toMatchObject({ shop: { name: 'Old shop' }, sync }));
+  });
+
+  it('says so when the backup file cannot be made', async () => {
+    vi.spyOn(crypto.subtle, 'digest').mockRejectedValue(new Error('not available'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const user = userEvent.setup();
+    render(<App />);
+    await user.click(await screen.findByTitle(t('backup.title')));
+    await user.click(screen.getByRole('button', { name: t('backup.download') }));
+
+    expect(await screen.findByText(t('backup.createFailed'))).toBeTruthy();
+    expect(screen.getByText(t('backup.lastBackup', { date: t('backup.never') }))).toBeTruthy();
+  });
+});
+
+describe('data from a newer version', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('opens it read-only and never saves over it', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const stored = JSON.stringify({
+      version: 99,
+      sales: [{
+        id: 'a1', brand: 'Sony', model: 'SS-1', type: 'ลำโพง', status: ItemStatus.SOLD, purchaseDate: '2026-01-01', date: '2026-01-10',
+        sellingPrice: 1500, costs: [{ id: 'c1', category: CostCategory.PURCHASE, amount: 900 }], grade: 'A'
+      }],
+      expenses: []
+    });
+    localStorage.setItem('audio_sales_data', stored);
+    const user = userEvent.setup();
+    render(<App />);
+
+    expect(await screen.findByText(t('app.readOnly'))).toBeTruthy();
+    await user.click(screen.getByRole('button', { name: t('nav.list') }));
+    await user.click(await screen.findByTitle(t('list.delete')));
+    await waitFor(() => expect(screen.queryByRole('heading', { name: 'Sony SS-1' })).toBeNull());
+    expect(localStorage.getItem('audio_sales_data')).toBe(stored);
+  });
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { 
   Plus, 
   Home, 
@@ -11,484 +11,1716 @@ import {
   Package, 
   DollarSign, 
   TrendingUp,
-  Filter
+  Boxes,
+  CheckCircle2,
+  Download,
+  Upload,
+  AlertTriangle,
+  DatabaseBackup,
+  Settings,
+  ListChecks,
+  WifiOff,
+  Printer,
+  Wallet,
+  Wrench,
+  History
 } from 'lucide-react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, Legend } from 'recharts';
-import { SaleItem, EquipmentType } from './types';
-import { loadSales, saveSales } from './services/storage';
+import { SaleItem, SummaryStats, ItemStatus, IN_STOCK_STATUSES, QuarantineEntry, AppSettings, SalesFilter,
+  SalesChannel, PaymentMethod, PaymentStatus, CostCategory, SyncSettings, SyncState, SyncStatus, Expense, ProfitOutcome,
+  AfterSalesEvent, AfterSalesKind, AuditEntry, Category } from './types';
+import { loadData, saveData, loadQuarantine, addToQuarantine, clearQuarantine, loadSettings, saveSettings, DEFAULT_SETTINGS,
+  loadSyncState, saveSyncState, EMPTY_SYNC_STATE, loadAuditLog, saveAuditLog, prunePhotos } from './services/storage';
+import { touchChanged, collectChanges, requestSync, mergeSyncResponse, resolveConflict, SyncError, ConflictChoice } from './services/sync';
+import { salesToCsv, downloadCsv } from './services/csv';
+import { downloadFile } from './services/download';
+import { buildMonthlyTrends, buildChannelSummary, buildSummaryStats, getStockItems, isInStock } from './services/analytics';
+import { getItemCost, getCostByCategory, calculateProfit, resolveChannelFee, defaultCosts, getAfterSalesTotals } from './services/profit';
+import { applyFilter, getActivityDate, getAvailableMonths, daysBetween, isFilterActive, filterFromSearchParams, filterToSearchParams, toLocalISODate,
+  resolveDateRange } from './services/filters';
+import { validateSaleItem, buildDuplicateIndex, hasErrors, ValidatedField } from './services/validation';
+import { buildCatalog, findBrand, findModel, resolveBrandName, mergeBrands, getPriceHistory, catalogKey } from './services/catalog';
+import { resolveCategories, countByCategory, findCategory, updateCategory, removeCategory, renameCategoryInSales } from './services/categories';
+import { CURRENCIES } from './services/i18n';
+import { buildReceiptHtml, printDocument } from './services/documents';
+import { buildMonthlyGoals } from './services/goals';
+import { buildAlerts, pruneDismissed } from './services/alerts';
+import { buildOverheadSummary } from './services/expenses';
+import { getActiveWarranties, getWarrantyEnd, restockReturn } from './services/afterSales';
+import { buildAuditEntries, appendAuditEntries, getItemHistory, restoreFromEntry } from './services/audit';
+import { collectTags } from './services/tags';
+import { I18nContext, createI18n } from './components/I18nContext';
 import { StatsCard } from './components/StatsCard';
-
-// Color palette for charts
-const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d'];
+import { ImportWizard } from './components/ImportWizard';
+import { BackupView } from './components/BackupView';
+import { FilterBar } from './components/FilterBar';
+import { TrendsSection } from './components/TrendsSection';
+import { ProfitabilityReport } from './components/ProfitabilityReport';
+import { ChannelSummaryCard } from './components/ChannelSummaryCard';
+import { SettingsView } from './components/SettingsView';
+import { CostEditor } from './components/CostEditor';
+import { CostBreakdownCard } from './components/CostBreakdownCard';
+import { BulkActionBar } from './components/BulkActionBar';
+import { UndoSnackbar } from './components/UndoSnackbar';
+import { SyncIndicator } from './components/SyncIndicator';
+import { SyncView } from './components/SyncView';
+import { PhotoPicker } from './components/PhotoPicker';
+import { PhotoThumbnail } from './components/PhotoThumbnail';
+import { FieldMessage } from './components/FieldMessage';
+import { PriceHistoryPanel } from './components/PriceHistoryPanel';
+import { MonthlyReportCard } from './components/MonthlyReportCard';
+import { GoalProgressCard } from './components/GoalProgressCard';
+import { AlertsPanel } from './components/AlertsPanel';
+import { OverheadCard } from './components/OverheadCard';
+import { ExpensesView } from './components/ExpensesView';
+import { WarrantyCard } from './components/WarrantyCard';
+import { AfterSalesPanel } from './components/AfterSalesPanel';
+import { TagInput } from './components/TagInput';
+import { AuditTrail } from './components/AuditTrail';
+import { HistoryView } from './components/HistoryView';
 
 enum View {
   DASHBOARD = 'dashboard',
   LIST = 'list',
-  FORM = 'form'
+  STOCK = 'stock',
+  ANALYSIS = 'analysis',
+  FORM = 'form',
+  IMPORT = 'import',
+  BACKUP = 'backup',
+  SETTINGS = 'settings',
+  SYNC = 'sync',
+  EXPENSES = 'expenses',
+  HISTORY = 'history'
+}
+
+// Views that can be bookmarked; the rest are transient screens
+const LINKABLE_VIEWS = [View.DASHBOARD, View.LIST, View.STOCK, View.ANALYSIS];
+
+const SYNC_INTERVAL_MS = 60_000;
+const SYNC_DEBOUNCE_MS = 2_000;
+
+// Form inputs that hold a number; every other field is kept as typed
+const NUMERIC_FIELDS = new Set<string>(['exchangeRate', 'sellingPrice', 'depositAmount', 'warrantyDays'] satisfies (keyof SaleItem)[]);
+
+interface UndoAction {
+  id: string; // Repeating an action gives the snackbar a fresh countdown even with the same message
+  message: string;
+  previous: SaleItem[]; // Affected items as they were before the action
+  order: string[]; // Ids in list order before the action
+  categories?: Category[]; // Configured categories before the action, when it changed them
 }
 
+// Puts earlier versions of items back, re-inserting deleted ones where they used to be.
+// Anything added after the action has no earlier position and stays at the top.
+const restoreItems = (current: SaleItem[], { previous, order }: UndoAction): SaleItem[] => {
+  const previousById = new Map(previous.map(item => [item.id, item]));
+  const presentIds = new Set(current.map(item => item.id));
+  const position = new Map(order.map((id, index) => [id, index]));
+  return [
+    ...current.map(item => previousById.get(item.id) ?? item),
+    ...previous.filter(item => !presentIds.has(item.id))
+  ].sort((a, b) => (position.get(a.id) ?? -1) - (position.get(b.id) ?? -1));
+};
+
+const initialView = (): View => {
+  const view = new URLSearchParams(window.location.search).get('view') as View;
+  return LINKABLE_VIEWS.includes(view) ? view : View.DASHBOARD;
+};
+
+const todayISO = () => toLocalISODate(new Date());
+
+const emptyForm = (type: string): Partial<SaleItem> => ({
+  brand: '',
+  type,
+  model: '',
+  status: ItemStatus.SOLD,
+  purchaseDate: todayISO(),
+  costs: defaultCosts(),
+  date: todayISO()
+});
+
+// Turns the form into the record that would be saved, dropping fields the status doesn't use
+const toSaleItem = (formData: Partial<SaleItem>, channelFee: number, currency: string): SaleItem => {
+  // Sale details only belong to items that have actually been sold (or agreed, for reservations)
+  const item = { ...formData, brand: formData.brand?.trim() ?? '', model: formData.model?.trim() ?? '' } as SaleItem;
+  if (item.status !== ItemStatus.SOLD) delete item.date;
+  if (item.status !== ItemStatus.SOLD && item.status !== ItemStatus.RESERVED) {
+    delete item.sellingPrice;
+    delete item.channel;
+    delete item.buyerName;
+    delete item.buyerContact;
+    delete item.paymentMethod;
+    delete item.paymentStatus;
+  }
+  // Cleared selects and inputs leave empty strings behind
+  (['channel', 'buyerName', 'buyerContact', 'paymentMethod', 'paymentStatus'] as const).forEach(field => {
+    if (!item[field]) delete item[field];
+  });
+  if (item.paymentStatus !== PaymentStatus.DEPOSIT) delete item.depositAmount;
+  // Warranty runs from the sale date, so only a sale can have one
+  if (item.status !== ItemStatus.SOLD || !item.warrantyDays) delete item.warrantyDays;
+  if (!item.photoIds?.length) delete item.photoIds;
+  if (item.note?.trim()) item.note = item.note.trim();
+  else delete item.note;
+  if (!item.tags?.length) delete item.tags;
+  // A purchase in the reporting currency needs no conversion
+  if (!item.purchaseCurrency || item.purchaseCurrency === currency) {
+    delete item.purchaseCurrency;
+    delete item.exchangeRate;
+  }
+  // Snapshot the fee so later changes to the channel rules don't rewrite past profit
+  if (item.channel) item.channelFee = channelFee;
+  else delete item.channelFee;
+  return item;
+};
+
 const App: React.FC = () => {
   const [sales, setSales] = useState<SaleItem[]>([]);
-  const [currentView, setCurrentView] = useState<View>(View.DASHBOARD);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [loadError, setLoadError] = useState(false);
+  const [readOnly, setReadOnly] = useState(false);
+  const [quarantine, setQuarantine] = useState<QuarantineEntry[]>([]);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [currentView, setCurrentView] = useState<View>(initialView);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [selectedMonth, setSelectedMonth] = useState<string>('all'); // 'YYYY-MM' or 'all'
+  const [filter, setFilter] = useState<SalesFilter>(() => filterFromSearchParams(new URLSearchParams(window.location.search)));
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [undo, setUndo] = useState<UndoAction | null>(null);
+  const [showFormErrors, setShowFormErrors] = useState(false);
+  const [afterSalesId, setAfterSalesId] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [syncState, setSyncState] = useState<SyncState>(EMPTY_SYNC_STATE);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(SyncStatus.IDLE);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+
+  // A sync finishes after an await, so it reads the latest data through refs rather than a stale closure
+  const salesRef = useRef(sales);
+  const syncStateRef = useRef(syncState);
+  const syncInFlight = useRef(false);
+  salesRef.current = sales;
+  syncStateRef.current = syncState;
+
+  // Every change to the list, local or synced, is recorded in the edit history. The new list
+  // is worked out by the caller rather than in a state updater, which StrictMode runs twice
+  // and would then record every change twice.
+  const commitSales = (prev: SaleItem[], next: SaleItem[], fromSync = false) => {
+    salesRef.current = next;
+    setSales(next);
+    const entries = buildAuditEntries(prev, next, { fromSync });
+    if (entries.length > 0) setAuditLog(log => appendAuditEntries(log, entries));
+  };
 
   // Form State
-  const [formData, setFormData] = useState<Partial<SaleItem>>({
-    brand: '',
-    type: EquipmentType.SPEAKER,
-    model: '',
-    costPrice: 0,
-    shippingCost: 0,
-    sellingPrice: 0,
-    date: new Date().toISOString().split('T')[0]
-  });
+  const [formData, setFormData] = useState<Partial<SaleItem>>(() => emptyForm(DEFAULT_SETTINGS.categories[0].name));
 
   // Load data on mount
   useEffect(() => {
-    const loaded = loadSales();
-    setSales(loaded);
+    Promise.all([loadData(), loadSettings(), loadSyncState(), loadAuditLog()])
+      .then(([{ sales: loaded, expenses: loadedExpenses, readOnly: loadedReadOnly = false }, loadedSettings, loadedSyncState, loadedAuditLog]) => {
+        setSales(loaded);
+        setReadOnly(loadedReadOnly);
+        setExpenses(loadedExpenses);
+        setSettings(loadedSettings);
+        setSyncState(loadedSyncState);
+        setAuditLog(loadedAuditLog);
+        setIsLoaded(true);
+        return loadQuarantine().then(loadedQuarantine => {
+          setQuarantine(loadedQuarantine);
+          // Photos are only tidied up when every record that could use them was read. Data from a newer
+          // version may use them in ways this one can't see, and quarantined records may be recovered;
+          // clearing the quarantine lets the next load tidy up.
+          if (loadedReadOnly || loadedQuarantine.length > 0) return;
+          // Photos of conflict copies and of earlier versions in the history are kept so they can still be restored
+          const conflictItems = loadedSyncState.conflicts.map(conflict => conflict.local).filter((item): item is SaleItem => item !== null);
+          const historyItems = loadedAuditLog.map(entry => entry.before).filter((item): item is SaleItem => item !== null);
+          prunePhotos(new Set([...loaded, ...conflictItems, ...historyItems].flatMap(item => item.photoIds ?? [])));
+        });
+      })
+      .catch(error => {
+        console.error("Error loading sales data", error);
+        setLoadError(true);
+      });
   }, []);
 
-  // Save data on change
+  // Save data on change; never before a successful load, or we would overwrite what's stored,
+  // and never over data from a newer version of the app, which would lose what it added
   useEffect(() => {
-    saveSales(sales);
-  }, [sales]);
+    if (isLoaded && !readOnly) saveData(sales, expenses);
+  }, [sales, expenses, isLoaded, readOnly]);
+
+  useEffect(() => {
+    if (isLoaded) saveSettings(settings);
+  }, [settings, isLoaded]);
+
+  const i18n = useMemo(
+    () => createI18n(settings.language, settings.calendar, settings.currency),
+    [settings.language, settings.calendar, settings.currency]
+  );
+  const { t, formatDate, formatCurrency } = i18n;
+
+  useEffect(() => {
+    document.documentElement.lang = settings.language;
+  }, [settings.language]);
+
+  useEffect(() => {
+    if (isLoaded) saveSyncState(syncState);
+  }, [syncState, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded && !readOnly) saveAuditLog(auditLog);
+  }, [auditLog, isLoaded, readOnly]);
+
+  const runSync = useCallback(async () => {
+    const config = settings.sync;
+    // Records read by an older schema could push a stripped-down copy to the other devices
+    if (!config || readOnly || syncInFlight.current) return;
+    syncInFlight.current = true;
+    setSyncStatus(SyncStatus.SYNCING);
+    try {
+      const pushed = collectChanges(salesRef.current, syncStateRef.current);
+      const response = await requestSync(config, syncStateRef.current.cursor, pushed);
+      const result = mergeSyncResponse(salesRef.current, syncStateRef.current, pushed, response);
+      if (result.changed) commitSales(salesRef.current, result.sales, true);
+      setSyncState(result.state);
+      if (result.quarantined.length > 0) {
+        console.error(`Quarantined ${result.quarantined.length} unreadable synced record(s)`);
+        await addToQuarantine(result.quarantined);
+        setQuarantine(await loadQuarantine());
+      }
+      setSyncStatus(SyncStatus.IDLE);
+      setSyncError(null);
+    } catch (error) {
+      if (error instanceof SyncError) {
+        console.error("Sync failed", error);
+        setSyncStatus(SyncStatus.ERROR);
+        setSyncError(error.message);
+      } else {
+        // Network failure: edits stay queued until the next attempt
+        setSyncStatus(SyncStatus.OFFLINE);
+      }
+    } finally {
+      syncInFlight.current = false;
+    }
+  }, [settings.sync, readOnly]);
+
+  const pendingSyncCount = useMemo(
+    () => (settings.sync ? collectChanges(sales, syncState).length : 0),
+    [sales, syncState, settings.sync]
+  );
+
+  // Pull on start, on reconnect and periodically to pick up the other devices' edits
+  useEffect(() => {
+    if (!isLoaded || !settings.sync) return;
+    runSync();
+    const interval = window.setInterval(runSync, SYNC_INTERVAL_MS);
+    window.addEventListener('online', runSync);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('online', runSync);
+    };
+  }, [isLoaded, runSync]);
+
+  // Push local edits shortly after the last one
+  useEffect(() => {
+    if (!isLoaded || pendingSyncCount === 0) return;
+    const timer = window.setTimeout(runSync, SYNC_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [isLoaded, pendingSyncCount, sales, syncState, runSync]);
+
+  // Mirror the filter and view in the URL so a view can be bookmarked
+  useEffect(() => {
+    if (!LINKABLE_VIEWS.includes(currentView)) return;
+    const params = filterToSearchParams(filter, new URLSearchParams(window.location.search));
+    if (currentView === View.DASHBOARD) params.delete('view');
+    else params.set('view', currentView);
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+  }, [filter, currentView]);
+
+  // Everything works offline; this only tells the user why a page may look stale
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  // Selection belongs to the list view only
+  useEffect(() => {
+    if (currentView !== View.LIST) {
+      setSelectionMode(false);
+      setSelectedIds(new Set());
+    }
+  }, [currentView]);
 
   // Derived State: Filtered Sales
-  const filteredSales = useMemo(() => {
-    if (selectedMonth === 'all') return sales;
-    return sales.filter(s => s.date.startsWith(selectedMonth));
-  }, [sales, selectedMonth]);
+  const filteredSales = useMemo(() => applyFilter(sales, filter), [sales, filter]);
+
+  const soldSales = useMemo(() => filteredSales.filter(s => s.status === ItemStatus.SOLD), [filteredSales]);
+
+  // Stock is a snapshot of what we hold right now, so it ignores the filter
+  const stockItems = useMemo(() => getStockItems(sales), [sales]);
 
   // Derived State: Statistics
-  const stats = useMemo(() => {
-    return filteredSales.reduce((acc, curr) => {
-      const cost = Number(curr.costPrice) + Number(curr.shippingCost);
-      const revenue = Number(curr.sellingPrice);
-      const profit = revenue - cost;
-
-      return {
-        totalCost: acc.totalCost + cost,
-        totalRevenue: acc.totalRevenue + revenue,
-        totalProfit: acc.totalProfit + profit,
-        count: acc.count + 1
-      };
-    }, { totalCost: 0, totalRevenue: 0, totalProfit: 0, count: 0 });
-  }, [filteredSales]);
+  const stats = useMemo<SummaryStats>(() => buildSummaryStats(soldSales, stockItems), [soldSales, stockItems]);
+
+  // User categories in their display order, plus any types found only in records
+  const categories = useMemo(() => resolveCategories(settings.categories, sales), [settings.categories, sales]);
+  const categoryCounts = useMemo(() => countByCategory(sales), [sales]);
 
-  // Derived State: Category Data for Chart
+  // Derived State: Category Data for Chart, in the user's category order and colours
   const categoryData = useMemo(() => {
-    const data: Record<string, number> = {};
-    filteredSales.forEach(sale => {
-      if (data[sale.type]) {
-        data[sale.type]++;
-      } else {
-        data[sale.type] = 1;
-      }
-    });
-    return Object.keys(data).map(key => ({ name: key, value: data[key] }));
-  }, [filteredSales]);
+    const counts = countByCategory(soldSales);
+    return categories
+      .filter(category => counts.has(category.name))
+      .map(category => ({ name: category.name, value: counts.get(category.name)!, color: category.color }));
+  }, [soldSales, categories]);
+
+  // Derived State: Month-by-month trends
+  const trends = useMemo(() => buildMonthlyTrends(soldSales), [soldSales]);
+
+  const channelSummary = useMemo(() => buildChannelSummary(soldSales), [soldSales]);
+
+  // Overhead follows the period only; it isn't tied to any type, brand or item
+  const overhead = useMemo(
+    () => buildOverheadSummary(expenses, stats.totalProfit, resolveDateRange(filter), todayISO()),
+    [expenses, stats.totalProfit, filter]
+  );
+  const overheadNarrowed = !!filter.type || !!filter.brand || !!filter.tag || filter.outcome !== ProfitOutcome.ALL || filter.query.trim() !== '';
+
+  // Goals and alerts are about today, so they ignore the filter
+  const monthlyGoals = useMemo(() => buildMonthlyGoals(sales, settings.goals, todayISO()), [sales, settings.goals]);
+  const alerts = useMemo(() => buildAlerts(sales, settings.alerts, todayISO()), [sales, settings.alerts]);
+  const warranties = useMemo(() => getActiveWarranties(sales, todayISO()), [sales]);
+  const visibleAlerts = useMemo(() => {
+    const dismissed = new Set(settings.dismissedAlerts);
+    return alerts.filter(alert => !dismissed.has(alert.id));
+  }, [alerts, settings.dismissedAlerts]);
+
+  // Fee the current form would be charged: today's channel rules, or what the sale was already charged
+  const editingItem = useMemo(() => sales.find(item => item.id === editingId), [sales, editingId]);
+  const formChannelFee = resolveChannelFee(formData, editingItem, settings.channelFees);
+  const duplicateIndex = useMemo(() => buildDuplicateIndex(sales), [sales]);
+  const catalog = useMemo(() => buildCatalog(sales), [sales]);
+  const formBrandModels = findBrand(catalog, formData.brand ?? '')?.models ?? [];
+  const formPriceHistory = useMemo(
+    () => (findModel(catalog, formData.brand ?? '', formData.model ?? '')
+      ? getPriceHistory(sales, formData.brand ?? '', formData.model ?? '', editingId ?? undefined)
+      : null),
+    [catalog, sales, formData.brand, formData.model, editingId]
+  );
+  const formItem = toSaleItem(formData, formChannelFee, settings.currency);
+  const formValidation = validateSaleItem(formItem, duplicateIndex, todayISO(), t);
+  const formProfit = calculateProfit({
+    costs: formData.costs ?? [],
+    exchangeRate: formItem.exchangeRate,
+    sellingPrice: formData.sellingPrice,
+    channelFee: formChannelFee,
+    afterSales: formData.afterSales
+  }).profit;
+  const formWarrantyEnd = getWarrantyEnd(formItem);
+  const formPurchaseCurrency = formData.purchaseCurrency || settings.currency;
+  const formHasErrors = hasErrors(formValidation);
+
+  // Errors appear after the first save attempt; warnings show while typing
+  const fieldMessage = (field: ValidatedField) => (
+    <FieldMessage
+      error={showFormErrors ? formValidation.errors[field] : undefined}
+      warning={formValidation.warnings[field]}
+    />
+  );
 
   // Handlers
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
-      [name]: name.includes('Price') || name.includes('Cost') ? Number(value) : value
+      // A cleared number stays empty so validation can ask for it, instead of silently becoming 0
+      [name]: NUMERIC_FIELDS.has(name) ? (value === '' ? undefined : Number(value)) : value
     }));
   };
 
+  // Picking a model we have handled before also fills in its usual type
+  const handleModelChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const model = e.target.value;
+    const known = findBrand(catalog, formData.brand ?? '')?.models.find(entry => entry.key === catalogKey(model));
+    setFormData(prev => ({ ...prev, model, ...(known ? { type: known.type } : {}) }));
+  };
+
+  // Every user edit goes through here so changed records get a fresh updatedAt for sync
+  const updateSales = (update: (prev: SaleItem[]) => SaleItem[]) => {
+    const prev = salesRef.current;
+    commitSales(prev, touchChanged(prev, update(prev)));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.brand || !formData.model) return;
+    if (formHasErrors) {
+      setShowFormErrors(true);
+      return;
+    }
 
+    const item: SaleItem = { ...formItem, brand: resolveBrandName(catalog, formItem.brand) };
     if (editingId) {
-      setSales(prev => prev.map(item => item.id === editingId ? { ...formData, id: editingId } as SaleItem : item));
+      updateSales(prev => prev.map(existing => existing.id === editingId ? { ...item, id: editingId } : existing));
     } else {
       const newItem: SaleItem = {
-        ...formData as SaleItem,
+        ...item,
         id: crypto.randomUUID(),
       };
-      setSales(prev => [newItem, ...prev]);
+      updateSales(prev => [newItem, ...prev]);
     }
 
     resetForm();
-    setCurrentView(View.LIST);
+    setCurrentView(isInStock(item) ? View.STOCK : View.LIST);
+  };
+
+  const handleStatusChange = (id: string, status: ItemStatus) => {
+    updateSales(prev => prev.map(item => item.id === id ? { ...item, status } : item));
+  };
+
+  const handleMarkSold = (item: SaleItem) => {
+    setFormData({ ...item, status: ItemStatus.SOLD, sellingPrice: item.sellingPrice, date: todayISO() });
+    setEditingId(item.id);
+    setCurrentView(View.FORM);
+  };
+
+  // Destructive changes apply immediately and can be reverted from the snackbar
+  const applyWithUndo = (
+    message: string,
+    ids: Set<string>,
+    update: (prev: SaleItem[]) => SaleItem[],
+    nextCategories?: Category[]
+  ) => {
+    setUndo({
+      id: crypto.randomUUID(),
+      message,
+      previous: sales.filter(item => ids.has(item.id)),
+      order: sales.map(item => item.id),
+      ...(nextCategories ? { categories: settings.categories } : {})
+    });
+    if (nextCategories) setSettings(prev => ({ ...prev, categories: nextCategories }));
+    updateSales(update);
   };
 
+  const handleUndo = () => {
+    if (!undo) return;
+    const { categories: previousCategories } = undo;
+    if (previousCategories) setSettings(prev => ({ ...prev, categories: previousCategories }));
+    updateSales(prev => restoreItems(prev, undo));
+    setUndo(null);
+  };
+
+  const dismissUndo = useCallback(() => setUndo(null), []);
+
   const handleDelete = (id: string) => {
-    if (window.confirm('ยืนยันการลบรายการนี้?')) {
-      setSales(prev => prev.filter(item => item.id !== id));
+    applyWithUndo(t('undo.deleted'), new Set([id]), prev => prev.filter(item => item.id !== id));
+  };
+
+  // Only rows still visible count, in case the filter changed after selecting
+  const selectedSales = soldSales.filter(item => selectedIds.has(item.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(selectedSales.length === soldSales.length ? new Set() : new Set(soldSales.map(item => item.id)));
+  };
+
+  const exitSelectionMode = () => {
+    setSelectionMode(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkDelete = () => {
+    const ids = new Set<string>(selectedSales.map(item => item.id));
+    applyWithUndo(t('undo.deletedMany', { count: ids.size }), ids, prev => prev.filter(item => !ids.has(item.id)));
+    exitSelectionMode();
+  };
+
+  // Each item is checked the way the form checks it. One the change would make invalid, such as a
+  // sale date before its purchase, is left as it was; items that were already invalid can still change.
+  const handleBulkUpdate = (message: (count: number) => string, patch: Partial<SaleItem>) => {
+    const today = todayISO();
+    const noDuplicates = buildDuplicateIndex([]);
+    const errorsOf = (item: SaleItem) => validateSaleItem(item, noDuplicates, today, t).errors;
+    const ids = new Set<string>();
+    const reasons: string[] = [];
+    selectedSales.forEach(item => {
+      const before = errorsOf(item);
+      const after = errorsOf({ ...item, ...patch });
+      const broken = (Object.keys(after) as ValidatedField[]).find(field => after[field] !== before[field]);
+      if (broken) reasons.push(after[broken]!);
+      else ids.add(item.id);
+    });
+
+    if (ids.size === 0) {
+      window.alert(t('bulk.noneChanged', { reason: reasons[0] }));
+      return;
     }
+    const skipped = reasons.length > 0 ? ` · ${t('bulk.skipped', { count: reasons.length, reason: reasons[0] })}` : '';
+    applyWithUndo(message(ids.size) + skipped, ids, prev => prev.map(item => (ids.has(item.id) ? { ...item, ...patch } : item)));
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkExport = () => {
+    downloadCsv(`audiosale-selected-${todayISO()}.csv`, salesToCsv(selectedSales));
   };
 
   const handleEdit = (item: SaleItem) => {
-    setFormData(item);
+    setFormData({ date: todayISO(), ...item });
     setEditingId(item.id);
     setCurrentView(View.FORM);
   };
 
-  const resetForm = () => {
-    setFormData({
-      brand: '',
-      type: EquipmentType.SPEAKER,
-      model: '',
-      costPrice: 0,
-      shippingCost: 0,
-      sellingPrice: 0,
-      date: new Date().toISOString().split('T')[0]
-    });
-    setEditingId(null);
+  const handlePrintReceipt = (item: SaleItem) => {
+    printDocument(buildReceiptHtml(item, settings.shop, t, i18n));
+  };
+
+  const handleExport = () => {
+    downloadCsv(`audiosale-${todayISO()}.csv`, salesToCsv(soldSales));
+  };
+
+  const handleImport = (items: SaleItem[]) => {
+    updateSales(prev => [...items, ...prev]);
+    setCurrentView(View.LIST);
+  };
+
+  const handleRestore = (restored: SaleItem[], restoredExpenses: Expense[], restoredSettings: AppSettings) => {
+    updateSales(() => restored);
+    setExpenses(restoredExpenses);
+    setSettings(restoredSettings);
+    setCurrentView(View.LIST);
+  };
+
+  const handleMergeBrands = (fromKeys: string[], toName: string) => {
+    const keys = new Set(fromKeys);
+    const ids = new Set<string>(sales.filter(item => keys.has(catalogKey(item.brand)) && item.brand !== toName).map(item => item.id));
+    if (ids.size === 0) return;
+    applyWithUndo(t('undo.mergedBrands', { brand: toName, count: ids.size }), ids, prev => mergeBrands(prev, fromKeys, toName));
+  };
+
+  // Renaming rewrites every record of the category so filters and charts stay in one group
+  const handleRenameCategory = (id: string, name: string): boolean => {
+    const category = categories.find(c => c.id === id);
+    const taken = findCategory(categories, name);
+    if (!category || (taken && taken.id !== id)) return false;
+    setSettings(prev => ({ ...prev, categories: updateCategory(categories, id, { name }) }));
+    updateSales(prev => renameCategoryInSales(prev, category.name, name));
+    if (filter.type === category.name) setFilter(prev => ({ ...prev, type: name }));
+    if (formData.type === category.name) setFormData(prev => ({ ...prev, type: name }));
+    return true;
+  };
+
+  const handleMergeCategories = (fromId: string, toId: string) => {
+    const from = categories.find(c => c.id === fromId);
+    const to = categories.find(c => c.id === toId);
+    if (!from || !to) return;
+    const ids = new Set<string>(sales.filter(item => item.type === from.name).map(item => item.id));
+    const nextCategories = removeCategory(categories, fromId);
+    if (filter.type === from.name) setFilter(prev => ({ ...prev, type: to.name }));
+    // An empty category goes the way a plain delete would; otherwise undo brings it back with its items
+    if (ids.size === 0) {
+      setSettings(prev => ({ ...prev, categories: nextCategories }));
+      return;
+    }
+    applyWithUndo(
+      t('undo.mergedCategories', { count: ids.size, from: from.name, to: to.name }),
+      ids,
+      prev => renameCategoryInSales(prev, from.name, to.name),
+      nextCategories
+    );
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('th-TH', { style: 'currency', currency: 'THB', maximumFractionDigits: 0 }).format(amount);
+  // A return also puts the goods back into stock as their own record
+  const handleAddAfterSales = (item: SaleItem, event: AfterSalesEvent) => {
+    const restocked = event.kind === AfterSalesKind.RETURN ? [restockReturn(item, event)] : [];
+    updateSales(prev => [
+      ...restocked,
+      ...prev.map(existing => existing.id === item.id
+        ? { ...existing, afterSales: [...(existing.afterSales ?? []), event].sort((a, b) => a.date.localeCompare(b.date)) }
+        : existing)
+    ]);
+  };
+
+  // Removing a return takes its goods back out of stock, unless they have been sold again
+  const handleRemoveAfterSales = (item: SaleItem, eventId: string) => {
+    const event = item.afterSales?.find(entry => entry.id === eventId);
+    if (!event) return;
+    const restockedIds = event.kind === AfterSalesKind.RETURN
+      ? sales.filter(other => other.returnOf === item.id && isInStock(other)).map(other => other.id)
+      : [];
+    const ids = new Set<string>([item.id, ...restockedIds]);
+    applyWithUndo(t('undo.afterSalesRemoved', { kind: t(`afterSalesKind.${event.kind}`) }), ids, prev => prev
+      .filter(other => !restockedIds.includes(other.id))
+      .map(other => other.id === item.id ? { ...other, afterSales: other.afterSales?.filter(entry => entry.id !== eventId) } : other));
+  };
+
+  // Restoring is an edit like any other, so it is recorded and can itself be reverted
+  const handleRestoreEntry = (entry: AuditEntry) => {
+    if (!entry.before) return;
+    const current = sales.find(item => item.id === entry.itemId);
+    if (current && !window.confirm(t('audit.confirmRestore', { item: `${current.brand} ${current.model}` }))) return;
+    updateSales(prev => restoreFromEntry(prev, entry));
+    if (editingId === entry.itemId) setFormData({ date: todayISO(), ...entry.before });
+  };
+
+  const handleDismissAlert = (id: string) => {
+    setSettings(prev => ({ ...prev, dismissedAlerts: [...pruneDismissed(prev.dismissedAlerts, alerts), id] }));
+  };
+
+  const handleSaveSyncConfig = (config: SyncSettings | undefined) => {
+    // Revisions and cursor belong to one server; a different server starts from scratch
+    if (config?.serverUrl !== settings.sync?.serverUrl) {
+      setSyncState(EMPTY_SYNC_STATE);
+      setSyncError(null);
+    }
+    setSettings(prev => ({ ...prev, sync: config }));
+  };
+
+  const handleResolveConflict = (id: string, choice: ConflictChoice) => {
+    const result = resolveConflict(salesRef.current, syncState, id, choice);
+    commitSales(salesRef.current, result.sales, true);
+    setSyncState(result.state);
+  };
+
+  const handleDownloadQuarantine = () => {
+    downloadFile(`audiosale-quarantine-${todayISO()}.json`, JSON.stringify(quarantine, null, 2), 'application/json');
+  };
+
+  const handleClearQuarantine = () => {
+    if (window.confirm(t('app.confirmClearQuarantine'))) {
+      clearQuarantine().then(() => setQuarantine([]));
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm(categories[0]?.name ?? ''));
+    setEditingId(null);
+    setShowFormErrors(false);
   };
 
   // Unique months for filter dropdown
-  const availableMonths = useMemo(() => {
-    const months = new Set(sales.map(s => s.date.substring(0, 7)));
-    return Array.from(months).sort().reverse();
-  }, [sales]);
+  const availableMonths = useMemo(() => getAvailableMonths(sales), [sales]);
+
+  const availableTypes = useMemo(() => categories.map(category => category.name), [categories]);
+
+  // Brands differing only by case or spacing are offered once
+  const availableBrands = useMemo(() => catalog.map(brand => brand.name), [catalog]);
+
+  const availableTags = useMemo(() => collectTags(sales), [sales]);
+
+  const presentIds = useMemo(() => new Set<string>(sales.map(item => item.id)), [sales]);
+
+  const filterBar = (
+    <FilterBar
+      filter={filter}
+      onChange={setFilter}
+      availableMonths={availableMonths}
+      types={availableTypes}
+      brands={availableBrands}
+      tags={availableTags}
+    />
+  );
 
   return (
-    <div className="flex flex-col min-h-screen max-w-md mx-auto bg-gray-50 pb-20 relative shadow-2xl overflow-hidden">
+    <I18nContext.Provider value={i18n}>
+      <div className="flex flex-col min-h-screen max-w-md mx-auto bg-gray-50 pb-20 relative shadow-2xl overflow-hidden">
       
-      {/* Header */}
-      <header className="bg-indigo-600 text-white p-4 sticky top-0 z-10 shadow-md">
-        <div className="flex justify-between items-center">
-          <div>
-            <h1 className="text-xl font-bold">AudioSale Pro</h1>
-            <p className="text-indigo-200 text-xs">จัดการยอดขายเครื่องเสียงมือสอง</p>
-          </div>
-          <div className="bg-indigo-500 rounded-lg p-1">
-             <Package size={20} />
+        {/* Header */}
+        <header className="bg-indigo-600 text-white p-4 sticky top-0 z-10 shadow-md">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-xl font-bold">AudioSale Pro</h1>
+              <p className="text-indigo-200 text-xs">{t('app.tagline')}</p>
+            </div>
+            <div className="flex gap-2 items-center">
+              {!isOnline && (
+                <span className="flex items-center gap-1 text-xs bg-indigo-800/60 rounded-full px-2 py-1" title={t('app.offlineHint')}>
+                  <WifiOff size={14} /> {t('app.offline')}
+                </span>
+              )}
+              <SyncIndicator
+                status={settings.sync ? syncStatus : SyncStatus.DISABLED}
+                pendingCount={pendingSyncCount}
+                conflictCount={syncState.conflicts.length}
+                onClick={() => setCurrentView(View.SYNC)}
+              />
+              <button
+                onClick={() => setCurrentView(View.EXPENSES)}
+                className="bg-indigo-500 rounded-lg p-1 hover:bg-indigo-400"
+                title={t('expenses.title')}
+              >
+                 <Wallet size={20} />
+              </button>
+              <button
+                onClick={() => setCurrentView(View.BACKUP)}
+                className="bg-indigo-500 rounded-lg p-1 hover:bg-indigo-400"
+                title={t('backup.title')}
+              >
+                 <DatabaseBackup size={20} />
+              </button>
+              <button
+                onClick={() => setCurrentView(View.SETTINGS)}
+                className="bg-indigo-500 rounded-lg p-1 hover:bg-indigo-400"
+                title={t('settings.title')}
+              >
+                 <Settings size={20} />
+              </button>
+            </div>
           </div>
-        </div>
-      </header>
+        </header>
 
-      {/* Main Content Area */}
-      <main className="flex-1 p-4 overflow-y-auto no-scrollbar">
-        
-        {/* VIEW: DASHBOARD */}
-        {currentView === View.DASHBOARD && (
-          <div className="space-y-4 animate-in fade-in duration-300">
-            {/* Month Filter */}
-            <div className="bg-white p-3 rounded-lg shadow-sm flex items-center justify-between">
-              <div className="flex items-center text-gray-600 gap-2">
-                <Filter size={18} />
-                <span className="text-sm font-medium">ช่วงเวลา:</span>
+        {/* Main Content Area */}
+        <main className="flex-1 p-4 overflow-y-auto no-scrollbar">
+
+          {loadError && (
+            <div className="mb-4 bg-red-50 border border-red-200 text-red-700 p-3 rounded-lg text-sm flex gap-2">
+              <AlertTriangle size={18} className="shrink-0" />
+              <span>{t('app.loadError')}</span>
+            </div>
+          )}
+
+          {readOnly && (
+            <div className="mb-4 bg-amber-50 border border-amber-200 text-amber-800 p-3 rounded-lg text-sm flex gap-2">
+              <AlertTriangle size={18} className="shrink-0" />
+              <span>{t('app.readOnly')}</span>
+            </div>
+          )}
+
+          {quarantine.length > 0 && (
+            <div className="mb-4 bg-amber-50 border border-amber-200 text-amber-800 p-3 rounded-lg text-sm space-y-2">
+              <div className="flex gap-2">
+                <AlertTriangle size={18} className="shrink-0" />
+                <span>{t('app.quarantine', { count: quarantine.length })}</span>
+              </div>
+              <div className="flex gap-2 justify-end">
+                <button onClick={handleDownloadQuarantine} className="px-3 py-1 bg-white rounded-md border border-amber-200 font-medium">
+                  {t('common.download')}
+                </button>
+                <button onClick={handleClearQuarantine} className="px-3 py-1 text-amber-700">
+                  {t('app.clearQuarantine')}
+                </button>
               </div>
-              <select 
-                className="bg-gray-100 border-none rounded-md px-3 py-1 text-sm focus:ring-2 focus:ring-indigo-500"
-                value={selectedMonth}
-                onChange={(e) => setSelectedMonth(e.target.value)}
-              >
-                <option value="all">ทั้งหมด</option>
-                {availableMonths.map(m => (
-                  <option key={m} value={m}>{m}</option>
-                ))}
-              </select>
             </div>
+          )}
+        
+          {/* VIEW: DASHBOARD */}
+          {currentView === View.DASHBOARD && (
+            <div className="space-y-4 animate-in fade-in duration-300">
+              {visibleAlerts.length > 0 && (
+                <AlertsPanel
+                  alerts={visibleAlerts}
+                  formatCurrency={formatCurrency}
+                  onSelectItem={handleEdit}
+                  onDismiss={handleDismissAlert}
+                />
+              )}
+
+              {warranties.length > 0 && <WarrantyCard warranties={warranties} onSelectItem={handleEdit} />}
 
-            <div className="grid grid-cols-2 gap-3">
-              <StatsCard 
-                title="ยอดขายรวม" 
-                value={formatCurrency(stats.totalRevenue)} 
-                colorClass="border-blue-500 text-blue-600"
-                icon={<DollarSign size={20} className="text-blue-400"/>}
+              <GoalProgressCard
+                goals={monthlyGoals}
+                formatCurrency={formatCurrency}
+                onSetTargets={() => setCurrentView(View.SETTINGS)}
               />
-              <StatsCard 
-                title="กำไรสุทธิ" 
-                value={formatCurrency(stats.totalProfit)} 
-                colorClass="border-green-500 text-green-600"
-                icon={<TrendingUp size={20} className="text-green-400"/>}
+
+              {filterBar}
+
+              <div className="grid grid-cols-2 gap-3">
+                <StatsCard 
+                  title={t('dashboard.revenue')} 
+                  value={formatCurrency(stats.totalRevenue)} 
+                  colorClass="border-blue-500 text-blue-600"
+                  icon={<DollarSign size={20} className="text-blue-400"/>}
+                />
+                <StatsCard 
+                  title={t('dashboard.profit')} 
+                  value={formatCurrency(stats.totalProfit)} 
+                  colorClass="border-green-500 text-green-600"
+                  icon={<TrendingUp size={20} className="text-green-400"/>}
+                />
+              </div>
+
+              <button
+                onClick={() => setCurrentView(View.STOCK)}
+                className="w-full text-left"
+              >
+                <StatsCard
+                  title={t('dashboard.inventory', { count: stats.inventoryCount })}
+                  value={formatCurrency(stats.inventoryValue)}
+                  colorClass="border-amber-500 text-amber-600"
+                  icon={<Boxes size={20} className="text-amber-400"/>}
+                />
+              </button>
+
+              <OverheadCard
+                summary={overhead}
+                narrowed={overheadNarrowed}
+                formatCurrency={formatCurrency}
+                onManage={() => setCurrentView(View.EXPENSES)}
               />
-            </div>
             
-            <div className="bg-white p-4 rounded-xl shadow-sm">
+              <CostBreakdownCard breakdown={stats.costBreakdown} formatCurrency={formatCurrency} />
+
+              {/* Charts */}
+              <div className="bg-white p-4 rounded-xl shadow-sm min-h-[300px]">
+                <h3 className="font-bold text-gray-700 mb-4 text-center">{t('dashboard.byCategory')}</h3>
+                {categoryData.length > 0 ? (
+                  <div className="h-64 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <PieChart>
+                        <Pie
+                          data={categoryData}
+                          cx="50%"
+                          cy="50%"
+                          innerRadius={60}
+                          outerRadius={80}
+                          paddingAngle={5}
+                          dataKey="value"
+                        >
+                          {categoryData.map(entry => (
+                            <Cell key={entry.name} fill={entry.color} />
+                          ))}
+                        </Pie>
+                        <RechartsTooltip formatter={(value: number) => [t('common.units', { count: value }), t('dashboard.quantity')]} />
+                        <Legend />
+                      </PieChart>
+                    </ResponsiveContainer>
+                  </div>
+                ) : (
+                  <div className="h-48 flex items-center justify-center text-gray-400">
+                    {t('common.noSales')}
+                  </div>
+                )}
+              </div>
+
+              <ChannelSummaryCard summary={channelSummary} formatCurrency={formatCurrency} />
+
+              <TrendsSection trends={trends} formatCurrency={formatCurrency} />
+            </div>
+          )}
+
+          {/* VIEW: LIST */}
+          {currentView === View.LIST && (
+            <div className="space-y-3 animate-in fade-in duration-300">
+               {filterBar}
                <div className="flex justify-between items-center mb-2">
-                  <h3 className="font-bold text-gray-700">ต้นทุนรวม</h3>
-                  <span className="text-red-500 font-semibold">{formatCurrency(stats.totalCost)}</span>
-               </div>
-               <div className="w-full bg-gray-200 rounded-full h-2.5">
-                  <div className="bg-red-500 h-2.5 rounded-full" style={{ width: '100%' }}></div>
+                 <h2 className="font-bold text-gray-700 text-lg">{t('list.title', { count: soldSales.length })}</h2>
+                 <div className="flex gap-2">
+                   <button
+                     onClick={() => (selectionMode ? exitSelectionMode() : setSelectionMode(true))}
+                     disabled={soldSales.length === 0}
+                     className={`p-2 rounded-full hover:bg-gray-200 disabled:opacity-40 ${selectionMode ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-100 text-gray-600'}`}
+                     title={t('list.select')}
+                   >
+                     <ListChecks size={16} />
+                   </button>
+                   <button
+                     onClick={() => setCurrentView(View.HISTORY)}
+                     className="p-2 bg-gray-100 rounded-full text-gray-600 hover:bg-gray-200"
+                     title={t('list.history')}
+                   >
+                     <History size={16} />
+                   </button>
+                   <button
+                     onClick={() => setCurrentView(View.IMPORT)}
+                     className="p-2 bg-gray-100 rounded-full text-gray-600 hover:bg-gray-200"
+                     title={t('list.import')}
+                   >
+                     <Upload size={16} />
+                   </button>
+                   <button
+                     onClick={handleExport}
+                     disabled={soldSales.length === 0}
+                     className="p-2 bg-gray-100 rounded-full text-gray-600 hover:bg-gray-200 disabled:opacity-40"
+                     title={t('list.export')}
+                   >
+                     <Download size={16} />
+                   </button>
+                 </div>
                </div>
-               <p className="text-xs text-gray-400 mt-2 text-right">รวมค่าของ + ค่าส่ง</p>
-            </div>
 
-            {/* Charts */}
-            <div className="bg-white p-4 rounded-xl shadow-sm min-h-[300px]">
-              <h3 className="font-bold text-gray-700 mb-4 text-center">สินค้าขายดีแยกตามประเภท</h3>
-              {categoryData.length > 0 ? (
-                <div className="h-64 w-full">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <PieChart>
-                      <Pie
-                        data={categoryData}
-                        cx="50%"
-                        cy="50%"
-                        innerRadius={60}
-                        outerRadius={80}
-                        paddingAngle={5}
-                        dataKey="value"
-                      >
-                        {categoryData.map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                        ))}
-                      </Pie>
-                      <RechartsTooltip formatter={(value: number) => [`${value} ชิ้น`, 'จำนวน']} />
-                      <Legend />
-                    </PieChart>
-                  </ResponsiveContainer>
+              {selectionMode && soldSales.length > 0 && (
+                <BulkActionBar
+                  selectedCount={selectedSales.length}
+                  totalCount={soldSales.length}
+                  types={availableTypes}
+                  onToggleAll={toggleSelectAll}
+                  onDelete={handleBulkDelete}
+                  onChangeType={(type) => handleBulkUpdate(count => t('list.changedType', { count }), { type })}
+                  onChangeDate={(date) => handleBulkUpdate(count => t('list.changedDate', { count }), { date })}
+                  onExport={handleBulkExport}
+                />
+              )}
+            
+              {soldSales.length === 0 ? (
+                <div className="text-center py-10 text-gray-400">
+                  <Package size={48} className="mx-auto mb-2 opacity-50" />
+                  <p>{t(isFilterActive(filter) ? 'list.noMatches' : 'list.empty')}</p>
+                  <button 
+                    onClick={() => { resetForm(); setCurrentView(View.FORM); }}
+                    className="mt-4 text-indigo-600 font-medium hover:underline"
+                  >
+                    {t('list.addFirst')}
+                  </button>
                 </div>
               ) : (
-                <div className="h-48 flex items-center justify-center text-gray-400">
-                  ไม่มีข้อมูลการขาย
-                </div>
+                soldSales.map((item) => {
+                  const profit = calculateProfit(item).profit;
+                  const isProfitPositive = profit > 0;
+                  const afterSales = getAfterSalesTotals(item);
+                  const warrantyEnd = afterSales.returned ? undefined : getWarrantyEnd(item);
+                
+                  const isSelected = selectedIds.has(item.id);
+                
+                  return (
+                    <div
+                      key={item.id}
+                      onClick={selectionMode ? () => toggleSelected(item.id) : undefined}
+                      className={`${afterSales.returned ? 'bg-gray-50' : 'bg-white'} p-4 rounded-xl shadow-sm border flex flex-col gap-3 ${isSelected ? 'border-indigo-400 ring-2 ring-indigo-200' : afterSales.returned ? 'border-red-200' : 'border-gray-100'}`}
+                    >
+                      <div className="flex justify-between items-start">
+                        <div className="flex gap-3">
+                          {selectionMode && (
+                            <input
+                              type="checkbox"
+                              checked={isSelected}
+                              readOnly
+                              className="mt-1 w-4 h-4 accent-indigo-600"
+                            />
+                          )}
+                          {item.photoIds?.[0] && <PhotoThumbnail photoId={item.photoIds[0]} />}
+                          <div>
+                            <span className="text-[10px] bg-indigo-100 text-indigo-800 px-2 py-0.5 rounded-full font-bold">
+                              {item.type}
+                            </span>
+                            <h3 className="font-bold text-gray-800 text-lg mt-1">{item.brand} {item.model}</h3>
+                            <p className="text-gray-400 text-xs">
+                              {formatDate(item.date)}
+                              {item.channel && ` · ${t(`salesChannel.${item.channel}`)}`}
+                              {item.buyerName && ` · ${item.buyerName}`}
+                            </p>
+                            {item.paymentStatus && item.paymentStatus !== PaymentStatus.PAID && (
+                              <span className="inline-block mt-1 text-[10px] bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full font-bold">
+                                {t(`paymentStatus.${item.paymentStatus}`)}
+                                {item.paymentStatus === PaymentStatus.DEPOSIT && item.depositAmount ? ` ${formatCurrency(item.depositAmount)}` : ''}
+                              </span>
+                            )}
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {afterSales.returned && (
+                                <span className="text-[10px] bg-red-100 text-red-700 px-2 py-0.5 rounded-full font-bold">{t('list.returned')}</span>
+                              )}
+                              {afterSales.refunded > 0 && (
+                                <span className="text-[10px] bg-rose-50 text-rose-700 px-2 py-0.5 rounded-full font-bold">
+                                  {t('list.refunded', { amount: formatCurrency(afterSales.refunded) })}
+                                </span>
+                              )}
+                              {afterSales.repairCost > 0 && (
+                                <span className="text-[10px] bg-orange-50 text-orange-700 px-2 py-0.5 rounded-full font-bold">
+                                  {t('list.repairCost', { amount: formatCurrency(afterSales.repairCost) })}
+                                </span>
+                              )}
+                              {warrantyEnd && warrantyEnd >= todayISO() && (
+                                <span className="text-[10px] bg-indigo-50 text-indigo-700 px-2 py-0.5 rounded-full font-bold">
+                                  {t('list.warrantyUntil', { date: formatDate(warrantyEnd) })}
+                                </span>
+                              )}
+                              {item.tags?.map(tag => (
+                                <button
+                                  key={tag}
+                                  onClick={selectionMode ? undefined : () => setFilter(prev => ({ ...prev, tag }))}
+                                  className="text-[10px] bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full hover:bg-gray-200"
+                                  title={t('list.filterTag', { tag })}
+                                >
+                                  #{tag}
+                                </button>
+                              ))}
+                            </div>
+                            {item.note && <p className="text-xs text-gray-500 italic mt-1 line-clamp-2">{item.note}</p>}
+                          </div>
+                        </div>
+                        {!selectionMode && (
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => handlePrintReceipt(item)}
+                              className="p-2 bg-gray-100 rounded-full text-gray-600 hover:bg-gray-200"
+                              title={t('receipt.print')}
+                            >
+                              <Printer size={16} />
+                            </button>
+                            <button
+                              onClick={() => setAfterSalesId(prev => (prev === item.id ? null : item.id))}
+                              className={`p-2 rounded-full hover:bg-gray-200 ${afterSalesId === item.id ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-100 text-gray-600'}`}
+                              title={t('afterSales.open')}
+                            >
+                              <Wrench size={16} />
+                            </button>
+                            <button 
+                              onClick={() => handleEdit(item)}
+                              className="p-2 bg-gray-100 rounded-full text-gray-600 hover:bg-gray-200"
+                              title={t('list.edit')}
+                            >
+                              <Edit size={16} />
+                            </button>
+                            <button 
+                              onClick={() => handleDelete(item.id)}
+                              className="p-2 bg-red-50 rounded-full text-red-500 hover:bg-red-100"
+                              title={t('list.delete')}
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    
+                      <div className="grid grid-cols-2 gap-2 text-sm mt-1 bg-gray-50 p-2 rounded-lg">
+                         <div>
+                           <span className="text-gray-500 text-xs block">{t('common.totalCost')}</span>
+                           <span className="font-medium">{formatCurrency(getItemCost(item))}</span>
+                         </div>
+                         <div className="text-right">
+                           <span className="text-gray-500 text-xs block">{t('list.sellingPrice')}</span>
+                           <span className="font-bold text-indigo-600">{formatCurrency(item.sellingPrice ?? 0)}</span>
+                         </div>
+                      </div>
+
+                      <div className="flex justify-between items-center border-t pt-2 mt-1">
+                        <span className="text-xs text-gray-500">
+                          {item.channelFee
+                            ? t('list.netProfitAfterFee', { fee: formatCurrency(item.channelFee) })
+                            : t('list.netProfit')}
+                        </span>
+                        <span className={`font-bold ${isProfitPositive ? 'text-green-600' : 'text-red-500'}`}>
+                          {isProfitPositive ? '+' : ''}{formatCurrency(profit)}
+                        </span>
+                      </div>
+
+                      {afterSalesId === item.id && !selectionMode && (
+                        <AfterSalesPanel
+                          item={item}
+                          returnLocked={sales.some(other => other.returnOf === item.id && !isInStock(other))}
+                          formatCurrency={formatCurrency}
+                          onAdd={(event) => handleAddAfterSales(item, event)}
+                          onRemove={(eventId) => handleRemoveAfterSales(item, eventId)}
+                        />
+                      )}
+                    </div>
+                  );
+                })
               )}
+              {/* Spacer for FAB */}
+              <div className="h-20"></div>
             </div>
-          </div>
-        )}
+          )}
 
-        {/* VIEW: LIST */}
-        {currentView === View.LIST && (
-          <div className="space-y-3 animate-in fade-in duration-300">
-             <div className="flex justify-between items-center mb-2">
-               <h2 className="font-bold text-gray-700 text-lg">รายการขาย ({filteredSales.length})</h2>
-             </div>
-            
-            {filteredSales.length === 0 ? (
-              <div className="text-center py-10 text-gray-400">
-                <Package size={48} className="mx-auto mb-2 opacity-50" />
-                <p>ยังไม่มีรายการขาย</p>
-                <button 
-                  onClick={() => { resetForm(); setCurrentView(View.FORM); }}
-                  className="mt-4 text-indigo-600 font-medium hover:underline"
-                >
-                  + เพิ่มรายการแรก
-                </button>
+          {/* VIEW: STOCK */}
+          {currentView === View.STOCK && (
+            <div className="space-y-3 animate-in fade-in duration-300">
+              <div className="flex justify-between items-center mb-2">
+                <h2 className="font-bold text-gray-700 text-lg">{t('stock.title', { count: stockItems.length })}</h2>
+                <span className="text-amber-600 font-semibold text-sm">{formatCurrency(stats.inventoryValue)}</span>
               </div>
-            ) : (
-              filteredSales.map((item) => {
-                const profit = item.sellingPrice - (item.costPrice + item.shippingCost);
-                const isProfitPositive = profit > 0;
-                
-                return (
+
+              {stockItems.length === 0 ? (
+                <div className="text-center py-10 text-gray-400">
+                  <Boxes size={48} className="mx-auto mb-2 opacity-50" />
+                  <p>{t('stock.empty')}</p>
+                </div>
+              ) : (
+                stockItems.map((item) => (
                   <div key={item.id} className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex flex-col gap-3">
                     <div className="flex justify-between items-start">
-                      <div>
-                        <span className="text-[10px] bg-indigo-100 text-indigo-800 px-2 py-0.5 rounded-full font-bold">
-                          {item.type}
-                        </span>
-                        <h3 className="font-bold text-gray-800 text-lg mt-1">{item.brand} {item.model}</h3>
-                        <p className="text-gray-400 text-xs">{item.date}</p>
+                      <div className="flex gap-3">
+                        {item.photoIds?.[0] && <PhotoThumbnail photoId={item.photoIds[0]} />}
+                        <div>
+                          <span className="text-[10px] bg-indigo-100 text-indigo-800 px-2 py-0.5 rounded-full font-bold">
+                            {item.type}
+                          </span>
+                          <h3 className="font-bold text-gray-800 text-lg mt-1">{item.brand} {item.model}</h3>
+                          <p className="text-gray-400 text-xs">
+                            {t('stock.age', { date: formatDate(item.purchaseDate), days: daysBetween(item.purchaseDate, todayISO()) })}
+                          </p>
+                        </div>
                       </div>
                       <div className="flex gap-2">
-                        <button 
+                        <button
                           onClick={() => handleEdit(item)}
                           className="p-2 bg-gray-100 rounded-full text-gray-600 hover:bg-gray-200"
+                          title={t('list.edit')}
                         >
                           <Edit size={16} />
                         </button>
-                        <button 
+                        <button
                           onClick={() => handleDelete(item.id)}
                           className="p-2 bg-red-50 rounded-full text-red-500 hover:bg-red-100"
+                          title={t('list.delete')}
                         >
                           <Trash2 size={16} />
                         </button>
                       </div>
                     </div>
-                    
-                    <div className="grid grid-cols-2 gap-2 text-sm mt-1 bg-gray-50 p-2 rounded-lg">
-                       <div>
-                         <span className="text-gray-500 text-xs block">ทุนรวม (ของ+ส่ง)</span>
-                         <span className="font-medium">{formatCurrency(item.costPrice + item.shippingCost)}</span>
-                       </div>
-                       <div className="text-right">
-                         <span className="text-gray-500 text-xs block">ราคาขาย</span>
-                         <span className="font-bold text-indigo-600">{formatCurrency(item.sellingPrice)}</span>
-                       </div>
-                    </div>
 
-                    <div className="flex justify-between items-center border-t pt-2 mt-1">
-                      <span className="text-xs text-gray-500">กำไรสุทธิ</span>
-                      <span className={`font-bold ${isProfitPositive ? 'text-green-600' : 'text-red-500'}`}>
-                        {isProfitPositive ? '+' : ''}{formatCurrency(profit)}
-                      </span>
+                    <div className="grid grid-cols-2 gap-2 text-sm bg-gray-50 p-2 rounded-lg items-center">
+                      <div>
+                        <span className="text-gray-500 text-xs block">{t('common.totalCost')}</span>
+                        <span className="font-medium">{formatCurrency(getItemCost(item))}</span>
+                      </div>
+                      <select
+                        value={item.status}
+                        onChange={(e) => handleStatusChange(item.id, e.target.value as ItemStatus)}
+                        className="bg-white border border-gray-200 rounded-md px-2 py-1 text-xs focus:ring-2 focus:ring-indigo-500"
+                      >
+                        {IN_STOCK_STATUSES.map(s => (
+                          <option key={s} value={s}>{t(`itemStatus.${s}`)}</option>
+                        ))}
+                      </select>
                     </div>
+
+                    <button
+                      onClick={() => handleMarkSold(item)}
+                      className="w-full py-2 bg-green-50 text-green-700 rounded-lg text-sm font-medium hover:bg-green-100 flex items-center justify-center gap-2"
+                    >
+                      <CheckCircle2 size={16} /> {t('stock.markSold')}
+                    </button>
                   </div>
-                );
-              })
-            )}
-            {/* Spacer for FAB */}
-            <div className="h-20"></div>
-          </div>
-        )}
+                ))
+              )}
+              {/* Spacer for FAB */}
+              <div className="h-20"></div>
+            </div>
+          )}
+
+          {/* VIEW: ANALYSIS */}
+          {currentView === View.ANALYSIS && (
+            <div className="space-y-4 animate-in fade-in duration-300">
+              {filterBar}
+              <ProfitabilityReport sales={soldSales} formatCurrency={formatCurrency} onSelectItem={handleEdit} />
+              <MonthlyReportCard sales={sales} categories={categories} shop={settings.shop} formatCurrency={formatCurrency} />
+            </div>
+          )}
+
+          {/* VIEW: IMPORT */}
+          {currentView === View.IMPORT && (
+            <ImportWizard
+              existing={sales}
+              categories={categories}
+              onImport={handleImport}
+              onCancel={() => setCurrentView(View.LIST)}
+            />
+          )}
+
+          {/* VIEW: BACKUP */}
+          {currentView === View.BACKUP && (
+            <BackupView
+              sales={sales}
+              expenses={expenses}
+              settings={settings}
+              onBackupCreated={(exportedAt) => setSettings(prev => ({ ...prev, lastBackupAt: exportedAt }))}
+              onRestore={handleRestore}
+              onClose={() => setCurrentView(View.DASHBOARD)}
+            />
+          )}
+
+          {/* VIEW: EXPENSES */}
+          {currentView === View.EXPENSES && (
+            <ExpensesView
+              expenses={expenses}
+              onChange={setExpenses}
+              formatCurrency={formatCurrency}
+              onClose={() => setCurrentView(View.DASHBOARD)}
+            />
+          )}
+
+          {/* VIEW: HISTORY */}
+          {currentView === View.HISTORY && (
+            <HistoryView
+              log={auditLog}
+              presentIds={presentIds}
+              formatCurrency={formatCurrency}
+              onRestore={handleRestoreEntry}
+              onClose={() => setCurrentView(View.LIST)}
+            />
+          )}
+
+          {/* VIEW: SETTINGS */}
+          {currentView === View.SETTINGS && (
+            <SettingsView
+              settings={settings}
+              catalog={catalog}
+              categories={categories}
+              categoryCounts={categoryCounts}
+              onChange={setSettings}
+              onMergeBrands={handleMergeBrands}
+              onRenameCategory={handleRenameCategory}
+              onMergeCategories={handleMergeCategories}
+              onClose={() => setCurrentView(View.DASHBOARD)}
+            />
+          )}
 
-        {/* VIEW: FORM (Add/Edit) */}
-        {currentView === View.FORM && (
-          <div className="animate-in slide-in-from-bottom duration-300">
-            <h2 className="text-xl font-bold text-gray-800 mb-4">
-              {editingId ? 'แก้ไขรายการ' : 'เพิ่มรายการขาย'}
-            </h2>
-            <form onSubmit={handleSubmit} className="space-y-4 bg-white p-5 rounded-xl shadow-sm">
+          {/* VIEW: SYNC */}
+          {currentView === View.SYNC && (
+            <SyncView
+              config={settings.sync}
+              status={settings.sync ? syncStatus : SyncStatus.DISABLED}
+              error={syncError}
+              state={syncState}
+              pendingCount={pendingSyncCount}
+              onSaveConfig={handleSaveSyncConfig}
+              onSyncNow={runSync}
+              onResolve={handleResolveConflict}
+              formatCurrency={formatCurrency}
+              onClose={() => setCurrentView(View.DASHBOARD)}
+            />
+          )}
+
+          {/* VIEW: FORM (Add/Edit) */}
+          {currentView === View.FORM && (
+            <div className="animate-in slide-in-from-bottom duration-300">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">
+                {t(editingId ? 'form.editTitle' : 'form.addTitle')}
+              </h2>
+              <form onSubmit={handleSubmit} noValidate className="space-y-4 bg-white p-5 rounded-xl shadow-sm">
               
-              <div className="grid grid-cols-2 gap-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium text-gray-700">{t('form.status')}</label>
+                    <select
+                      name="status"
+                      value={formData.status}
+                      onChange={handleInputChange}
+                      className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                    >
+                      {Object.values(ItemStatus).map(s => (
+                        <option key={s} value={s}>{t(`itemStatus.${s}`)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium text-gray-700">{t('form.purchaseDate')}</label>
+                    <input
+                      type="date"
+                      name="purchaseDate"
+                      required
+                      value={formData.purchaseDate}
+                      onChange={handleInputChange}
+                      className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                    />
+                    {fieldMessage('purchaseDate')}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  {formData.status === ItemStatus.SOLD && (
+                    <div className="space-y-1">
+                      <label className="text-sm font-medium text-gray-700">{t('form.saleDate')}</label>
+                      <input
+                        type="date"
+                        name="date"
+                        required
+                        value={formData.date}
+                        onChange={handleInputChange}
+                        className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                      />
+                      {fieldMessage('date')}
+                    </div>
+                  )}
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium text-gray-700">{t('form.type')}</label>
+                    <select
+                      name="type"
+                      value={formData.type}
+                      onChange={handleInputChange}
+                      className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                    >
+                      {categories.map(category => (
+                        <option key={category.id} value={category.name}>{category.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
                 <div className="space-y-1">
-                  <label className="text-sm font-medium text-gray-700">วันที่ขาย</label>
+                  <label className="text-sm font-medium text-gray-700">{t('form.brand')}</label>
                   <input
-                    type="date"
-                    name="date"
+                    type="text"
+                    name="brand"
+                    list="brand-options"
+                    autoComplete="off"
+                    placeholder={t('form.brandPlaceholder')}
                     required
-                    value={formData.date}
+                    value={formData.brand}
                     onChange={handleInputChange}
                     className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
                   />
+                  {fieldMessage('brand')}
+                  <datalist id="brand-options">
+                    {catalog.map(brand => <option key={brand.key} value={brand.name} />)}
+                  </datalist>
                 </div>
+
                 <div className="space-y-1">
-                  <label className="text-sm font-medium text-gray-700">ประเภท</label>
-                  <select
-                    name="type"
-                    value={formData.type}
-                    onChange={handleInputChange}
+                  <label className="text-sm font-medium text-gray-700">{t('form.model')}</label>
+                  <input
+                    type="text"
+                    name="model"
+                    list="model-options"
+                    autoComplete="off"
+                    placeholder={t('form.modelPlaceholder')}
+                    required
+                    value={formData.model}
+                    onChange={handleModelChange}
                     className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
-                  >
-                    {Object.values(EquipmentType).map(t => (
-                      <option key={t} value={t}>{t}</option>
-                    ))}
-                  </select>
+                  />
+                  {fieldMessage('model')}
+                  <datalist id="model-options">
+                    {formBrandModels.map(model => <option key={model.key} value={model.name} />)}
+                  </datalist>
                 </div>
-              </div>
 
-              <div className="space-y-1">
-                <label className="text-sm font-medium text-gray-700">ยี่ห้อ (Brand)</label>
-                <input
-                  type="text"
-                  name="brand"
-                  placeholder="เช่น Sony, Bose, JBL"
-                  required
-                  value={formData.brand}
-                  onChange={handleInputChange}
-                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                {formPriceHistory && formPriceHistory.entries.length > 0 && (
+                  <PriceHistoryPanel history={formPriceHistory} formatCurrency={formatCurrency} />
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium text-gray-700">{t('form.purchaseCurrency')}</label>
+                    <select
+                      name="purchaseCurrency"
+                      value={formPurchaseCurrency}
+                      onChange={handleInputChange}
+                      className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                    >
+                      {CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+                    </select>
+                  </div>
+                  {formItem.purchaseCurrency && (
+                    <div className="space-y-1">
+                      <label className="text-sm font-medium text-gray-700">
+                        {t('form.exchangeRate', { from: formItem.purchaseCurrency, to: settings.currency })}
+                      </label>
+                      <input
+                        type="number"
+                        inputMode="decimal"
+                        name="exchangeRate"
+                        min="0"
+                        step="any"
+                        value={formData.exchangeRate ?? ''}
+                        onChange={handleInputChange}
+                        className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                      />
+                      {fieldMessage('exchangeRate')}
+                    </div>
+                  )}
+                </div>
+
+                <CostEditor
+                  costs={formData.costs ?? []}
+                  onChange={(costs) => setFormData(prev => ({ ...prev, costs }))}
+                  formatCurrency={formatCurrency}
+                  purchaseCurrency={formItem.purchaseCurrency}
+                  exchangeRate={formItem.exchangeRate}
                 />
-              </div>
+                {fieldMessage('costs')}
+                {formItem.purchaseCurrency && formItem.exchangeRate !== undefined && formItem.exchangeRate > 0 && (
+                  <p className="text-xs text-gray-500">
+                    {t('form.convertedPurchase', { amount: formatCurrency(getCostByCategory(formItem, CostCategory.PURCHASE)) })}
+                  </p>
+                )}
 
-              <div className="space-y-1">
-                <label className="text-sm font-medium text-gray-700">รุ่น (Model)</label>
-                <input
-                  type="text"
-                  name="model"
-                  placeholder="ระบุรุ่นสินค้า"
-                  required
-                  value={formData.model}
-                  onChange={handleInputChange}
-                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                <PhotoPicker
+                  photoIds={formData.photoIds ?? []}
+                  onChange={(photoIds) => setFormData(prev => ({ ...prev, photoIds }))}
                 />
-              </div>
 
-              <div className="grid grid-cols-2 gap-4 pt-2">
                 <div className="space-y-1">
-                  <label className="text-sm font-medium text-gray-700">ราคาทุน</label>
-                  <input
-                    type="number"
-                    inputMode="numeric"
-                    name="costPrice"
-                    min="0"
-                    value={formData.costPrice}
-                    onChange={handleInputChange}
-                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-200 focus:outline-none"
+                  <label className="text-sm font-medium text-gray-700">{t('form.tags')}</label>
+                  <TagInput
+                    tags={formData.tags ?? []}
+                    suggestions={availableTags}
+                    onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
                   />
                 </div>
+
                 <div className="space-y-1">
-                  <label className="text-sm font-medium text-gray-700">ค่าส่ง/ห่อ</label>
-                  <input
-                    type="number"
-                    inputMode="numeric"
-                    name="shippingCost"
-                    min="0"
-                    value={formData.shippingCost}
+                  <label className="text-sm font-medium text-gray-700">{t('form.note')}</label>
+                  <textarea
+                    name="note"
+                    rows={2}
+                    placeholder={t('form.notePlaceholder')}
+                    value={formData.note ?? ''}
                     onChange={handleInputChange}
-                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-200 focus:outline-none"
+                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
                   />
                 </div>
-              </div>
 
-              <div className="space-y-1 pt-2">
-                <label className="text-sm font-medium text-gray-700">ราคาขายจริง</label>
-                <input
-                  type="number"
-                  inputMode="numeric"
-                  name="sellingPrice"
-                  min="0"
-                  value={formData.sellingPrice}
-                  onChange={handleInputChange}
-                  className="w-full p-3 border-2 border-green-400 bg-green-50 rounded-lg text-lg font-bold text-green-700 focus:ring-2 focus:ring-green-500 focus:outline-none"
-                />
-              </div>
+                {(formData.status === ItemStatus.SOLD || formData.status === ItemStatus.RESERVED) && (
+                  <>
+                    <div className="space-y-1 pt-2">
+                      <label className="text-sm font-medium text-gray-700">
+                        {t(formData.status === ItemStatus.SOLD ? 'form.soldPrice' : 'form.agreedPrice')}
+                      </label>
+                      <input
+                        type="number"
+                        inputMode="numeric"
+                        name="sellingPrice"
+                        min="0"
+                        value={formData.sellingPrice ?? ''}
+                        onChange={handleInputChange}
+                        className="w-full p-3 border-2 border-green-400 bg-green-50 rounded-lg text-lg font-bold text-green-700 focus:ring-2 focus:ring-green-500 focus:outline-none"
+                      />
+                      {fieldMessage('sellingPrice')}
+                    </div>
 
-              {/* Profit Preview */}
-              <div className="bg-gray-100 p-3 rounded-lg flex justify-between items-center text-sm">
-                 <span>กำไรโดยประมาณ:</span>
-                 <span className={`font-bold text-lg ${(formData.sellingPrice! - (formData.costPrice! + formData.shippingCost!)) > 0 ? 'text-green-600' : 'text-gray-500'}`}>
-                    {formatCurrency(formData.sellingPrice! - (formData.costPrice! + formData.shippingCost!))}
-                 </span>
-              </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium text-gray-700">{t('form.channel')}</label>
+                        <select
+                          name="channel"
+                          value={formData.channel ?? ''}
+                          onChange={handleInputChange}
+                          className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                        >
+                          <option value="">{t('common.unspecified')}</option>
+                          {Object.values(SalesChannel).map(c => (
+                            <option key={c} value={c}>{t(`salesChannel.${c}`)}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium text-gray-700">{t('form.paymentMethod')}</label>
+                        <select
+                          name="paymentMethod"
+                          value={formData.paymentMethod ?? ''}
+                          onChange={handleInputChange}
+                          className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                        >
+                          <option value="">{t('common.unspecified')}</option>
+                          {Object.values(PaymentMethod).map(m => (
+                            <option key={m} value={m}>{t(`paymentMethod.${m}`)}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
 
-              <div className="flex gap-3 pt-4">
-                <button
-                  type="button"
-                  onClick={() => { resetForm(); setCurrentView(View.LIST); }}
-                  className="flex-1 py-3 px-4 border border-gray-300 text-gray-700 rounded-xl font-medium hover:bg-gray-50 flex items-center justify-center gap-2"
-                >
-                  <X size={20} /> ยกเลิก
-                </button>
-                <button
-                  type="submit"
-                  className="flex-1 py-3 px-4 bg-indigo-600 text-white rounded-xl font-bold shadow-lg hover:bg-indigo-700 active:scale-95 transition-transform flex items-center justify-center gap-2"
-                >
-                  <Save size={20} /> บันทึก
-                </button>
-              </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium text-gray-700">{t('form.buyer')}</label>
+                        <input
+                          type="text"
+                          name="buyerName"
+                          placeholder={t('form.buyerPlaceholder')}
+                          value={formData.buyerName ?? ''}
+                          onChange={handleInputChange}
+                          className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium text-gray-700">{t('form.contact')}</label>
+                        <input
+                          type="text"
+                          name="buyerContact"
+                          placeholder={t('form.contactPlaceholder')}
+                          value={formData.buyerContact ?? ''}
+                          onChange={handleInputChange}
+                          className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                        />
+                      </div>
+                    </div>
 
-            </form>
-          </div>
-        )}
-      </main>
-
-      {/* Floating Action Button for ADD (only on Dashboard or List) */}
-      {currentView !== View.FORM && (
-        <button
-          onClick={() => { resetForm(); setCurrentView(View.FORM); }}
-          className="absolute bottom-20 right-4 w-14 h-14 bg-indigo-600 rounded-full shadow-xl flex items-center justify-center text-white hover:bg-indigo-700 active:scale-90 transition-transform z-20"
-        >
-          <Plus size={28} />
-        </button>
-      )}
-
-      {/* Bottom Navigation */}
-      <nav className="bg-white border-t border-gray-200 fixed bottom-0 w-full max-w-md pb-safe z-30">
-        <div className="flex justify-around items-center h-16">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium text-gray-700">{t('form.paymentStatus')}</label>
+                        <select
+                          name="paymentStatus"
+                          value={formData.paymentStatus ?? ''}
+                          onChange={handleInputChange}
+                          className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                        >
+                          <option value="">{t('common.unspecified')}</option>
+                          {Object.values(PaymentStatus).map(p => (
+                            <option key={p} value={p}>{t(`paymentStatus.${p}`)}</option>
+                          ))}
+                        </select>
+                      </div>
+                      {formData.paymentStatus === PaymentStatus.DEPOSIT && (
+                        <div className="space-y-1">
+                          <label className="text-sm font-medium text-gray-700">{t('form.deposit')}</label>
+                          <input
+                            type="number"
+                            inputMode="numeric"
+                            name="depositAmount"
+                            min="0"
+                            value={formData.depositAmount ?? ''}
+                            onChange={handleInputChange}
+                            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                          />
+                          {fieldMessage('depositAmount')}
+                        </div>
+                      )}
+                    </div>
+
+                    {formData.status === ItemStatus.SOLD && (
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium text-gray-700">{t('form.warrantyDays')}</label>
+                        <input
+                          type="number"
+                          inputMode="numeric"
+                          name="warrantyDays"
+                          min="0"
+                          list="warranty-options"
+                          value={formData.warrantyDays ?? ''}
+                          onChange={handleInputChange}
+                          className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                        />
+                        <datalist id="warranty-options">
+                          {[7, 14, 30].map(days => <option key={days} value={days} />)}
+                        </datalist>
+                        {formWarrantyEnd && (
+                          <p className="text-xs text-gray-500">{t('list.warrantyUntil', { date: formatDate(formWarrantyEnd) })}</p>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Profit Preview */}
+                    <div className="bg-gray-100 p-3 rounded-lg text-sm">
+                      {formChannelFee > 0 && (
+                        <div className="flex justify-between items-center text-gray-500 mb-1">
+                          <span>{t('form.channelFee')}</span>
+                          <span>-{formatCurrency(formChannelFee)}</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between items-center">
+                         <span>{t('form.estimatedProfit')}</span>
+                         <span className={`font-bold text-lg ${formProfit > 0 ? 'text-green-600' : 'text-gray-500'}`}>
+                            {formatCurrency(formProfit)}
+                         </span>
+                      </div>
+                    </div>
+                  </>
+                )}
+
+                {formValidation.duplicate && (
+                  <div className="bg-amber-50 border border-amber-200 text-amber-800 p-3 rounded-lg text-sm flex gap-2">
+                    <AlertTriangle size={18} className="shrink-0" />
+                    <span>
+                      {t('form.duplicate', {
+                        brand: formValidation.duplicate.brand,
+                        model: formValidation.duplicate.model,
+                        date: formatDate(getActivityDate(formValidation.duplicate))
+                      })}
+                    </span>
+                  </div>
+                )}
+
+                {showFormErrors && formHasErrors && (
+                  <p className="text-sm text-red-600 text-center">{t('form.fixErrors')}</p>
+                )}
+
+                <div className="flex gap-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={() => { resetForm(); setCurrentView(View.LIST); }}
+                    className="flex-1 py-3 px-4 border border-gray-300 text-gray-700 rounded-xl font-medium hover:bg-gray-50 flex items-center justify-center gap-2"
+                  >
+                    <X size={20} /> {t('common.cancel')}
+                  </button>
+                  <button
+                    type="submit"
+                    className="flex-1 py-3 px-4 bg-indigo-600 text-white rounded-xl font-bold shadow-lg hover:bg-indigo-700 active:scale-95 transition-transform flex items-center justify-center gap-2"
+                  >
+                    <Save size={20} /> {t('common.save')}
+                  </button>
+                </div>
+
+              </form>
+
+              {editingId && (
+                <details className="mt-4 bg-white p-4 rounded-xl shadow-sm">
+                  <summary className="font-bold text-gray-700 text-sm cursor-pointer flex items-center gap-1">
+                    <History size={16} className="text-indigo-500" /> {t('audit.itemTitle')}
+                  </summary>
+                  <div className="mt-3">
+                    <AuditTrail
+                      entries={getItemHistory(auditLog, editingId)}
+                      presentIds={presentIds}
+                      showItem={false}
+                      formatCurrency={formatCurrency}
+                      onRestore={handleRestoreEntry}
+                    />
+                  </div>
+                </details>
+              )}
+            </div>
+          )}
+        </main>
+
+        {/* Floating Action Button for ADD (only on Dashboard or List) */}
+        {LINKABLE_VIEWS.includes(currentView) && (
           <button
-            onClick={() => setCurrentView(View.DASHBOARD)}
-            className={`flex flex-col items-center justify-center w-full h-full ${currentView === View.DASHBOARD ? 'text-indigo-600' : 'text-gray-400'}`}
+            onClick={() => { resetForm(); setCurrentView(View.FORM); }}
+            aria-label={t('form.addTitle')}
+            className="absolute bottom-20 right-4 w-14 h-14 bg-indigo-600 rounded-full shadow-xl flex items-center justify-center text-white hover:bg-indigo-700 active:scale-90 transition-transform z-20"
           >
-            <Home size={currentView === View.DASHBOARD ? 24 : 22} strokeWidth={currentView === View.DASHBOARD ? 2.5 : 2} />
-            <span className="text-[10px] mt-1 font-medium">ภาพรวม</span>
+            <Plus size={28} />
           </button>
+        )}
+
+        {undo && (
+          <UndoSnackbar key={undo.id} message={undo.message} onUndo={handleUndo} onDismiss={dismissUndo} />
+        )}
+
+        {/* Bottom Navigation */}
+        <nav className="bg-white border-t border-gray-200 fixed bottom-0 w-full max-w-md pb-safe z-30">
+          <div className="flex justify-around items-center h-16">
+            <button
+              onClick={() => setCurrentView(View.DASHBOARD)}
+              className={`flex flex-col items-center justify-center w-full h-full ${currentView === View.DASHBOARD ? 'text-indigo-600' : 'text-gray-400'}`}
+            >
+              <Home size={currentView === View.DASHBOARD ? 24 : 22} strokeWidth={currentView === View.DASHBOARD ? 2.5 : 2} />
+              <span className="text-[10px] mt-1 font-medium">{t('nav.dashboard')}</span>
+            </button>
           
-          <button
-            onClick={() => setCurrentView(View.LIST)}
-            className={`flex flex-col items-center justify-center w-full h-full ${currentView === View.LIST ? 'text-indigo-600' : 'text-gray-400'}`}
-          >
-            <List size={currentView === View.LIST ? 24 : 22} strokeWidth={currentView === View.LIST ? 2.5 : 2} />
-            <span className="text-[10px] mt-1 font-medium">รายการ</span>
-          </button>
-        </div>
-      </nav>
+            <button
+              onClick={() => setCurrentView(View.LIST)}
+              className={`flex flex-col items-center justify-center w-full h-full ${currentView === View.LIST ? 'text-indigo-600' : 'text-gray-400'}`}
+            >
+              <List size={currentView === View.LIST ? 24 : 22} strokeWidth={currentView === View.LIST ? 2.5 : 2} />
+              <span className="text-[10px] mt-1 font-medium">{t('nav.list')}</span>
+            </button>
+
+            <button
+              onClick={() => setCurrentView(View.STOCK)}
+              className={`flex flex-col items-center justify-center w-full h-full ${currentView === View.STOCK ? 'text-indigo-600' : 'text-gray-400'}`}
+            >
+              <Boxes size={currentView === View.STOCK ? 24 : 22} strokeWidth={currentView === View.STOCK ? 2.5 : 2} />
+              <span className="text-[10px] mt-1 font-medium">{t('nav.stock')}</span>
+            </button>
+
+            <button
+              onClick={() => setCurrentView(View.ANALYSIS)}
+              className={`flex flex-col items-center justify-center w-full h-full ${currentView === View.ANALYSIS ? 'text-indigo-600' : 'text-gray-400'}`}
+            >
+              <BarChart3 size={currentView === View.ANALYSIS ? 24 : 22} strokeWidth={currentView === View.ANALYSIS ? 2.5 : 2} />
+              <span className="text-[10px] mt-1 font-medium">{t('nav.analysis')}</span>
+            </button>
+          </div>
+        </nav>
       
-    </div>
+      </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { SaleItem, AfterSalesEvent, AfterSalesKind } from '../types';
+import { getAfterSalesTotals } from '../services/profit';
+import { validateAfterSalesEvent } from '../services/afterSales';
+import { toLocalISODate } from '../services/filters';
+import { FieldMessage } from './FieldMessage';
+import { useI18n } from './I18nContext';
+
+interface AfterSalesPanelProps {
+  item: SaleItem;
+  returnLocked: boolean; // The returned goods were sold again, so the return has to stay
+  formatCurrency: (amount: number) => string;
+  onAdd: (event: AfterSalesEvent) => void;
+  onRemove: (eventId: string) => void;
+}
+
+const inputClass = 'w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
+// Refunds are the common case, and always on offer
+const emptyDraft = (): Partial<AfterSalesEvent> => ({ date: toLocalISODate(new Date()), kind: AfterSalesKind.REFUND });
+
+export const AfterSalesPanel: React.FC<AfterSalesPanelProps> = ({ item, returnLocked, formatCurrency, onAdd, onRemove }) => {
+  const { t, formatDate } = useI18n();
+  const { returned, refunded } = getAfterSalesTotals(item);
+  // An item can only come back once; after that only refunds and repairs make sense
+  const kinds = Object.values(AfterSalesKind).filter(kind => !(returned && kind === AfterSalesKind.RETURN));
+
+  const [draft, setDraft] = useState<Partial<AfterSalesEvent>>(emptyDraft);
+  const [showErrors, setShowErrors] = useState(false);
+  const errors = validateAfterSalesEvent(draft, item, t);
+
+  const update = (patch: Partial<AfterSalesEvent>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  // A return usually gives back whatever of the price hasn't been refunded yet
+  const handleKindChange = (kind: AfterSalesKind) =>
+    update({ kind, ...(kind === AfterSalesKind.RETURN && draft.amount === undefined ? { amount: Number(item.sellingPrice ?? 0) - refunded } : {}) });
+
+  const handleAdd = () => {
+    if (Object.keys(errors).length > 0) {
+      setShowErrors(true);
+      return;
+    }
+    const event: AfterSalesEvent = {
+      id: crypto.randomUUID(),
+      date: draft.date!,
+      kind: draft.kind ?? AfterSalesKind.REFUND,
+      amount: Number(draft.amount),
+    };
+    if (draft.note?.trim()) event.note = draft.note.trim();
+    onAdd(event);
+    setDraft(emptyDraft());
+    setShowErrors(false);
+  };
+
+  return (
+    <div className="border-t pt-2 space-y-2">
+      <h4 className="text-xs font-bold text-gray-600">{t('afterSales.title')}</h4>
+      {(item.afterSales ?? []).length === 0 ? (
+        <p className="text-xs text-gray-400">{t('afterSales.empty')}</p>
+      ) : (
+        item.afterSales!.map(event => {
+          const locked = returnLocked && event.kind === AfterSalesKind.RETURN;
+          return (
+            <div key={event.id} className="flex items-center gap-2 text-xs">
+              <div className="flex-1 min-w-0">
+                <span className="font-medium text-gray-700">{t(`afterSalesKind.${event.kind}`)}</span>
+                <span className="text-gray-400"> · {formatDate(event.date)}{event.note && ` · ${event.note}`}</span>
+              </div>
+              <span className="font-semibold text-red-500 shrink-0">−{formatCurrency(event.amount)}</span>
+              <button
+                onClick={() => onRemove(event.id)}
+                disabled={locked}
+                className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-30"
+                title={t(locked ? 'afterSales.returnLocked' : 'afterSales.remove')}
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          );
+        })
+      )}
+
+      <div className="bg-gray-50 p-2 rounded-lg space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={draft.kind}
+            onChange={(e) => handleKindChange(e.target.value as AfterSalesKind)}
+            aria-label={t('afterSales.kind')}
+            className={inputClass}
+          >
+            {kinds.map(kind => <option key={kind} value={kind}>{t(`afterSalesKind.${kind}`)}</option>)}
+          </select>
+          <input
+            type="date"
+            value={draft.date ?? ''}
+            onChange={(e) => update({ date: e.target.value })}
+            aria-label={t('afterSales.date')}
+            className={inputClass}
+          />
+        </div>
+        {showErrors && <FieldMessage error={errors.date} />}
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="number"
+            inputMode="numeric"
+            min="0"
+            value={draft.amount ?? ''}
+            onChange={(e) => update({ amount: e.target.value === '' ? undefined : Number(e.target.value) })}
+            placeholder={t('afterSales.amount')}
+            aria-label={t('afterSales.amount')}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={draft.note ?? ''}
+            onChange={(e) => update({ note: e.target.value })}
+            placeholder={t('afterSales.note')}
+            className={inputClass}
+          />
+        </div>
+        {showErrors && <FieldMessage error={errors.amount} />}
+        {draft.kind === AfterSalesKind.RETURN && <p className="text-[10px] text-gray-500">{t('afterSales.returnHint')}</p>}
+        <button
+          onClick={handleAdd}
+          className="w-full py-1.5 bg-indigo-600 text-white rounded-lg text-xs font-medium flex items-center justify-center gap-1 hover:bg-indigo-700"
+        >
+          <Plus size={14} /> {t('afterSales.add')}
+        </button>
+      </div>
+    </div>
+  );
+};
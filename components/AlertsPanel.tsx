@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Clock, X } from 'lucide-react';
+import { PerformanceAlert, AlertKind, SaleItem } from '../types';
+import { useI18n } from './I18nContext';
+
+interface AlertsPanelProps {
+  alerts: PerformanceAlert[];
+  formatCurrency: (amount: number) => string;
+  onSelectItem: (item: SaleItem) => void;
+  onDismiss: (id: string) => void;
+}
+
+// Enough to notice without pushing the dashboard out of view
+const COLLAPSED_COUNT = 3;
+
+export const AlertsPanel: React.FC<AlertsPanelProps> = ({ alerts, formatCurrency, onSelectItem, onDismiss }) => {
+  const { t } = useI18n();
+  const [expanded, setExpanded] = useState(false);
+  const shown = expanded ? alerts : alerts.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-xl p-3 space-y-2">
+      <h3 className="font-bold text-amber-800 text-sm">{t('alerts.title', { count: alerts.length })}</h3>
+      {shown.map(alert => (
+        <div key={alert.id} className="flex items-center gap-2 bg-white rounded-lg px-2 py-1.5 text-sm">
+          {alert.kind === AlertKind.LOSS
+            ? <AlertTriangle size={16} className="text-red-500 shrink-0" />
+            : <Clock size={16} className="text-amber-500 shrink-0" />}
+          <button onClick={() => onSelectItem(alert.item)} className="flex-1 min-w-0 text-left">
+            <span className="block truncate font-medium text-gray-800">{alert.item.brand} {alert.item.model}</span>
+            <span className={`text-xs ${alert.kind === AlertKind.LOSS ? 'text-red-500' : 'text-amber-700'}`}>
+              {alert.kind === AlertKind.LOSS
+                ? t('alerts.loss', { amount: formatCurrency(alert.amount) })
+                : t('alerts.staleStock', { days: alert.amount })}
+            </span>
+          </button>
+          <button
+            onClick={() => onDismiss(alert.id)}
+            className="p-1 text-gray-400 hover:text-gray-700"
+            aria-label={t('alerts.dismiss')}
+          >
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+      {alerts.length > COLLAPSED_COUNT && (
+        <button onClick={() => setExpanded(prev => !prev)} className="text-xs text-amber-800 font-medium hover:underline">
+          {expanded ? t('alerts.showLess') : t('alerts.showAll')}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { AuditEntry, AuditAction, FieldChange, SaleItem } from '../types';
+import { useI18n } from './I18nContext';
+
+interface AuditTrailProps {
+  entries: AuditEntry[]; // Newest first
+  presentIds: Set<string>; // Items currently in the list
+  showItem: boolean; // Name the item on each entry, when entries of many items are mixed
+  formatCurrency: (amount: number) => string;
+  onRestore: (entry: AuditEntry) => void;
+}
+
+const ACTION_CLASSES: Record<AuditAction, string> = {
+  [AuditAction.CREATE]: 'bg-green-100 text-green-700',
+  [AuditAction.UPDATE]: 'bg-indigo-100 text-indigo-700',
+  [AuditAction.DELETE]: 'bg-red-100 text-red-700',
+};
+
+// A create has no earlier version, so its name comes from the values it was saved with
+const itemName = (entry: AuditEntry) => {
+  const item: Partial<SaleItem> = entry.before
+    ?? Object.fromEntries(entry.changes.map(change => [change.field, change.after]));
+  return `${item.brand ?? ''} ${item.model ?? ''}`.trim();
+};
+
+export const AuditTrail: React.FC<AuditTrailProps> = ({ entries, presentIds, showItem, formatCurrency, onRestore }) => {
+  const { t, formatDate, formatDateTime } = useI18n();
+
+  // History is read long after the fact, so values are shown the way the form shows them
+  const formatValue = (field: FieldChange['field'], value: unknown): string => {
+    if (value === undefined || value === '') return '—';
+    switch (field) {
+      case 'sellingPrice':
+      case 'channelFee':
+      case 'depositAmount':
+        return formatCurrency(Number(value));
+      case 'costs':
+        return formatCurrency((value as SaleItem['costs']).reduce((sum, entry) => sum + entry.amount, 0));
+      case 'date':
+      case 'purchaseDate':
+        return formatDate(String(value));
+      case 'status':
+        return t(`itemStatus.${value as SaleItem['status']}`);
+      case 'channel':
+        return t(`salesChannel.${value as NonNullable<SaleItem['channel']>}`);
+      case 'paymentMethod':
+        return t(`paymentMethod.${value as NonNullable<SaleItem['paymentMethod']>}`);
+      case 'paymentStatus':
+        return t(`paymentStatus.${value as NonNullable<SaleItem['paymentStatus']>}`);
+      case 'tags':
+        return (value as string[]).join(', ');
+      case 'photoIds':
+        return t('audit.photos', { count: (value as string[]).length });
+      case 'afterSales':
+        return t('audit.events', { count: (value as unknown[]).length });
+      default:
+        return String(value);
+    }
+  };
+
+  const changeList = (changes: FieldChange[], showBefore: boolean) => (
+    <ul className="space-y-0.5">
+      {changes.map(change => (
+        <li key={change.field} className="text-xs text-gray-600">
+          <span className="text-gray-400">{t(`auditField.${change.field}`)}: </span>
+          {showBefore && (
+            <>
+              <span className="line-through text-red-500">{formatValue(change.field, change.before)}</span>
+              {' → '}
+            </>
+          )}
+          <span className="text-green-700">{formatValue(change.field, change.after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-400 text-center py-4">{t('audit.empty')}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {entries.map(entry => {
+        // A deleted item can only come back while it is gone; an edit can always be reverted
+        const restorable = entry.action === AuditAction.UPDATE || !presentIds.has(entry.itemId);
+        return (
+          <div key={entry.id} className="bg-white border border-gray-100 rounded-lg p-2 space-y-1">
+            <div className="flex items-center gap-2">
+              <span className={`text-[10px] px-2 py-0.5 rounded-full font-bold ${ACTION_CLASSES[entry.action]}`}>
+                {t(`auditAction.${entry.action}`)}
+              </span>
+              <span className="flex-1 min-w-0 truncate text-xs text-gray-400">
+                {formatDateTime(entry.at)}
+                {entry.fromSync && ` · ${t('audit.fromSync')}`}
+                {showItem && <span className="font-medium text-gray-700"> · {itemName(entry)}</span>}
+              </span>
+              {entry.before !== null && (
+                <button
+                  onClick={() => onRestore(entry)}
+                  disabled={!restorable}
+                  className="p-1 text-gray-500 hover:text-indigo-600 disabled:opacity-30"
+                  title={t(!restorable ? 'audit.itemExists' : entry.action === AuditAction.DELETE ? 'audit.restoreDeleted' : 'audit.restoreVersion')}
+                >
+                  <RotateCcw size={14} />
+                </button>
+              )}
+            </div>
+            {entry.action === AuditAction.UPDATE && changeList(entry.changes, true)}
+            {entry.action === AuditAction.CREATE && (
+              <details>
+                <summary className="text-xs text-indigo-600 cursor-pointer">{t('audit.details')}</summary>
+                {changeList(entry.changes, false)}
+              </details>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
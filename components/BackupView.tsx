@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Download, Upload, X, ShieldCheck, AlertTriangle } from 'lucide-react';
+import { SaleItem, AppSettings, Expense } from '../types';
+import { createBackup, parseBackup, diffBackup, applyRestore, BackupError, BackupFile, BackupDiff, RestoreMode } from '../services/backup';
+import { downloadFile } from '../services/download';
+import { loadPhotos, savePhoto } from '../services/storage';
+import { validateSaleItem, buildDuplicateIndex, hasErrors } from '../services/validation';
+import { toLocalISODate } from '../services/filters';
+import { useI18n } from './I18nContext';
+
+interface BackupViewProps {
+  sales: SaleItem[];
+  expenses: Expense[];
+  settings: AppSettings;
+  onBackupCreated: (exportedAt: string) => void;
+  onRestore: (sales: SaleItem[], expenses: Expense[], settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+export const BackupView: React.FC<BackupViewProps> = ({ sales, expenses, settings, onBackupCreated, onRestore, onClose }) => {
+  const { t, formatDateTime } = useI18n();
+  const [pending, setPending] = useState<{ file: BackupFile; diff: BackupDiff; invalidCount: number } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [backupError, setBackupError] = useState<string | null>(null);
+
+  // Only a file that was actually handed over counts as the last backup
+  const handleBackup = async () => {
+    try {
+      const photos = await loadPhotos(sales.flatMap(item => item.photoIds ?? []));
+      const backup = await createBackup(sales, expenses, settings, photos);
+      const stamp = backup.exportedAt.replace(/[:.]/g, '-');
+      downloadFile(`audiosale-backup-${stamp}.json`, JSON.stringify(backup, null, 2), 'application/json');
+      setBackupError(null);
+      onBackupCreated(backup.exportedAt);
+    } catch (err) {
+      console.error("Error creating backup", err);
+      setBackupError(t('backup.createFailed'));
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const selected = input.files?.[0];
+    input.value = '';
+    if (!selected) return;
+    try {
+      const file = await parseBackup(await selected.text(), t);
+      // A backup is restored as-is, but records that would fail the form's checks are pointed out
+      const today = toLocalISODate(new Date());
+      const noDuplicates = buildDuplicateIndex([]);
+      const invalidCount = file.data.sales.filter(item => hasErrors(validateSaleItem(item, noDuplicates, today, t))).length;
+      setPending({ file, diff: diffBackup(sales, file.data.sales), invalidCount });
+      setError(null);
+    } catch (err) {
+      setPending(null);
+      setError(err instanceof BackupError ? err.message : t('backup.readFailed'));
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!pending) return;
+    const { file } = pending;
+    // Photos go to their own store first; the records are restored even if some don't fit
+    try {
+      await Promise.all((file.data.photos ?? []).map(savePhoto));
+      setError(null);
+    } catch (err) {
+      console.error("Error restoring photos", err);
+      setError(t('backup.photoRestoreFailed'));
+    }
+    // Settings describe this device's setup, so a merge keeps them and only a full replace restores them.
+    // Even then the sync connection stays: its revisions and cursor belong to this device's server.
+    onRestore(
+      applyRestore(sales, file.data.sales, mode),
+      applyRestore(expenses, file.data.expenses ?? [], mode),
+      mode === 'replace' ? { ...file.data.settings, sync: settings.sync } : settings
+    );
+    setPending(null);
+  };
+
+  return (
+    <div className="space-y-4 animate-in slide-in-from-bottom duration-300">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-gray-800">{t('backup.title')}</h2>
+        <button onClick={onClose} className="p-2 bg-gray-100 rounded-full text-gray-600 hover:bg-gray-200">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="bg-white p-5 rounded-xl shadow-sm space-y-3">
+        <p className="text-sm text-gray-600">
+          {t('backup.description', { count: sales.length })}
+        </p>
+        <p className="text-xs text-gray-400">
+          {t('backup.lastBackup', { date: settings.lastBackupAt ? formatDateTime(settings.lastBackupAt) : t('backup.never') })}
+        </p>
+        <button
+          onClick={handleBackup}
+          className="w-full py-3 bg-indigo-600 text-white rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-indigo-700"
+        >
+          <Download size={20} /> {t('backup.download')}
+        </button>
+        {backupError && (
+          <p className="text-sm text-red-500 flex gap-2">
+            <AlertTriangle size={16} className="shrink-0 mt-0.5" /> {backupError}
+          </p>
+        )}
+      </div>
+
+      <div className="bg-white p-5 rounded-xl shadow-sm space-y-3">
+        <label className="flex items-center justify-center gap-2 border-2 border-dashed border-indigo-200 rounded-xl py-6 text-indigo-600 cursor-pointer hover:bg-indigo-50">
+          <Upload size={20} />
+          <span className="font-medium">{t('backup.pickFile')}</span>
+          <input type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+        </label>
+
+        {error && (
+          <p className="text-sm text-red-500 flex gap-2">
+            <AlertTriangle size={16} className="shrink-0 mt-0.5" /> {error}
+          </p>
+        )}
+
+        {pending && (
+          <div className="space-y-3">
+            <p className="text-sm text-green-700 flex gap-2">
+              <ShieldCheck size={16} className="shrink-0 mt-0.5" />
+              {t('backup.fileSummary', {
+                count: pending.file.recordCount,
+                expenses: pending.file.data.expenses?.length ?? 0,
+                photos: pending.file.data.photos?.length ?? 0,
+                date: formatDateTime(pending.file.exportedAt)
+              })}
+            </p>
+
+            {pending.invalidCount > 0 && (
+              <p className="text-xs text-amber-600 flex gap-2">
+                <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+                {t('backup.invalidRecords', { count: pending.invalidCount })}
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 gap-2 text-center text-sm">
+              <div className="bg-green-50 text-green-700 rounded-lg p-2">
+                <span className="block text-lg font-bold">{pending.diff.added.length}</span>{t('backup.added')}
+              </div>
+              <div className="bg-blue-50 text-blue-700 rounded-lg p-2">
+                <span className="block text-lg font-bold">{pending.diff.changed.length}</span>{t('backup.changed')}
+              </div>
+              <div className="bg-gray-50 text-gray-600 rounded-lg p-2">
+                <span className="block text-lg font-bold">{pending.diff.unchanged}</span>{t('backup.unchanged')}
+              </div>
+              <div className={`rounded-lg p-2 ${mode === 'replace' ? 'bg-red-50 text-red-600' : 'bg-gray-50 text-gray-400'}`}>
+                <span className="block text-lg font-bold">{pending.diff.removed.length}</span>{t('backup.removed')}
+              </div>
+            </div>
+
+            <div className="space-y-2 text-sm">
+              <label className="flex items-start gap-2">
+                <input type="radio" name="restoreMode" checked={mode === 'merge'} onChange={() => setMode('merge')} className="mt-1" />
+                <span><b>{t('backup.merge')}</b> {t('backup.mergeHint')}</span>
+              </label>
+              <label className="flex items-start gap-2">
+                <input type="radio" name="restoreMode" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mt-1" />
+                <span><b>{t('backup.replace')}</b> {t('backup.replaceHint')}</span>
+              </label>
+            </div>
+
+            <button
+              onClick={handleConfirm}
+              className={`w-full py-3 text-white rounded-xl font-bold ${mode === 'replace' ? 'bg-red-500 hover:bg-red-600' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+            >
+              {t('backup.confirm')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
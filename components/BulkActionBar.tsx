@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Trash2, Download, Tag, CalendarDays, CheckSquare, Square } from 'lucide-react';
+import { toLocalISODate } from '../services/filters';
+import { useI18n } from './I18nContext';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  totalCount: number;
+  types: string[];
+  onToggleAll: () => void;
+  onDelete: () => void;
+  onChangeType: (type: string) => void;
+  onChangeDate: (date: string) => void;
+  onExport: () => void;
+}
+
+enum Editor {
+  NONE = 'none',
+  TYPE = 'type',
+  DATE = 'date'
+}
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  totalCount,
+  types,
+  onToggleAll,
+  onDelete,
+  onChangeType,
+  onChangeDate,
+  onExport
+}) => {
+  const { t } = useI18n();
+  const [editor, setEditor] = useState<Editor>(Editor.NONE);
+  const [date, setDate] = useState('');
+  const allSelected = selectedCount > 0 && selectedCount === totalCount;
+  const disabled = selectedCount === 0;
+
+  const toggleEditor = (next: Editor) => setEditor(prev => (prev === next ? Editor.NONE : next));
+
+  // A date is typed or stepped through one part at a time, so it only applies once confirmed
+  const applyDate = () => {
+    onChangeDate(date);
+    setDate('');
+    setEditor(Editor.NONE);
+  };
+
+  return (
+    <div className="sticky top-0 z-10 bg-indigo-50 border border-indigo-100 rounded-xl p-2 space-y-2">
+      <div className="flex items-center gap-1">
+        <button onClick={onToggleAll} className="flex items-center gap-1 text-sm text-indigo-700 font-medium px-2 py-1">
+          {allSelected ? <CheckSquare size={16} /> : <Square size={16} />}
+          {t('bulk.selected', { selected: selectedCount, total: totalCount })}
+        </button>
+        <div className="flex-1" />
+        <button
+          disabled={disabled}
+          onClick={() => toggleEditor(Editor.TYPE)}
+          className={`p-2 rounded-full disabled:opacity-40 ${editor === Editor.TYPE ? 'bg-indigo-200 text-indigo-800' : 'bg-white text-gray-600'}`}
+          title={t('bulk.changeType')}
+        >
+          <Tag size={16} />
+        </button>
+        <button
+          disabled={disabled}
+          onClick={() => toggleEditor(Editor.DATE)}
+          className={`p-2 rounded-full disabled:opacity-40 ${editor === Editor.DATE ? 'bg-indigo-200 text-indigo-800' : 'bg-white text-gray-600'}`}
+          title={t('bulk.changeDate')}
+        >
+          <CalendarDays size={16} />
+        </button>
+        <button
+          disabled={disabled}
+          onClick={onExport}
+          className="p-2 bg-white rounded-full text-gray-600 disabled:opacity-40"
+          title={t('bulk.export')}
+        >
+          <Download size={16} />
+        </button>
+        <button
+          disabled={disabled}
+          onClick={onDelete}
+          className="p-2 bg-red-50 rounded-full text-red-500 disabled:opacity-40"
+          title={t('bulk.delete')}
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+
+      {editor === Editor.TYPE && !disabled && (
+        <select
+          defaultValue=""
+          onChange={(e) => { onChangeType(e.target.value); setEditor(Editor.NONE); }}
+          className="w-full p-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+        >
+          <option value="" disabled>{t('bulk.pickType', { count: selectedCount })}</option>
+          {types.map(t => (
+            <option key={t} value={t}>{t}</option>
+          ))}
+        </select>
+      )}
+
+      {editor === Editor.DATE && !disabled && (
+        <div className="flex gap-2">
+          <input
+            type="date"
+            value={date}
+            max={toLocalISODate(new Date())}
+            onChange={(e) => setDate(e.target.value)}
+            aria-label={t('bulk.changeDate')}
+            className="flex-1 min-w-0 p-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+          />
+          <button
+            onClick={applyDate}
+            disabled={!date}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-40"
+          >
+            {t('bulk.apply', { count: selectedCount })}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { ArrowUp, ArrowDown, Plus, Trash2 } from 'lucide-react';
+import { Category } from '../types';
+import { addCategory, moveCategory, updateCategory, removeCategory } from '../services/categories';
+import { useI18n } from './I18nContext';
+
+interface CategoryManagerProps {
+  categories: Category[];
+  counts: Map<string, number>; // Items per category name
+  onChange: (categories: Category[]) => void;
+  onRename: (id: string, name: string) => boolean; // False when the name is taken
+  onMerge: (fromId: string, toId: string) => void;
+}
+
+export const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, counts, onChange, onRename, onMerge }) => {
+  const { t } = useI18n();
+  const [newName, setNewName] = useState('');
+  const [addError, setAddError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const next = addCategory(categories, newName);
+    if (!next) {
+      setAddError(t(newName.trim() ? 'categories.exists' : 'categories.nameRequired'));
+      return;
+    }
+    onChange(next);
+    setNewName('');
+    setAddError(null);
+  };
+
+  const handleRename = (category: Category, input: HTMLInputElement) => {
+    const name = input.value.trim().replace(/\s+/g, ' ');
+    if (name === category.name) return;
+    if (!name || !onRename(category.id, name)) input.value = category.name;
+  };
+
+  return (
+    <div className="space-y-2">
+      {categories.map((category, index) => {
+        const count = counts.get(category.name) ?? 0;
+        return (
+          <div key={category.id} className="flex items-center gap-2 border-b border-gray-100 pb-2 last:border-0">
+            <input
+              type="color"
+              value={category.color}
+              onChange={(e) => onChange(updateCategory(categories, category.id, { color: e.target.value }))}
+              className="w-7 h-7 shrink-0 rounded border border-gray-200 bg-transparent cursor-pointer"
+              aria-label={t('categories.color', { name: category.name })}
+            />
+            <input
+              // Remount after an outside rename so the field shows the saved name
+              key={category.name}
+              type="text"
+              defaultValue={category.name}
+              onBlur={(e) => handleRename(category, e.target)}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              className="flex-1 min-w-0 p-1 text-sm border border-transparent rounded-md hover:border-gray-200 focus:border-indigo-300 focus:outline-none"
+            />
+            <span className="text-xs text-gray-400 shrink-0">({count})</span>
+            <button
+              onClick={() => onChange(moveCategory(categories, category.id, -1))}
+              disabled={index === 0}
+              className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+              aria-label={t('categories.moveUp')}
+            >
+              <ArrowUp size={14} />
+            </button>
+            <button
+              onClick={() => onChange(moveCategory(categories, category.id, 1))}
+              disabled={index === categories.length - 1}
+              className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+              aria-label={t('categories.moveDown')}
+            >
+              <ArrowDown size={14} />
+            </button>
+            {count === 0 ? (
+              <button
+                onClick={() => onChange(removeCategory(categories, category.id))}
+                className="p-1 text-gray-400 hover:text-red-500"
+                aria-label={t('categories.delete', { name: category.name })}
+              >
+                <Trash2 size={14} />
+              </button>
+            ) : (
+              <select
+                value=""
+                onChange={(e) => e.target.value && onMerge(category.id, e.target.value)}
+                className="text-xs p-1 border border-gray-200 rounded-md text-gray-500 max-w-[7rem]"
+              >
+                <option value="">{t('common.mergeInto')}</option>
+                {categories.filter(other => other.id !== category.id).map(other => (
+                  <option key={other.id} value={other.id}>{other.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2 pt-1">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder={t('categories.placeholder')}
+          className="flex-1 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+        />
+        <button onClick={handleAdd} className="px-3 bg-indigo-600 text-white rounded-lg text-sm font-medium flex items-center gap-1">
+          <Plus size={14} /> {t('common.add')}
+        </button>
+      </div>
+      {addError && <p className="text-xs text-red-500">{addError}</p>}
+    </div>
+  );
+};
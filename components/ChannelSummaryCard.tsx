@@ -0,0 +1,44 @@
+import React from 'react';
+import { ChannelSummary } from '../types';
+import { useI18n } from './I18nContext';
+
+interface ChannelSummaryCardProps {
+  summary: ChannelSummary[];
+  formatCurrency: (amount: number) => string;
+}
+
+export const ChannelSummaryCard: React.FC<ChannelSummaryCardProps> = ({ summary, formatCurrency }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm">
+      <h3 className="font-bold text-gray-700 mb-3">{t('channels.title')}</h3>
+      {summary.length === 0 ? (
+        <div className="h-24 flex items-center justify-center text-gray-400">{t('common.noSales')}</div>
+      ) : (
+        <div className="space-y-3">
+          {summary.map(row => (
+            <div key={row.channel ?? 'none'} className="text-sm">
+              <div className="flex justify-between items-center">
+                <span className="font-medium text-gray-800">
+                  {row.channel ? t(`salesChannel.${row.channel}`) : t('channels.none')}
+                  <span className="text-gray-400 text-xs"> · {t('common.units', { count: row.units })}</span>
+                </span>
+                <span className="font-bold text-indigo-600">{formatCurrency(row.revenue)}</span>
+              </div>
+              <div className="flex justify-between text-xs text-gray-500 mt-0.5">
+                <span>
+                  {t('channels.fees', { amount: formatCurrency(row.fees) })}
+                  {row.outstanding > 0 && <span className="text-amber-600"> · {t('channels.outstanding', { count: row.outstanding })}</span>}
+                </span>
+                <span className={row.profit >= 0 ? 'text-green-600' : 'text-red-500'}>
+                  {t('channels.profit', { amount: formatCurrency(row.profit) })}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
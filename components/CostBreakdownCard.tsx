@@ -0,0 +1,62 @@
+import React from 'react';
+import { CostCategory } from '../types';
+import { useI18n } from './I18nContext';
+
+interface CostBreakdownCardProps {
+  breakdown: Record<CostCategory, number>;
+  formatCurrency: (amount: number) => string;
+}
+
+const CATEGORY_COLORS: Record<CostCategory, string> = {
+  [CostCategory.PURCHASE]: '#ef4444',
+  [CostCategory.SHIPPING]: '#f97316',
+  [CostCategory.REPAIR]: '#eab308',
+  [CostCategory.CLEANING]: '#84cc16',
+  [CostCategory.PLATFORM_FEE]: '#06b6d4',
+  [CostCategory.PACKAGING]: '#8b5cf6',
+  [CostCategory.IMPORT_DUTY]: '#ec4899',
+  [CostCategory.TRAVEL]: '#14b8a6',
+  [CostCategory.OTHER]: '#9ca3af'
+};
+
+export const CostBreakdownCard: React.FC<CostBreakdownCardProps> = ({ breakdown, formatCurrency }) => {
+  const { t } = useI18n();
+  const entries = Object.values(CostCategory)
+    .map(category => ({ category, amount: breakdown[category] }))
+    .filter(entry => entry.amount > 0)
+    .sort((a, b) => b.amount - a.amount);
+  const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-bold text-gray-700">{t('costs.total')}</h3>
+        <span className="text-red-500 font-semibold">{formatCurrency(total)}</span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2.5 flex overflow-hidden">
+        {entries.map(({ category, amount }) => (
+          <div
+            key={category}
+            className="h-2.5"
+            style={{ width: `${(amount / total) * 100}%`, backgroundColor: CATEGORY_COLORS[category] }}
+          />
+        ))}
+      </div>
+      {entries.length > 0 ? (
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-3 text-xs">
+          {entries.map(({ category, amount }) => (
+            <div key={category} className="flex justify-between items-center">
+              <span className="flex items-center gap-1.5 text-gray-600">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: CATEGORY_COLORS[category] }} />
+                {t(`costCategory.${category}`)}
+              </span>
+              <span className="text-gray-800">{formatCurrency(amount)}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-400 mt-2 text-right">{t('costs.none')}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { CostEntry, CostCategory } from '../types';
+import { getItemCost } from '../services/profit';
+import { useI18n } from './I18nContext';
+
+interface CostEditorProps {
+  costs: CostEntry[];
+  onChange: (costs: CostEntry[]) => void;
+  formatCurrency: (amount: number) => string;
+  purchaseCurrency?: string; // Set when the purchase price is entered in a foreign currency
+  exchangeRate?: number;
+}
+
+export const CostEditor: React.FC<CostEditorProps> = ({ costs, onChange, formatCurrency, purchaseCurrency, exchangeRate }) => {
+  const { t } = useI18n();
+  const total = getItemCost({ costs, exchangeRate });
+
+  const updateEntry = (id: string, patch: Partial<CostEntry>) => {
+    onChange(costs.map(entry => (entry.id === id ? { ...entry, ...patch } : entry)));
+  };
+
+  const addEntry = () => {
+    onChange([...costs, { id: crypto.randomUUID(), category: CostCategory.REPAIR, amount: 0 }]);
+  };
+
+  return (
+    <div className="space-y-2 pt-2">
+      <div className="flex justify-between items-center">
+        <label className="text-sm font-medium text-gray-700">{t('costs.title')}</label>
+        <span className="text-sm text-red-500 font-semibold">{formatCurrency(total)}</span>
+      </div>
+
+      {costs.map(entry => (
+        <div key={entry.id} className="flex gap-2 items-center">
+          <select
+            value={entry.category}
+            onChange={(e) => updateEntry(entry.id, { category: e.target.value as CostCategory })}
+            className="flex-1 min-w-0 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-200 focus:outline-none"
+          >
+            {Object.values(CostCategory).map(c => (
+              <option key={c} value={c}>{t(`costCategory.${c}`)}</option>
+            ))}
+          </select>
+          <label className="relative">
+            <input
+              type="number"
+              inputMode="numeric"
+              min="0"
+              value={entry.amount}
+              onChange={(e) => updateEntry(entry.id, { amount: Number(e.target.value) })}
+              aria-label={t(`costCategory.${entry.category}`)}
+              className={`w-28 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-200 focus:outline-none ${purchaseCurrency && entry.category === CostCategory.PURCHASE ? 'pr-10' : ''}`}
+            />
+            {purchaseCurrency && entry.category === CostCategory.PURCHASE && (
+              <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-gray-400">{purchaseCurrency}</span>
+            )}
+          </label>
+          <button
+            type="button"
+            onClick={() => onChange(costs.filter(c => c.id !== entry.id))}
+            className="p-2 text-gray-400 hover:text-red-500"
+            title={t('costs.remove')}
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addEntry}
+        className="text-sm text-indigo-600 font-medium flex items-center gap-1 hover:underline"
+      >
+        <Plus size={16} /> {t('costs.add')}
+      </button>
+    </div>
+  );
+};
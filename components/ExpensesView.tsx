@@ -0,0 +1,236 @@
+import React, { useState, useMemo } from 'react';
+import { X, Plus, Edit, Trash2, Repeat, Save } from 'lucide-react';
+import { Expense, ExpenseCategory, Recurrence } from '../types';
+import { getExpenseOccurrences, sortExpenses, validateExpense } from '../services/expenses';
+import { toLocalISODate } from '../services/filters';
+import { FieldMessage } from './FieldMessage';
+import { useI18n } from './I18nContext';
+
+interface ExpensesViewProps {
+  expenses: Expense[];
+  onChange: (expenses: Expense[]) => void;
+  formatCurrency: (amount: number) => string;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
+const emptyDraft = (): Partial<Expense> => ({
+  date: toLocalISODate(new Date()),
+  category: ExpenseCategory.ADVERTISING,
+});
+
+// Drops what the entry doesn't use, so a one-off never keeps a stale end date
+const toExpense = (draft: Partial<Expense>, id: string): Expense => {
+  const expense: Expense = {
+    id,
+    date: draft.date!,
+    category: draft.category ?? ExpenseCategory.OTHER,
+    amount: Number(draft.amount),
+  };
+  if (draft.note?.trim()) expense.note = draft.note.trim();
+  if (draft.recurrence) {
+    expense.recurrence = draft.recurrence;
+    if (draft.endDate) expense.endDate = draft.endDate;
+  }
+  return expense;
+};
+
+export const ExpensesView: React.FC<ExpensesViewProps> = ({ expenses, onChange, formatCurrency, onClose }) => {
+  const { t, formatDate } = useI18n();
+  const [draft, setDraft] = useState<Partial<Expense>>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showErrors, setShowErrors] = useState(false);
+
+  const errors = validateExpense(draft, t);
+  const sorted = useMemo(() => sortExpenses(expenses), [expenses]);
+
+  const today = toLocalISODate(new Date());
+  const thisMonth = useMemo(() => {
+    // Dates compare as strings, so day 31 closes every month
+    const month = today.substring(0, 7);
+    const range = { from: `${month}-01`, to: `${month}-31` };
+    return expenses.reduce((sum, expense) => sum + expense.amount * getExpenseOccurrences(expense, range, today).length, 0);
+  }, [expenses, today]);
+
+  const update = (patch: Partial<Expense>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const reset = () => {
+    setDraft(emptyDraft());
+    setEditingId(null);
+    setShowErrors(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (Object.keys(errors).length > 0) {
+      setShowErrors(true);
+      return;
+    }
+    if (editingId) {
+      onChange(expenses.map(expense => (expense.id === editingId ? toExpense(draft, editingId) : expense)));
+    } else {
+      onChange([toExpense(draft, crypto.randomUUID()), ...expenses]);
+    }
+    reset();
+  };
+
+  const handleEdit = (expense: Expense) => {
+    setDraft(expense);
+    setEditingId(expense.id);
+    setShowErrors(false);
+  };
+
+  const handleDelete = (id: string) => {
+    if (!window.confirm(t('expenses.confirmDelete'))) return;
+    onChange(expenses.filter(expense => expense.id !== id));
+    if (editingId === id) reset();
+  };
+
+  const fieldMessage = (field: keyof typeof errors) => (showErrors ? <FieldMessage error={errors[field]} /> : null);
+
+  return (
+    <div className="space-y-4 animate-in slide-in-from-bottom duration-300">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-gray-800">{t('expenses.title')}</h2>
+        <button onClick={onClose} className="p-2 bg-gray-100 rounded-full text-gray-600 hover:bg-gray-200">
+          <X size={16} />
+        </button>
+      </div>
+
+      <form onSubmit={handleSubmit} noValidate className="bg-white p-5 rounded-xl shadow-sm space-y-3">
+        <h3 className="font-bold text-gray-700">{t(editingId ? 'expenses.edit' : 'expenses.add')}</h3>
+        <p className="text-xs text-gray-400">{t('expenses.description')}</p>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">{t('expenses.date')}</label>
+            <input
+              type="date"
+              value={draft.date ?? ''}
+              onChange={(e) => update({ date: e.target.value })}
+              className={inputClass}
+            />
+            {fieldMessage('date')}
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">{t('expenses.amount')}</label>
+            <input
+              type="number"
+              inputMode="numeric"
+              min="0"
+              value={draft.amount ?? ''}
+              onChange={(e) => update({ amount: e.target.value === '' ? undefined : Number(e.target.value) })}
+              className={inputClass}
+            />
+            {fieldMessage('amount')}
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">{t('expenses.category')}</label>
+          <select
+            value={draft.category}
+            onChange={(e) => update({ category: e.target.value as ExpenseCategory })}
+            className={inputClass}
+          >
+            {Object.values(ExpenseCategory).map(category => (
+              <option key={category} value={category}>{t(`expenseCategory.${category}`)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">{t('expenses.recurrence')}</label>
+            <select
+              value={draft.recurrence ?? ''}
+              onChange={(e) => update({ recurrence: (e.target.value || undefined) as Recurrence | undefined })}
+              className={inputClass}
+            >
+              <option value="">{t('expenses.once')}</option>
+              {Object.values(Recurrence).map(recurrence => (
+                <option key={recurrence} value={recurrence}>{t(`recurrence.${recurrence}`)}</option>
+              ))}
+            </select>
+          </div>
+          {draft.recurrence && (
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">{t('expenses.endDate')}</label>
+              <input
+                type="date"
+                value={draft.endDate ?? ''}
+                onChange={(e) => update({ endDate: e.target.value || undefined })}
+                className={inputClass}
+              />
+              {fieldMessage('endDate')}
+            </div>
+          )}
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">{t('expenses.note')}</label>
+          <input
+            type="text"
+            value={draft.note ?? ''}
+            onChange={(e) => update({ note: e.target.value })}
+            placeholder={t('expenses.notePlaceholder')}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex gap-2">
+          {editingId && (
+            <button type="button" onClick={reset} className="flex-1 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium">
+              {t('common.cancel')}
+            </button>
+          )}
+          <button type="submit" className="flex-1 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium flex items-center justify-center gap-1 hover:bg-indigo-700">
+            {editingId ? <Save size={16} /> : <Plus size={16} />} {t(editingId ? 'common.save' : 'common.add')}
+          </button>
+        </div>
+      </form>
+
+      <div className="bg-white p-4 rounded-xl shadow-sm space-y-2">
+        <div className="flex justify-between items-center">
+          <h3 className="font-bold text-gray-700">{t('common.items', { count: expenses.length })}</h3>
+          <span className="text-sm text-red-500 font-semibold">{t('expenses.thisMonth', { amount: formatCurrency(thisMonth) })}</span>
+        </div>
+        {sorted.length === 0 ? (
+          <p className="text-sm text-gray-400">{t('expenses.empty')}</p>
+        ) : (
+          sorted.map(expense => (
+            <div
+              key={expense.id}
+              className={`flex items-center gap-2 border-b border-gray-100 pb-2 last:border-0 ${expense.id === editingId ? 'bg-indigo-50 -mx-2 px-2 rounded-lg' : ''}`}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-800">{t(`expenseCategory.${expense.category}`)}</p>
+                <p className="text-xs text-gray-400 truncate">
+                  {formatDate(expense.date)}
+                  {expense.note && ` · ${expense.note}`}
+                </p>
+                {expense.recurrence && (
+                  <p className="text-[10px] text-indigo-600 flex items-center gap-1">
+                    <Repeat size={10} /> {t(`recurrence.${expense.recurrence}`)}
+                    {expense.endDate && ` ${t('expenses.until', { date: formatDate(expense.endDate) })}`}
+                  </p>
+                )}
+              </div>
+              <span className="text-sm font-semibold text-red-500 shrink-0">{formatCurrency(expense.amount)}</span>
+              <button
+                onClick={() => handleEdit(expense)}
+                className="p-2 bg-gray-100 rounded-full text-gray-600 hover:bg-gray-200"
+                title={t('list.edit')}
+              >
+                <Edit size={14} />
+              </button>
+              <button
+                onClick={() => handleDelete(expense.id)}
+                className="p-2 bg-red-50 rounded-full text-red-500 hover:bg-red-100"
+                title={t('list.delete')}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
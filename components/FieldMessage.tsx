@@ -0,0 +1,26 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+
+interface FieldMessageProps {
+  error?: string;
+  warning?: string;
+}
+
+// An error blocks saving and wins over a warning for the same field
+export const FieldMessage: React.FC<FieldMessageProps> = ({ error, warning }) => {
+  if (error) {
+    return (
+      <p className="text-xs text-red-600 flex items-center gap-1">
+        <AlertCircle size={12} className="shrink-0" /> {error}
+      </p>
+    );
+  }
+  if (warning) {
+    return (
+      <p className="text-xs text-amber-600 flex items-center gap-1">
+        <AlertTriangle size={12} className="shrink-0" /> {warning}
+      </p>
+    );
+  }
+  return null;
+};
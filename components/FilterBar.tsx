@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { Filter, Search, SlidersHorizontal, X } from 'lucide-react';
+import { SalesFilter, DateRangePreset, ProfitOutcome } from '../types';
+import { DEFAULT_FILTER, isFilterActive } from '../services/filters';
+import { catalogKey } from '../services/catalog';
+import { useI18n } from './I18nContext';
+
+interface FilterBarProps {
+  filter: SalesFilter;
+  onChange: (filter: SalesFilter) => void;
+  availableMonths: string[];
+  types: string[];
+  brands: string[];
+  tags: string[];
+}
+
+const selectClass = 'bg-gray-100 border-none rounded-md px-3 py-1 text-sm focus:ring-2 focus:ring-indigo-500';
+
+export const FilterBar: React.FC<FilterBarProps> = ({ filter, onChange, availableMonths, types, brands, tags }) => {
+  const { t, formatMonth } = useI18n();
+  const [expanded, setExpanded] = useState(!!(filter.type || filter.brand || filter.tag || filter.outcome !== ProfitOutcome.ALL));
+
+  const update = (patch: Partial<SalesFilter>) => onChange({ ...filter, ...patch });
+
+  // A tag from a link or a list card may be spelled differently from the one offered here
+  const selectedTag = filter.tag && (tags.find(tag => catalogKey(tag) === catalogKey(filter.tag!)) ?? filter.tag);
+
+  const handleRangeChange = (range: DateRangePreset) => {
+    update({
+      range,
+      month: range === DateRangePreset.MONTH ? filter.month ?? availableMonths[0] : filter.month
+    });
+  };
+
+  return (
+    <div className="bg-white p-3 rounded-lg shadow-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center text-gray-600 gap-2">
+          <Filter size={18} />
+          <span className="text-sm font-medium">{t('filter.period')}</span>
+        </div>
+        <div className="flex gap-2">
+          <select
+            className={selectClass}
+            value={filter.range}
+            onChange={(e) => handleRangeChange(e.target.value as DateRangePreset)}
+          >
+            {Object.values(DateRangePreset).map(r => (
+              <option key={r} value={r}>{t(`dateRange.${r}`)}</option>
+            ))}
+          </select>
+          {filter.range === DateRangePreset.MONTH && (
+            <select
+              className={selectClass}
+              value={filter.month ?? ''}
+              onChange={(e) => update({ month: e.target.value })}
+            >
+              {availableMonths.map(m => (
+                <option key={m} value={m}>{formatMonth(m)}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {filter.range === DateRangePreset.CUSTOM && (
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="date"
+            className={selectClass}
+            value={filter.from ?? ''}
+            onChange={(e) => update({ from: e.target.value })}
+          />
+          <input
+            type="date"
+            className={selectClass}
+            value={filter.to ?? ''}
+            onChange={(e) => update({ to: e.target.value })}
+          />
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search size={16} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="search"
+            placeholder={t('filter.search')}
+            value={filter.query}
+            onChange={(e) => update({ query: e.target.value })}
+            className="w-full bg-gray-100 rounded-md pl-8 pr-2 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+          />
+        </div>
+        <button
+          onClick={() => setExpanded(prev => !prev)}
+          className={`p-2 rounded-md ${expanded ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-100 text-gray-600'}`}
+          title={t('filter.more')}
+        >
+          <SlidersHorizontal size={16} />
+        </button>
+        {isFilterActive(filter) && (
+          <button
+            onClick={() => onChange(DEFAULT_FILTER)}
+            className="p-2 rounded-md bg-gray-100 text-gray-600"
+            title={t('filter.clear')}
+          >
+            <X size={16} />
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              className={selectClass}
+              value={filter.type ?? ''}
+              onChange={(e) => update({ type: e.target.value || undefined })}
+            >
+              <option value="">{t('filter.allTypes')}</option>
+              {types.map(t => (
+                <option key={t} value={t}>{t}</option>
+              ))}
+            </select>
+            <select
+              className={selectClass}
+              value={filter.brand ?? ''}
+              onChange={(e) => update({ brand: e.target.value || undefined })}
+            >
+              <option value="">{t('filter.allBrands')}</option>
+              {brands.map(b => (
+                <option key={b} value={b}>{b}</option>
+              ))}
+            </select>
+          </div>
+          {(tags.length > 0 || selectedTag) && (
+            <select
+              className={`${selectClass} w-full`}
+              value={selectedTag ?? ''}
+              onChange={(e) => update({ tag: e.target.value || undefined })}
+            >
+              <option value="">{t('filter.allTags')}</option>
+              {selectedTag && !tags.includes(selectedTag) && <option value={selectedTag}>{selectedTag}</option>}
+              {tags.map(tag => (
+                <option key={tag} value={tag}>{tag}</option>
+              ))}
+            </select>
+          )}
+          <div className="flex bg-gray-100 rounded-md p-1 text-sm">
+            {Object.values(ProfitOutcome).map(o => (
+              <button
+                key={o}
+                onClick={() => update({ outcome: o })}
+                className={`flex-1 py-1 rounded ${filter.outcome === o ? 'bg-white shadow-sm font-medium text-indigo-700' : 'text-gray-500'}`}
+              >
+                {t(`outcome.${o}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
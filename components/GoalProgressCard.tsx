@@ -0,0 +1,79 @@
+import React from 'react';
+import { Target } from 'lucide-react';
+import { MonthlyGoals, GoalProgress } from '../types';
+import { useI18n } from './I18nContext';
+
+interface GoalProgressCardProps {
+  goals: MonthlyGoals;
+  formatCurrency: (amount: number) => string;
+  onSetTargets: () => void;
+}
+
+const ProgressBar: React.FC<{ label: string; progress: GoalProgress; formatCurrency: (amount: number) => string }> = ({
+  label, progress, formatCurrency
+}) => {
+  const { t } = useI18n();
+  const percent = Math.max(0, (progress.actual / progress.target) * 100);
+  const projectedPercent = Math.max(0, Math.min(100, (progress.projected / progress.target) * 100));
+  const onPace = progress.projected >= progress.target;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between items-baseline text-sm">
+        <span className="font-medium text-gray-700">{label}</span>
+        <span className="text-xs text-gray-500">
+          {t('goals.of', { actual: formatCurrency(progress.actual), target: formatCurrency(progress.target) })}
+          <span className="font-semibold text-gray-800"> · {percent.toFixed(0)}%</span>
+        </span>
+      </div>
+      <div className="relative w-full bg-gray-200 rounded-full h-2.5">
+        <div
+          className={`h-2.5 rounded-full ${percent >= 100 ? 'bg-green-500' : 'bg-indigo-500'}`}
+          style={{ width: `${Math.min(100, percent)}%` }}
+        />
+        {/* Where the month ends at the current pace */}
+        <div
+          className={`absolute -top-0.5 w-0.5 h-3.5 ${onPace ? 'bg-green-700' : 'bg-amber-500'}`}
+          style={{ left: `calc(${projectedPercent}% - 1px)` }}
+        />
+      </div>
+      <p className={`text-xs text-right ${onPace ? 'text-green-600' : 'text-amber-600'}`}>
+        {t('goals.projected', { amount: formatCurrency(progress.projected) })}
+      </p>
+    </div>
+  );
+};
+
+export const GoalProgressCard: React.FC<GoalProgressCardProps> = ({ goals, formatCurrency, onSetTargets }) => {
+  const { t, formatMonth } = useI18n();
+  const hasTargets = goals.revenue.target > 0 || goals.profit.target > 0;
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold text-gray-700 flex items-center gap-1.5">
+          <Target size={16} className="text-indigo-500" />
+          {t('goals.title', { month: formatMonth(goals.month) })}
+        </h3>
+        <span className="text-xs text-gray-400">{t('goals.dayOf', { day: goals.daysElapsed, days: goals.daysInMonth })}</span>
+      </div>
+      {hasTargets ? (
+        <>
+          {goals.revenue.target > 0 && (
+            <ProgressBar label={t('goals.revenue')} progress={goals.revenue} formatCurrency={formatCurrency} />
+          )}
+          {goals.profit.target > 0 && (
+            <ProgressBar label={t('goals.profit')} progress={goals.profit} formatCurrency={formatCurrency} />
+          )}
+        </>
+      ) : (
+        <div className="flex justify-between items-center text-sm">
+          <span className="text-gray-400">{t('goals.noTargets')}</span>
+          <button onClick={onSetTargets} className="text-indigo-600 font-medium hover:underline shrink-0">
+            {t('goals.setTargets')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
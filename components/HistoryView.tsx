@@ -0,0 +1,52 @@
+import React, { useState, useMemo } from 'react';
+import { X } from 'lucide-react';
+import { AuditEntry, AuditAction } from '../types';
+import { AuditTrail } from './AuditTrail';
+import { useI18n } from './I18nContext';
+
+interface HistoryViewProps {
+  log: AuditEntry[]; // Oldest first, as stored
+  presentIds: Set<string>;
+  formatCurrency: (amount: number) => string;
+  onRestore: (entry: AuditEntry) => void;
+  onClose: () => void;
+}
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ log, presentIds, formatCurrency, onRestore, onClose }) => {
+  const { t } = useI18n();
+  const [deletedOnly, setDeletedOnly] = useState(false);
+
+  // Items deleted and never brought back are the ones people come here looking for
+  const entries = useMemo(
+    () => [...log].reverse().filter(entry => !deletedOnly || (entry.action === AuditAction.DELETE && !presentIds.has(entry.itemId))),
+    [log, deletedOnly, presentIds]
+  );
+
+  return (
+    <div className="space-y-4 animate-in slide-in-from-bottom duration-300">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-gray-800">{t('audit.title')}</h2>
+        <button onClick={onClose} className="p-2 bg-gray-100 rounded-full text-gray-600 hover:bg-gray-200">
+          <X size={16} />
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">{t('audit.hint')}</p>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={deletedOnly}
+          onChange={(e) => setDeletedOnly(e.target.checked)}
+          className="w-4 h-4 accent-indigo-600"
+        />
+        {t('audit.deletedOnly')}
+      </label>
+      <AuditTrail
+        entries={entries}
+        presentIds={presentIds}
+        showItem
+        formatCurrency={formatCurrency}
+        onRestore={onRestore}
+      />
+    </div>
+  );
+};
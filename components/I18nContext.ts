@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+import { Language, CalendarEra } from '../types';
+import { createTranslator, createFormatters, Translator, Formatters } from '../services/i18n';
+
+export interface I18n extends Formatters {
+  language: Language;
+  t: Translator;
+}
+
+export const createI18n = (language: Language, calendar: CalendarEra, currency: string): I18n => ({
+  language,
+  t: createTranslator(language),
+  ...createFormatters(language, calendar, currency),
+});
+
+// App provides this from the settings, so strings and dates follow them without
+// threading a translator through every component
+export const I18nContext = createContext<I18n>(createI18n(Language.TH, CalendarEra.BUDDHIST, 'THB'));
+
+export const useI18n = () => useContext(I18nContext);
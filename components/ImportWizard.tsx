@@ -0,0 +1,208 @@
+import React, { useState, useMemo } from 'react';
+import { Upload, AlertTriangle, Copy, CheckCircle2, X } from 'lucide-react';
+import { SaleItem, Category } from '../types';
+import { parseCsv, guessMapping, buildImportRows, IMPORT_FIELDS, ColumnMapping, ImportField } from '../services/csv';
+import { useI18n } from './I18nContext';
+
+interface ImportWizardProps {
+  existing: SaleItem[];
+  categories: Category[];
+  onImport: (items: SaleItem[]) => void;
+  onCancel: () => void;
+}
+
+enum Step {
+  UPLOAD = 'upload',
+  MAP = 'map',
+  PREVIEW = 'preview'
+}
+
+// Rendering thousands of preview rows on a phone is slow; counts still cover every row
+const PREVIEW_LIMIT = 100;
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ existing, categories, onImport, onCancel }) => {
+  const { t, formatDate } = useI18n();
+  const [step, setStep] = useState<Step>(Step.UPLOAD);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const columnCount = useMemo(() => Math.max(0, ...rows.map(r => r.length)), [rows]);
+  const columnLabels = useMemo(() => {
+    return Array.from({ length: columnCount }, (_, i) =>
+      hasHeader && rows[0]?.[i] ? rows[0][i] : t('import.column', { index: i + 1 })
+    );
+  }, [rows, columnCount, hasHeader, t]);
+
+  const importRows = useMemo(
+    () => (step === Step.PREVIEW ? buildImportRows(rows, mapping, existing, categories, hasHeader, t) : []),
+    [step, rows, mapping, existing, categories, hasHeader, t]
+  );
+
+  const validRows = importRows.filter(r => r.item);
+  const invalidCount = importRows.length - validRows.length;
+  const duplicateCount = validRows.filter(r => r.duplicate).length;
+  const toImport = validRows.filter(r => includeDuplicates || !r.duplicate).map(r => r.item!);
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === undefined);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const parsed = parseCsv(await file.text());
+    if (parsed.length === 0) {
+      setFileError(t('import.emptyFile'));
+      return;
+    }
+    setFileError(null);
+    setRows(parsed);
+    setMapping(guessMapping(parsed[0]));
+    setStep(Step.MAP);
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4 animate-in slide-in-from-bottom duration-300">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-gray-800">{t('import.title')}</h2>
+        <button onClick={onCancel} className="p-2 bg-gray-100 rounded-full text-gray-600 hover:bg-gray-200">
+          <X size={16} />
+        </button>
+      </div>
+
+      {step === Step.UPLOAD && (
+        <div className="bg-white p-5 rounded-xl shadow-sm space-y-3">
+          <p className="text-sm text-gray-600">
+            {t('import.pickHint')}
+          </p>
+          <label className="flex flex-col items-center justify-center gap-2 border-2 border-dashed border-indigo-200 rounded-xl py-8 text-indigo-600 cursor-pointer hover:bg-indigo-50">
+            <Upload size={28} />
+            <span className="font-medium">{t('import.pickFile')}</span>
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+          </label>
+          {fileError && <p className="text-sm text-red-500">{fileError}</p>}
+        </div>
+      )}
+
+      {step === Step.MAP && (
+        <div className="bg-white p-5 rounded-xl shadow-sm space-y-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+            {t('import.hasHeader')}
+          </label>
+
+          {IMPORT_FIELDS.map(({ field, required }) => (
+            <div key={field} className="flex items-center justify-between gap-3">
+              <span className="text-sm font-medium text-gray-700">
+                {t(`importField.${field}`)}{required && <span className="text-red-500"> *</span>}
+              </span>
+              <select
+                value={mapping[field] ?? ''}
+                onChange={(e) => handleMappingChange(field, e.target.value)}
+                className="w-1/2 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+              >
+                <option value="">{t('import.skipColumn')}</option>
+                {columnLabels.map((name, i) => (
+                  <option key={i} value={i}>{name}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+
+          {missingRequired.length > 0 && (
+            <p className="text-xs text-red-500">
+              {t('import.missingColumns', { fields: missingRequired.map(f => t(`importField.${f.field}`)).join(', ') })}
+            </p>
+          )}
+
+          <button
+            disabled={missingRequired.length > 0}
+            onClick={() => setStep(Step.PREVIEW)}
+            className="w-full py-3 bg-indigo-600 text-white rounded-xl font-bold disabled:opacity-40"
+          >
+            {t('import.check')}
+          </button>
+        </div>
+      )}
+
+      {step === Step.PREVIEW && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-3 gap-2 text-center text-sm">
+            <div className="bg-green-50 text-green-700 rounded-lg p-2">
+              <span className="block text-lg font-bold">{validRows.length - duplicateCount}</span>{t('import.new')}
+            </div>
+            <div className="bg-amber-50 text-amber-700 rounded-lg p-2">
+              <span className="block text-lg font-bold">{duplicateCount}</span>{t('import.duplicates')}
+            </div>
+            <div className="bg-red-50 text-red-600 rounded-lg p-2">
+              <span className="block text-lg font-bold">{invalidCount}</span>{t('import.invalid')}
+            </div>
+          </div>
+
+          {duplicateCount > 0 && (
+            <label className="flex items-center gap-2 text-sm text-gray-700 bg-white p-3 rounded-lg shadow-sm">
+              <input type="checkbox" checked={includeDuplicates} onChange={(e) => setIncludeDuplicates(e.target.checked)} />
+              {t('import.includeDuplicates')}
+            </label>
+          )}
+
+          <div className="bg-white rounded-xl shadow-sm divide-y">
+            {importRows.slice(0, PREVIEW_LIMIT).map(row => (
+              <div key={row.rowNumber} className="p-3 text-sm flex items-start gap-2">
+                {row.errors.length > 0 ? (
+                  <AlertTriangle size={16} className="text-red-500 mt-0.5 shrink-0" />
+                ) : row.duplicate ? (
+                  <Copy size={16} className="text-amber-500 mt-0.5 shrink-0" />
+                ) : (
+                  <CheckCircle2 size={16} className="text-green-500 mt-0.5 shrink-0" />
+                )}
+                <div className="flex-1">
+                  <span className="text-gray-400 text-xs">{t('import.row', { row: row.rowNumber })}</span>
+                  {row.item ? (
+                    <p className="text-gray-800">
+                      {row.item.brand} {row.item.model}
+                      <span className="text-gray-400"> · {formatDate(row.item.date ?? row.item.purchaseDate)}</span>
+                    </p>
+                  ) : (
+                    <p className="text-red-500">{row.errors.join(', ')}</p>
+                  )}
+                  {row.warnings.length > 0 && (
+                    <p className="text-amber-600 text-xs">{row.warnings.join(', ')}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+            {importRows.length > PREVIEW_LIMIT && (
+              <p className="p-3 text-xs text-gray-400 text-center">{t('import.moreRows', { count: importRows.length - PREVIEW_LIMIT })}</p>
+            )}
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={() => setStep(Step.MAP)}
+              className="flex-1 py-3 border border-gray-300 text-gray-700 rounded-xl font-medium hover:bg-gray-50"
+            >
+              {t('common.back')}
+            </button>
+            <button
+              disabled={toImport.length === 0}
+              onClick={() => onImport(toImport)}
+              className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-bold disabled:opacity-40"
+            >
+              {t('import.submit', { count: toImport.length })}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useState, useMemo } from 'react';
+import { Printer } from 'lucide-react';
+import { SaleItem, ItemStatus, Category, ShopDetails } from '../types';
+import { buildMonthlyReport } from '../services/analytics';
+import { buildMonthlyReportHtml, printDocument } from '../services/documents';
+import { useI18n } from './I18nContext';
+
+interface MonthlyReportCardProps {
+  sales: SaleItem[];
+  categories: Category[];
+  shop: ShopDetails;
+  formatCurrency: (amount: number) => string;
+}
+
+export const MonthlyReportCard: React.FC<MonthlyReportCardProps> = ({ sales, categories, shop, formatCurrency }) => {
+  const i18n = useI18n();
+  const { t, formatMonth } = i18n;
+
+  // Months with at least one sale, newest first
+  const months = useMemo(() => {
+    const sold = sales.filter(item => item.status === ItemStatus.SOLD && item.date).map(item => item.date!.substring(0, 7));
+    return Array.from(new Set(sold)).sort().reverse();
+  }, [sales]);
+
+  const [selected, setSelected] = useState('');
+  const month = months.includes(selected) ? selected : months[0];
+  const report = useMemo(() => (month ? buildMonthlyReport(sales, month, categories) : null), [sales, month, categories]);
+
+  const handlePrint = () => {
+    if (report) printDocument(buildMonthlyReportHtml(report, shop, new Date().toISOString(), t, i18n));
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm space-y-3">
+      <h3 className="font-bold text-gray-700">{t('report.title')}</h3>
+      {!report ? (
+        <p className="text-sm text-gray-400">{t('report.noMonths')}</p>
+      ) : (
+        <>
+          <div className="flex gap-2 items-center">
+            <select
+              value={month}
+              onChange={(e) => setSelected(e.target.value)}
+              aria-label={t('report.month')}
+              className="flex-1 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+            >
+              {months.map(m => <option key={m} value={m}>{formatMonth(m)}</option>)}
+            </select>
+            <button
+              onClick={handlePrint}
+              className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium flex items-center gap-1 hover:bg-indigo-700"
+            >
+              <Printer size={16} /> {t('report.print')}
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-center text-xs bg-gray-50 p-2 rounded-lg">
+            <div>
+              <span className="text-gray-500 block">{t('report.itemsSold')}</span>
+              <span className="font-medium text-sm">{report.stats.count}</span>
+            </div>
+            <div>
+              <span className="text-gray-500 block">{t('report.revenue')}</span>
+              <span className="font-medium text-sm">{formatCurrency(report.stats.totalRevenue)}</span>
+            </div>
+            <div>
+              <span className="text-gray-500 block">{t('report.profit')}</span>
+              <span className={`font-medium text-sm ${report.stats.totalProfit >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+                {formatCurrency(report.stats.totalProfit)}
+              </span>
+            </div>
+          </div>
+          <p className="text-xs text-gray-400">{t('report.printHint')}</p>
+        </>
+      )}
+    </div>
+  );
+};
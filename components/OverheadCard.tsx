@@ -0,0 +1,43 @@
+import React from 'react';
+import { Wallet } from 'lucide-react';
+import { OverheadSummary } from '../types';
+import { useI18n } from './I18nContext';
+
+interface OverheadCardProps {
+  summary: OverheadSummary;
+  narrowed: boolean; // Filtered by more than the date, which overhead can't follow
+  formatCurrency: (amount: number) => string;
+  onManage: () => void;
+}
+
+export const OverheadCard: React.FC<OverheadCardProps> = ({ summary, narrowed, formatCurrency, onManage }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm space-y-2">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold text-gray-700">{t('overhead.title')}</h3>
+        <button onClick={onManage} className="text-xs text-indigo-600 font-medium flex items-center gap-1 hover:text-indigo-800">
+          <Wallet size={14} /> {t('overhead.manage')}
+        </button>
+      </div>
+      <div className="text-sm space-y-1">
+        <div className="flex justify-between">
+          <span className="text-gray-500">{t('overhead.grossProfit')}</span>
+          <span className="font-medium">{formatCurrency(summary.grossProfit)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-500">{t('overhead.overhead')}</span>
+          <span className="font-medium text-red-500">−{formatCurrency(summary.overhead)}</span>
+        </div>
+        <div className="flex justify-between border-t border-gray-100 pt-1">
+          <span className="font-bold text-gray-700">{t('overhead.netProfit')}</span>
+          <span className={`font-bold text-lg ${summary.netProfit >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+            {formatCurrency(summary.netProfit)}
+          </span>
+        </div>
+      </div>
+      {narrowed && <p className="text-xs text-gray-400">{t('overhead.unfiltered')}</p>}
+    </div>
+  );
+};
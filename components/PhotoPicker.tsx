@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Camera, ImagePlus, X, Loader2 } from 'lucide-react';
+import { PhotoRecord } from '../types';
+import { compressPhoto } from '../services/photos';
+import { savePhoto } from '../services/storage';
+import { PhotoThumbnail } from './PhotoThumbnail';
+import { useI18n } from './I18nContext';
+
+interface PhotoPickerProps {
+  photoIds: string[];
+  onChange: (photoIds: string[]) => void;
+}
+
+export const PhotoPicker: React.FC<PhotoPickerProps> = ({ photoIds, onChange }) => {
+  const { t } = useI18n();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<PhotoRecord | null>(null);
+
+  // Each photo is stored as soon as it is processed, so the item only keeps ids
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const files = input.files ? Array.from<File>(input.files) : [];
+    input.value = '';
+    if (files.length === 0) return;
+
+    setBusy(true);
+    setError(null);
+    const added: string[] = [];
+    for (const file of files) {
+      try {
+        const photo = await compressPhoto(file);
+        await savePhoto(photo);
+        added.push(photo.id);
+      } catch (err) {
+        console.error("Error saving photo", err);
+        setError(t('photos.saveFailed'));
+      }
+    }
+    onChange([...photoIds, ...added]);
+    setBusy(false);
+  };
+
+  const pickerClass = 'flex-1 py-2 border border-dashed border-indigo-200 rounded-lg text-indigo-600 text-sm flex items-center justify-center gap-1 cursor-pointer hover:bg-indigo-50';
+
+  return (
+    <div className="space-y-2 pt-2">
+      <label className="text-sm font-medium text-gray-700">{t('photos.title')}</label>
+
+      {photoIds.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {photoIds.map(id => (
+            <div key={id} className="relative">
+              <PhotoThumbnail photoId={id} className="w-20 h-20" onOpen={setViewing} />
+              <button
+                type="button"
+                onClick={() => onChange(photoIds.filter(photoId => photoId !== id))}
+                className="absolute -top-1.5 -right-1.5 bg-gray-700 text-white rounded-full p-0.5"
+                title={t('photos.remove')}
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {busy ? (
+        <div className="py-2 text-sm text-gray-500 flex items-center justify-center gap-2">
+          <Loader2 size={16} className="animate-spin" /> {t('photos.compressing')}
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <label className={pickerClass}>
+            <Camera size={16} /> {t('photos.takePhoto')}
+            <input type="file" accept="image/*" capture="environment" onChange={handleFiles} className="hidden" />
+          </label>
+          <label className={pickerClass}>
+            <ImagePlus size={16} /> {t('photos.choose')}
+            <input type="file" accept="image/*" multiple onChange={handleFiles} className="hidden" />
+          </label>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {viewing && (
+        <div onClick={() => setViewing(null)} className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4">
+          <img src={viewing.image} alt="" className="max-w-full max-h-full rounded-lg" />
+          <button type="button" className="absolute top-4 right-4 text-white bg-black/40 rounded-full p-2">
+            <X size={20} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react';
+import { ImageOff } from 'lucide-react';
+import { PhotoRecord } from '../types';
+import { loadPhoto } from '../services/storage';
+import { useI18n } from './I18nContext';
+
+interface PhotoThumbnailProps {
+  photoId: string;
+  className?: string;
+  onOpen?: (photo: PhotoRecord) => void;
+}
+
+export const PhotoThumbnail: React.FC<PhotoThumbnailProps> = ({ photoId, className = 'w-14 h-14', onOpen }) => {
+  const { t } = useI18n();
+  // undefined while loading, null when the photo is not on this device
+  const [photo, setPhoto] = useState<PhotoRecord | null | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPhoto(photoId).then(loaded => {
+      if (!cancelled) setPhoto(loaded ?? null);
+    });
+    return () => { cancelled = true; };
+  }, [photoId]);
+
+  if (photo === null) {
+    return (
+      <div className={`${className} rounded-lg bg-gray-100 text-gray-300 flex items-center justify-center shrink-0`} title={t('photos.missing')}>
+        <ImageOff size={16} />
+      </div>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => photo && onOpen?.(photo)}
+      disabled={!onOpen}
+      className={`${className} rounded-lg bg-gray-100 overflow-hidden shrink-0`}
+    >
+      {photo && <img src={photo.thumbnail} alt="" className="w-full h-full object-cover" />}
+    </button>
+  );
+};
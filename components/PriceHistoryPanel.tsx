@@ -0,0 +1,59 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import { PriceHistory } from '../services/catalog';
+import { useI18n } from './I18nContext';
+
+interface PriceHistoryPanelProps {
+  history: PriceHistory;
+  formatCurrency: (amount: number) => string;
+}
+
+const RECENT_LIMIT = 5;
+
+export const PriceHistoryPanel: React.FC<PriceHistoryPanelProps> = ({ history, formatCurrency }) => {
+  const { t, formatDate } = useI18n();
+  const show = (value: number | null) => (value === null ? '—' : formatCurrency(value));
+
+  return (
+    <div className="bg-indigo-50 border border-indigo-100 rounded-lg p-3 text-sm space-y-2">
+      <p className="font-bold text-indigo-800 flex items-center gap-1">
+        <History size={16} /> {t('priceHistory.title', { count: history.entries.length })}
+      </p>
+      <div className="grid grid-cols-3 gap-2 text-center text-xs">
+        <div className="bg-white rounded-md p-1.5">
+          <span className="block text-gray-400">{t('priceHistory.avgBuy')}</span>
+          <span className="font-bold text-red-500">{show(history.avgBuy)}</span>
+        </div>
+        <div className="bg-white rounded-md p-1.5">
+          <span className="block text-gray-400">{t('priceHistory.avgSell')}</span>
+          <span className="font-bold text-green-600">{show(history.avgSell)}</span>
+        </div>
+        <div className="bg-white rounded-md p-1.5">
+          <span className="block text-gray-400">{t('priceHistory.sellRange')}</span>
+          <span className="font-bold text-gray-700">
+            {history.minSell === null ? '—' : `${formatCurrency(history.minSell)}–${formatCurrency(history.maxSell!)}`}
+          </span>
+        </div>
+      </div>
+      <div className="space-y-1">
+        {history.entries.slice(0, RECENT_LIMIT).map(({ item, buyPrice, sellPrice, profit }) => (
+          <div key={item.id} className="flex justify-between text-xs text-gray-600">
+            <span>
+              {formatDate(item.date ?? item.purchaseDate)}
+              <span className="text-gray-400"> · {t(`itemStatus.${item.status}`)}</span>
+            </span>
+            <span>
+              {t('priceHistory.buy', { amount: formatCurrency(buyPrice) })}
+              {sellPrice !== undefined && (
+                <>
+                  {' '}· {t('priceHistory.sell', { amount: formatCurrency(sellPrice) })}{' '}
+                  <span className={profit! >= 0 ? 'text-green-600' : 'text-red-500'}>({formatCurrency(profit!)})</span>
+                </>
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
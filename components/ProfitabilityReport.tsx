@@ -0,0 +1,153 @@
+import React, { useState, useMemo } from 'react';
+import { ChevronDown, ChevronUp, ChevronRight } from 'lucide-react';
+import { SaleItem, ProfitGrouping, ProfitabilityRow } from '../types';
+import { buildProfitability } from '../services/analytics';
+import { getItemProfit } from '../services/profit';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nContext';
+
+interface ProfitabilityReportProps {
+  sales: SaleItem[];
+  formatCurrency: (amount: number) => string;
+  onSelectItem: (item: SaleItem) => void;
+}
+
+type SortKey = 'label' | 'units' | 'revenue' | 'profit' | 'avgMargin' | 'lossCount';
+
+const COLUMNS: { key: SortKey; labelKey: MessageKey }[] = [
+  { key: 'units', labelKey: 'profitability.units' },
+  { key: 'revenue', labelKey: 'profitability.revenue' },
+  { key: 'profit', labelKey: 'profitability.profit' },
+  { key: 'avgMargin', labelKey: 'profitability.margin' },
+  { key: 'lossCount', labelKey: 'profitability.losses' }
+];
+
+const compareRows = (a: ProfitabilityRow, b: ProfitabilityRow, key: SortKey): number => {
+  if (key === 'label') return a.label.localeCompare(b.label);
+  // Rows without a margin rank below every real value
+  const left = a[key];
+  const right = b[key];
+  if (left === null || right === null) return left === right ? 0 : left === null ? -1 : 1;
+  return left - right;
+};
+
+export const ProfitabilityReport: React.FC<ProfitabilityReportProps> = ({ sales, formatCurrency, onSelectItem }) => {
+  const { t, formatDate } = useI18n();
+  const [grouping, setGrouping] = useState<ProfitGrouping>(ProfitGrouping.TYPE);
+  const [sortKey, setSortKey] = useState<SortKey>('profit');
+  const [descending, setDescending] = useState(true);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  const rows = useMemo(() => {
+    const sorted = buildProfitability(sales, grouping).sort((a, b) => compareRows(a, b, sortKey));
+    return descending ? sorted.reverse() : sorted;
+  }, [sales, grouping, sortKey, descending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending(prev => !prev);
+    } else {
+      setSortKey(key);
+      setDescending(key !== 'label');
+    }
+  };
+
+  const sortIndicator = (key: SortKey) =>
+    sortKey === key && (descending ? <ChevronDown size={12} /> : <ChevronUp size={12} />);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm">
+      <div className="p-4 pb-2">
+        <h3 className="font-bold text-gray-700 mb-3">{t('profitability.title')}</h3>
+        <div className="flex bg-gray-100 rounded-md p-1 text-sm">
+          {Object.values(ProfitGrouping).map(g => (
+            <button
+              key={g}
+              onClick={() => { setGrouping(g); setExpandedKey(null); }}
+              className={`flex-1 py-1 rounded ${grouping === g ? 'bg-white shadow-sm font-medium text-indigo-700' : 'text-gray-500'}`}
+            >
+              {t(`grouping.${g}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="h-32 flex items-center justify-center text-gray-400">{t('common.noSales')}</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50 text-gray-500">
+              <tr>
+                <th className="p-2 text-left">
+                  <button onClick={() => handleSort('label')} className="flex items-center gap-0.5">
+                    {t(`grouping.${grouping}`)} {sortIndicator('label')}
+                  </button>
+                </th>
+                {COLUMNS.map(col => (
+                  <th key={col.key} className="p-2 text-right">
+                    <button onClick={() => handleSort(col.key)} className="flex items-center gap-0.5 ml-auto">
+                      {t(col.labelKey)} {sortIndicator(col.key)}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {rows.map(row => (
+                <React.Fragment key={row.key}>
+                  <tr
+                    onClick={() => setExpandedKey(prev => (prev === row.key ? null : row.key))}
+                    className="cursor-pointer hover:bg-gray-50"
+                  >
+                    <td className="p-2 font-medium text-gray-800">
+                      <span className="flex items-center gap-1">
+                        {expandedKey === row.key ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                        {row.label}
+                      </span>
+                    </td>
+                    <td className="p-2 text-right">{row.units}</td>
+                    <td className="p-2 text-right">{formatCurrency(row.revenue)}</td>
+                    <td className={`p-2 text-right font-medium ${row.profit >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+                      {formatCurrency(row.profit)}
+                    </td>
+                    <td className="p-2 text-right">{row.avgMargin === null ? '—' : `${row.avgMargin.toFixed(0)}%`}</td>
+                    <td className={`p-2 text-right ${row.lossCount > 0 ? 'text-red-500 font-medium' : 'text-gray-400'}`}>
+                      {row.lossCount}
+                    </td>
+                  </tr>
+                  {expandedKey === row.key && (
+                    <tr>
+                      <td colSpan={COLUMNS.length + 1} className="bg-gray-50 p-2">
+                        <div className="space-y-1">
+                          {row.items.map(item => {
+                            const profit = getItemProfit(item);
+                            return (
+                              <button
+                                key={item.id}
+                                onClick={() => onSelectItem(item)}
+                                className="w-full flex justify-between bg-white rounded-md px-2 py-1.5 text-left hover:bg-indigo-50"
+                              >
+                                <span>
+                                  {item.brand} {item.model}
+                                  <span className="text-gray-400"> · {formatDate(item.date)}</span>
+                                </span>
+                                <span className={profit >= 0 ? 'text-green-600' : 'text-red-500'}>
+                                  {formatCurrency(profit)}
+                                </span>
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
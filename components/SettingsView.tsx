@@ -0,0 +1,272 @@
+import React from 'react';
+import { X, Merge } from 'lucide-react';
+import { AppSettings, SalesChannel, ChannelFeeRule, Category, Language, CalendarEra, ShopDetails } from '../types';
+import { CatalogBrand } from '../services/catalog';
+import { CURRENCIES } from '../services/i18n';
+import { CategoryManager } from './CategoryManager';
+import { useI18n } from './I18nContext';
+
+interface SettingsViewProps {
+  settings: AppSettings;
+  catalog: CatalogBrand[];
+  categories: Category[]; // Configured plus any found only in records
+  categoryCounts: Map<string, number>;
+  onChange: (settings: AppSettings) => void;
+  onMergeBrands: (fromKeys: string[], toName: string) => void;
+  onRenameCategory: (id: string, name: string) => boolean;
+  onMergeCategories: (fromId: string, toId: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
+export const SettingsView: React.FC<SettingsViewProps> = ({
+  settings, catalog, categories, categoryCounts, onChange, onMergeBrands, onRenameCategory, onMergeCategories, onClose
+}) => {
+  const { t } = useI18n();
+
+  const updateFee = (channel: SalesChannel, patch: Partial<ChannelFeeRule>) => {
+    onChange({
+      ...settings,
+      channelFees: {
+        ...settings.channelFees,
+        [channel]: { ...settings.channelFees[channel], ...patch }
+      }
+    });
+  };
+
+  const updateShop = (patch: Partial<ShopDetails>) => {
+    onChange({ ...settings, shop: { ...settings.shop, ...patch } });
+  };
+
+  return (
+    <div className="space-y-4 animate-in slide-in-from-bottom duration-300">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-gray-800">{t('settings.title')}</h2>
+        <button onClick={onClose} className="p-2 bg-gray-100 rounded-full text-gray-600 hover:bg-gray-200">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="bg-white p-5 rounded-xl shadow-sm space-y-3">
+        <h3 className="font-bold text-gray-700">{t('settings.display')}</h3>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">{t('settings.language')}</label>
+            <select
+              value={settings.language}
+              onChange={(e) => onChange({ ...settings, language: e.target.value as Language })}
+              className={inputClass}
+            >
+              {Object.values(Language).map(language => (
+                <option key={language} value={language}>{t(`language.${language}`)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">{t('settings.calendar')}</label>
+            <select
+              value={settings.calendar}
+              onChange={(e) => onChange({ ...settings, calendar: e.target.value as CalendarEra })}
+              className={inputClass}
+            >
+              {Object.values(CalendarEra).map(calendar => (
+                <option key={calendar} value={calendar}>{t(`calendar.${calendar}`)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">{t('settings.currency')}</label>
+          <select
+            value={settings.currency}
+            onChange={(e) => onChange({ ...settings, currency: e.target.value })}
+            className={inputClass}
+          >
+            {CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+          </select>
+          <p className="text-xs text-gray-400 mt-1">{t('settings.currencyHint')}</p>
+        </div>
+      </div>
+
+      <div className="bg-white p-5 rounded-xl shadow-sm space-y-3">
+        <div>
+          <h3 className="font-bold text-gray-700">{t('settings.goals')}</h3>
+          <p className="text-xs text-gray-400">{t('settings.goalsHint')}</p>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">{t('settings.monthlyRevenue')}</label>
+            <input
+              type="number"
+              inputMode="numeric"
+              min="0"
+              value={settings.goals.monthlyRevenue}
+              onChange={(e) => onChange({ ...settings, goals: { ...settings.goals, monthlyRevenue: Number(e.target.value) } })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">{t('settings.monthlyProfit')}</label>
+            <input
+              type="number"
+              inputMode="numeric"
+              min="0"
+              value={settings.goals.monthlyProfit}
+              onChange={(e) => onChange({ ...settings, goals: { ...settings.goals, monthlyProfit: Number(e.target.value) } })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={settings.alerts.lossMaking}
+            onChange={(e) => onChange({ ...settings, alerts: { ...settings.alerts, lossMaking: e.target.checked } })}
+            className="w-4 h-4 accent-indigo-600"
+          />
+          {t('settings.lossAlerts')}
+        </label>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">{t('settings.staleStockDays')}</label>
+          <input
+            type="number"
+            inputMode="numeric"
+            min="0"
+            value={settings.alerts.staleStockDays}
+            onChange={(e) => onChange({ ...settings, alerts: { ...settings.alerts, staleStockDays: Number(e.target.value) } })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="bg-white p-5 rounded-xl shadow-sm space-y-3">
+        <div>
+          <h3 className="font-bold text-gray-700">{t('settings.shop')}</h3>
+          <p className="text-xs text-gray-400">{t('settings.shopHint')}</p>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">{t('settings.shopName')}</label>
+          <input type="text" value={settings.shop.name} onChange={(e) => updateShop({ name: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">{t('settings.shopAddress')}</label>
+          <textarea
+            rows={2}
+            value={settings.shop.address}
+            onChange={(e) => updateShop({ address: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">{t('settings.shopPhone')}</label>
+            <input type="tel" value={settings.shop.phone} onChange={(e) => updateShop({ phone: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">{t('settings.shopTaxId')}</label>
+            <input type="text" value={settings.shop.taxId} onChange={(e) => updateShop({ taxId: e.target.value })} className={inputClass} />
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">{t('settings.warrantyNote')}</label>
+          <textarea
+            rows={2}
+            value={settings.shop.warrantyNote}
+            placeholder={t('settings.warrantyNotePlaceholder')}
+            onChange={(e) => updateShop({ warrantyNote: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="bg-white p-5 rounded-xl shadow-sm space-y-3">
+        <div>
+          <h3 className="font-bold text-gray-700">{t('settings.fees')}</h3>
+          <p className="text-xs text-gray-400">{t('settings.feesHint')}</p>
+        </div>
+        {Object.values(SalesChannel).map(channel => (
+          <div key={channel} className="grid grid-cols-[1fr_5rem_5rem] gap-2 items-center">
+            <span className="text-sm font-medium text-gray-700">{t(`salesChannel.${channel}`)}</span>
+            <label className="relative">
+              <input
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="0.1"
+                value={settings.channelFees[channel].percent}
+                onChange={(e) => updateFee(channel, { percent: Number(e.target.value) })}
+                className={`${inputClass} pr-6`}
+              />
+              <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-gray-400">%</span>
+            </label>
+            <label className="relative">
+              <input
+                type="number"
+                inputMode="numeric"
+                min="0"
+                value={settings.channelFees[channel].fixed}
+                onChange={(e) => updateFee(channel, { fixed: Number(e.target.value) })}
+                className={`${inputClass} pr-10`}
+              />
+              <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-gray-400">{settings.currency}</span>
+            </label>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white p-5 rounded-xl shadow-sm space-y-3">
+        <div>
+          <h3 className="font-bold text-gray-700">{t('settings.categories')}</h3>
+          <p className="text-xs text-gray-400">{t('settings.categoriesHint')}</p>
+        </div>
+        <CategoryManager
+          categories={categories}
+          counts={categoryCounts}
+          onChange={(next) => onChange({ ...settings, categories: next })}
+          onRename={onRenameCategory}
+          onMerge={onMergeCategories}
+        />
+      </div>
+
+      <div className="bg-white p-5 rounded-xl shadow-sm space-y-3">
+        <div>
+          <h3 className="font-bold text-gray-700">{t('settings.brands')}</h3>
+          <p className="text-xs text-gray-400">{t('settings.brandsHint')}</p>
+        </div>
+        {catalog.length === 0 && <p className="text-sm text-gray-400">{t('settings.noBrands')}</p>}
+        {catalog.map(brand => (
+          <div key={brand.key} className="border-b border-gray-100 pb-2 last:border-0 space-y-1">
+            <div className="flex justify-between items-center gap-2">
+              <span className="text-sm font-medium text-gray-800">
+                {brand.name} <span className="text-xs text-gray-400">({brand.count})</span>
+              </span>
+              <select
+                value=""
+                onChange={(e) => e.target.value && onMergeBrands([brand.key], e.target.value)}
+                className="text-xs p-1 border border-gray-200 rounded-md text-gray-500 max-w-[9rem]"
+              >
+                <option value="">{t('common.mergeInto')}</option>
+                {catalog.filter(other => other.key !== brand.key).map(other => (
+                  <option key={other.key} value={other.name}>{other.name}</option>
+                ))}
+              </select>
+            </div>
+            {brand.spellings.length > 1 && (
+              <button
+                onClick={() => onMergeBrands([brand.key], brand.name)}
+                className="text-xs text-indigo-600 flex items-center gap-1 hover:underline"
+              >
+                <Merge size={12} />
+                {t('settings.useSpelling', {
+                  name: brand.name,
+                  others: brand.spellings.slice(1).map(spelling => `"${spelling.name}"`).join(', ')
+                })}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Cloud, CloudAlert, CloudCheck, CloudOff, CloudUpload, RefreshCw } from 'lucide-react';
+import { SyncStatus } from '../types';
+import { Translator } from '../services/i18n';
+import { useI18n } from './I18nContext';
+
+interface SyncIndicatorProps {
+  status: SyncStatus;
+  pendingCount: number;
+  conflictCount: number;
+  onClick: () => void;
+}
+
+const describe = (status: SyncStatus, pendingCount: number, conflictCount: number, t: Translator) => {
+  if (status === SyncStatus.DISABLED) return { icon: <Cloud size={20} className="opacity-60" />, title: t('sync.indicator.disabled') };
+  if (conflictCount > 0) return { icon: <CloudAlert size={20} />, title: t('sync.indicator.conflicts', { count: conflictCount }) };
+  switch (status) {
+    case SyncStatus.SYNCING:
+      return { icon: <RefreshCw size={20} className="animate-spin" />, title: t('sync.indicator.syncing') };
+    case SyncStatus.OFFLINE:
+      return { icon: <CloudOff size={20} />, title: t('sync.indicator.offline', { count: pendingCount }) };
+    case SyncStatus.ERROR:
+      return { icon: <CloudAlert size={20} />, title: t('sync.indicator.error') };
+    default:
+      return pendingCount > 0
+        ? { icon: <CloudUpload size={20} />, title: t('sync.indicator.pending', { count: pendingCount }) }
+        : { icon: <CloudCheck size={20} />, title: t('sync.indicator.synced') };
+  }
+};
+
+export const SyncIndicator: React.FC<SyncIndicatorProps> = ({ status, pendingCount, conflictCount, onClick }) => {
+  const { t } = useI18n();
+  const { icon, title } = describe(status, pendingCount, conflictCount, t);
+  const needsAttention = conflictCount > 0 || status === SyncStatus.ERROR;
+
+  return (
+    <button onClick={onClick} className="relative bg-indigo-500 rounded-lg p-1 hover:bg-indigo-400" title={title}>
+      {icon}
+      {needsAttention && (
+        <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-red-500 text-[10px] font-bold flex items-center justify-center">
+          {conflictCount > 0 ? conflictCount : '!'}
+        </span>
+      )}
+    </button>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { X, RefreshCw, AlertTriangle } from 'lucide-react';
+import { SaleItem, SyncSettings, SyncState, SyncStatus } from '../types';
+import { ConflictChoice } from '../services/sync';
+import { useI18n } from './I18nContext';
+
+interface SyncViewProps {
+  config?: SyncSettings;
+  status: SyncStatus;
+  error: string | null;
+  state: SyncState;
+  pendingCount: number;
+  onSaveConfig: (config: SyncSettings | undefined) => void;
+  onSyncNow: () => void;
+  onResolve: (id: string, choice: ConflictChoice) => void;
+  formatCurrency: (amount: number) => string;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
+const ConflictSide: React.FC<{ title: string; item: SaleItem | null; formatCurrency: (amount: number) => string }> = ({ title, item, formatCurrency }) => {
+  const { t, formatDateTime } = useI18n();
+  return (
+  <div className="flex-1 bg-gray-50 rounded-lg p-2 text-xs space-y-0.5">
+    <p className="font-bold text-gray-600">{title}</p>
+    {item ? (
+      <>
+        <p>{t(`itemStatus.${item.status}`)}</p>
+        {item.sellingPrice !== undefined && <p>{t('sync.sold', { price: formatCurrency(item.sellingPrice) })}</p>}
+        <p className="text-gray-400">{t('sync.edited', { time: formatDateTime(item.updatedAt) })}</p>
+      </>
+    ) : (
+      <p className="text-red-500">{t('sync.deleted')}</p>
+    )}
+  </div>
+  );
+};
+
+export const SyncView: React.FC<SyncViewProps> = ({
+  config,
+  status,
+  error,
+  state,
+  pendingCount,
+  onSaveConfig,
+  onSyncNow,
+  onResolve,
+  formatCurrency,
+  onClose
+}) => {
+  const { t, formatDateTime } = useI18n();
+  const [serverUrl, setServerUrl] = useState(config?.serverUrl ?? '');
+  const [token, setToken] = useState(config?.token ?? '');
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSaveConfig(serverUrl.trim() ? { serverUrl: serverUrl.trim(), token: token.trim() } : undefined);
+  };
+
+  return (
+    <div className="space-y-4 animate-in slide-in-from-bottom duration-300">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-gray-800">{t('sync.title')}</h2>
+        <button onClick={onClose} className="p-2 bg-gray-100 rounded-full text-gray-600 hover:bg-gray-200">
+          <X size={16} />
+        </button>
+      </div>
+
+      <form onSubmit={handleSave} className="bg-white p-5 rounded-xl shadow-sm space-y-3">
+        <p className="text-xs text-gray-400">
+          {t('sync.hint')}
+        </p>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('sync.serverUrl')}</label>
+          <input
+            type="url"
+            value={serverUrl}
+            onChange={(e) => setServerUrl(e.target.value)}
+            placeholder="http://192.168.1.10:8787"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('sync.token')}</label>
+          <input
+            type="password"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex gap-2">
+          <button type="submit" className="flex-1 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700">
+            {t('common.save')}
+          </button>
+          {config && (
+            <button
+              type="button"
+              onClick={() => { setServerUrl(''); setToken(''); onSaveConfig(undefined); }}
+              className="py-2 px-4 bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200"
+            >
+              {t('sync.disable')}
+            </button>
+          )}
+        </div>
+      </form>
+
+      {config && (
+        <div className="bg-white p-5 rounded-xl shadow-sm space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-500">{t('sync.status')}</span>
+            <span className="font-medium">{t(`syncStatus.${status}`)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">{t('sync.pending')}</span>
+            <span className="font-medium">{t('common.items', { count: pendingCount })}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">{t('sync.lastSynced')}</span>
+            <span className="font-medium">{formatDateTime(state.lastSyncedAt)}</span>
+          </div>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <button
+            onClick={onSyncNow}
+            disabled={status === SyncStatus.SYNCING}
+            className="w-full py-2 bg-indigo-50 text-indigo-700 rounded-lg font-medium flex items-center justify-center gap-2 hover:bg-indigo-100 disabled:opacity-50"
+          >
+            <RefreshCw size={16} className={status === SyncStatus.SYNCING ? 'animate-spin' : ''} /> {t('sync.syncNow')}
+          </button>
+        </div>
+      )}
+
+      {state.conflicts.length > 0 && (
+        <div className="bg-white p-5 rounded-xl shadow-sm space-y-3">
+          <div className="flex items-center gap-2 text-amber-700">
+            <AlertTriangle size={18} />
+            <h3 className="font-bold">{t('sync.conflicts', { count: state.conflicts.length })}</h3>
+          </div>
+          <p className="text-xs text-gray-400">{t('sync.conflictsHint')}</p>
+          {state.conflicts.map(conflict => {
+            const item = conflict.local ?? conflict.remote;
+            return (
+              <div key={conflict.id} className="border border-gray-100 rounded-lg p-3 space-y-2">
+                <p className="font-medium text-gray-800">{item ? `${item.brand} ${item.model}` : conflict.id}</p>
+                <div className="flex gap-2">
+                  <ConflictSide title={t('sync.thisDevice')} item={conflict.local} formatCurrency={formatCurrency} />
+                  <ConflictSide title={t('sync.otherDevice')} item={conflict.remote} formatCurrency={formatCurrency} />
+                </div>
+                <div className="flex gap-2 text-sm">
+                  <button
+                    onClick={() => onResolve(conflict.id, 'local')}
+                    className="flex-1 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
+                  >
+                    {t('sync.keepLocal')}
+                  </button>
+                  <button
+                    onClick={() => onResolve(conflict.id, 'remote')}
+                    className="flex-1 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+                  >
+                    {t('sync.keepRemote')}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { addTags, removeTag, hasTag } from '../services/tags';
+import { useI18n } from './I18nContext';
+
+interface TagInputProps {
+  tags: string[];
+  suggestions: string[]; // Tags already used on other items, most used first
+  onChange: (tags: string[]) => void;
+}
+
+export const TagInput: React.FC<TagInputProps> = ({ tags, suggestions, onChange }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState('');
+
+  const commit = () => {
+    const next = addTags(tags, draft);
+    if (next !== tags) onChange(next);
+    setDraft('');
+  };
+
+  // Enter and comma finish a tag; backspace on an empty box takes the last one back
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      commit();
+    } else if (e.key === 'Backspace' && draft === '' && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 p-2 border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-indigo-500">
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-0.5 text-xs bg-indigo-50 text-indigo-700 pl-2 pr-1 py-0.5 rounded-full">
+          {tag}
+          <button
+            type="button"
+            onClick={() => onChange(removeTag(tags, tag))}
+            className="p-0.5 rounded-full hover:bg-indigo-100"
+            title={t('form.removeTag', { tag })}
+          >
+            <X size={10} />
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        list="tag-options"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={commit}
+        placeholder={tags.length === 0 ? t('form.tagsPlaceholder') : ''}
+        aria-label={t('form.tags')}
+        className="flex-1 min-w-[8rem] text-sm focus:outline-none"
+      />
+      <datalist id="tag-options">
+        {suggestions.filter(tag => !hasTag({ tags }, tag)).map(tag => <option key={tag} value={tag} />)}
+      </datalist>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React from 'react';
+import { ArrowUpRight, ArrowDownRight } from 'lucide-react';
+import {
+  ComposedChart,
+  LineChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  Legend
+} from 'recharts';
+import { MonthlyTrend } from '../types';
+import { useI18n } from './I18nContext';
+
+interface TrendsSectionProps {
+  trends: MonthlyTrend[];
+  formatCurrency: (amount: number) => string;
+}
+
+const ChangeBadge: React.FC<{ label: string; value: number | null }> = ({ label, value }) => {
+  if (value === null) {
+    return <span className="text-xs text-gray-400">{label} —</span>;
+  }
+  const positive = value >= 0;
+  return (
+    <span className={`text-xs font-medium flex items-center justify-end ${positive ? 'text-green-600' : 'text-red-500'}`}>
+      {label} {positive ? <ArrowUpRight size={14} /> : <ArrowDownRight size={14} />}
+      {Math.abs(value).toFixed(0)}%
+    </span>
+  );
+};
+
+export const TrendsSection: React.FC<TrendsSectionProps> = ({ trends, formatCurrency }) => {
+  const { t, locale, formatMonth } = useI18n();
+
+  if (trends.length === 0) {
+    return (
+      <div className="bg-white p-4 rounded-xl shadow-sm h-48 flex items-center justify-center text-gray-400">
+        {t('trends.empty')}
+      </div>
+    );
+  }
+
+  const latest = trends[trends.length - 1];
+  // Short axis labels: 120000 -> 120k
+  const compactNumber = (value: number) =>
+    new Intl.NumberFormat(locale, { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+  const tooltipFormatter = (value: number, name: string) =>
+    [name === t('trends.margin') ? `${value.toFixed(1)}%` : formatCurrency(value), name];
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-4 rounded-xl shadow-sm">
+        <div className="flex justify-between items-start mb-3">
+          <div>
+            <h3 className="font-bold text-gray-700">{t('trends.title')}</h3>
+            <p className="text-xs text-gray-400">{t('trends.latest', { month: formatMonth(latest.month) })}</p>
+          </div>
+          <div className="text-right">
+            <p className={`font-bold ${latest.profit >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+              {formatCurrency(latest.profit)}
+            </p>
+            <div className="flex gap-2 justify-end">
+              <ChangeBadge label="MoM" value={latest.profitChangeMoM} />
+              <ChangeBadge label="YoY" value={latest.profitChangeYoY} />
+            </div>
+          </div>
+        </div>
+
+        <div className="h-64 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={trends} margin={{ top: 5, right: 5, left: -15, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="month" tick={{ fontSize: 10 }} tickFormatter={formatMonth} />
+              <YAxis tick={{ fontSize: 10 }} tickFormatter={compactNumber} />
+              <RechartsTooltip formatter={tooltipFormatter} />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Bar dataKey="revenue" name={t('trends.revenue')} fill="#6366f1" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="cost" name={t('trends.cost')} fill="#f87171" radius={[4, 4, 0, 0]} />
+              <Line type="monotone" dataKey="profit" name={t('trends.profit')} stroke="#16a34a" strokeWidth={2} dot={{ r: 3 }} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-white p-4 rounded-xl shadow-sm">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="font-bold text-gray-700">{t('trends.margin')}</h3>
+          <span className="text-xs text-gray-500">
+            {t('trends.avgProfit', { amount: latest.avgProfit === null ? '—' : formatCurrency(latest.avgProfit) })}
+          </span>
+        </div>
+        <div className="h-48 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={trends} margin={{ top: 5, right: 5, left: -15, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="month" tick={{ fontSize: 10 }} tickFormatter={formatMonth} />
+              <YAxis tick={{ fontSize: 10 }} unit="%" />
+              <RechartsTooltip formatter={tooltipFormatter} />
+              <Line type="monotone" dataKey="margin" name={t('trends.margin')} stroke="#f59e0b" strokeWidth={2} connectNulls dot={{ r: 3 }} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-50 text-gray-500">
+            <tr>
+              <th className="p-2 text-left">{t('trends.month')}</th>
+              <th className="p-2 text-right">{t('trends.units')}</th>
+              <th className="p-2 text-right">{t('trends.profit')}</th>
+              <th className="p-2 text-right">{t('trends.marginShort')}</th>
+              <th className="p-2 text-right">{t('trends.avgPerUnit')}</th>
+              <th className="p-2 text-right">MoM</th>
+              <th className="p-2 text-right">YoY</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {[...trends].reverse().map(trend => (
+              <tr key={trend.month}>
+                <td className="p-2">{formatMonth(trend.month)}</td>
+                <td className="p-2 text-right">{trend.count}</td>
+                <td className={`p-2 text-right font-medium ${trend.profit >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+                  {formatCurrency(trend.profit)}
+                </td>
+                <td className="p-2 text-right">{trend.margin === null ? '—' : `${trend.margin.toFixed(0)}%`}</td>
+                <td className="p-2 text-right">{trend.avgProfit === null ? '—' : formatCurrency(trend.avgProfit)}</td>
+                <td className="p-2 text-right"><ChangeBadge label="" value={trend.profitChangeMoM} /></td>
+                <td className="p-2 text-right"><ChangeBadge label="" value={trend.profitChangeYoY} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import React, { useEffect } from 'react';
+import { Undo2, X } from 'lucide-react';
+import { useI18n } from './I18nContext';
+
+interface UndoSnackbarProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+export const UndoSnackbar: React.FC<UndoSnackbarProps> = ({ message, onUndo, onDismiss, durationMs = 6000 }) => {
+  const { t } = useI18n();
+
+  // The parent keys each action, so a repeated one remounts this and starts the countdown over
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, durationMs);
+    return () => window.clearTimeout(timer);
+  }, [onDismiss, durationMs]);
+
+  return (
+    <div className="fixed bottom-20 left-1/2 -translate-x-1/2 w-[calc(100%-2rem)] max-w-[calc(28rem-2rem)] bg-gray-800 text-white rounded-xl shadow-xl px-4 py-3 flex items-center gap-3 z-40 animate-in slide-in-from-bottom duration-200">
+      <span className="flex-1 text-sm">{message}</span>
+      <button onClick={onUndo} className="flex items-center gap-1 text-amber-300 font-bold text-sm">
+        <Undo2 size={16} /> {t('undo.undo')}
+      </button>
+      <button onClick={onDismiss} className="text-gray-400 hover:text-white">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { WarrantyStatus, SaleItem } from '../types';
+import { useI18n } from './I18nContext';
+
+interface WarrantyCardProps {
+  warranties: WarrantyStatus[]; // Soonest to expire first
+  onSelectItem: (item: SaleItem) => void;
+}
+
+const COLLAPSED_COUNT = 3;
+
+// Close enough to the end that a buyer with a problem is likely to call now
+const EXPIRING_DAYS = 3;
+
+export const WarrantyCard: React.FC<WarrantyCardProps> = ({ warranties, onSelectItem }) => {
+  const { t, formatDate } = useI18n();
+  const [expanded, setExpanded] = useState(false);
+  const shown = expanded ? warranties : warranties.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-3 space-y-2">
+      <h3 className="font-bold text-gray-700 text-sm flex items-center gap-1">
+        <ShieldCheck size={16} className="text-indigo-500" /> {t('warranty.title', { count: warranties.length })}
+      </h3>
+      {shown.map(({ item, endsOn, daysLeft }) => (
+        <button
+          key={item.id}
+          onClick={() => onSelectItem(item)}
+          className="w-full flex items-center gap-2 text-left text-sm border-b border-gray-100 pb-1.5 last:border-0"
+        >
+          <div className="flex-1 min-w-0">
+            <span className="block truncate font-medium text-gray-800">{item.brand} {item.model}</span>
+            <span className="text-xs text-gray-400">
+              {t('warranty.until', { date: formatDate(endsOn) })}
+              {item.buyerName && ` · ${item.buyerName}`}
+            </span>
+          </div>
+          <span className={`text-xs font-semibold shrink-0 ${daysLeft <= EXPIRING_DAYS ? 'text-amber-600' : 'text-gray-500'}`}>
+            {daysLeft === 0 ? t('warranty.lastDay') : t('warranty.daysLeft', { days: daysLeft })}
+          </span>
+        </button>
+      ))}
+      {warranties.length > COLLAPSED_COUNT && (
+        <button onClick={() => setExpanded(prev => !prev)} className="text-xs text-indigo-600 font-medium hover:underline">
+          {expanded ? t('alerts.showLess') : t('alerts.showAll')}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,536 @@
+import { th } from './th';
+
+export const en: Record<keyof typeof th, string> = {
+  'app.tagline': 'Second-hand audio sales manager',
+  'app.offline': 'Offline',
+  'app.offlineHint': 'Data is still saved on this device',
+  'app.loadError': 'Could not load your data. Changes will not be saved until the app is reopened.',
+  'app.readOnly': 'This data was saved by a newer version of the app, so it is open read-only. Changes will not be saved until the app is updated.',
+  'app.quarantine': '{count} unreadable records were set aside instead of being deleted',
+  'app.clearQuarantine': 'Clear',
+  'app.confirmClearQuarantine': 'Permanently delete the unreadable data? Download a copy first.',
+
+  'nav.dashboard': 'Overview',
+  'nav.list': 'Sales',
+  'nav.stock': 'Stock',
+  'nav.analysis': 'Analysis',
+
+  'common.save': 'Save',
+  'common.cancel': 'Cancel',
+  'common.back': 'Back',
+  'common.add': 'Add',
+  'common.download': 'Download',
+  'common.unspecified': 'Not specified',
+  'common.mergeInto': 'Merge into...',
+  'common.items': '{count} items',
+  'common.units': '{count} pcs',
+  'common.noSales': 'No sales data',
+  'common.totalCost': 'Total cost',
+
+  'itemStatus.purchased': 'Purchased',
+  'itemStatus.listed': 'Listed',
+  'itemStatus.reserved': 'Reserved',
+  'itemStatus.sold': 'Sold',
+  'itemStatus.returned': 'Returned',
+
+  'salesChannel.facebook': 'Facebook Marketplace',
+  'salesChannel.shopee': 'Shopee',
+  'salesChannel.kaidee': 'Kaidee',
+  'salesChannel.in_person': 'In person / meet-up',
+  'salesChannel.other': 'Other',
+
+  'paymentMethod.cash': 'Cash',
+  'paymentMethod.transfer': 'Transfer / PromptPay',
+  'paymentMethod.cod': 'Cash on delivery',
+  'paymentMethod.card': 'Card',
+
+  'paymentStatus.paid': 'Paid',
+  'paymentStatus.deposit': 'Deposit',
+  'paymentStatus.pending_cod': 'Awaiting COD',
+
+  'costCategory.purchase': 'Purchase price',
+  'costCategory.shipping': 'Shipping',
+  'costCategory.repair': 'Repairs / parts',
+  'costCategory.cleaning': 'Cleaning',
+  'costCategory.platform_fee': 'Platform fees',
+  'costCategory.packaging': 'Packaging',
+  'costCategory.import_duty': 'Import duty',
+  'costCategory.travel': 'Pick-up travel',
+  'costCategory.other': 'Other',
+
+  'dateRange.all': 'All time',
+  'dateRange.week': 'This week',
+  'dateRange.30d': 'Last 30 days',
+  'dateRange.month': 'By month',
+  'dateRange.quarter': 'This quarter',
+  'dateRange.year': 'This year',
+  'dateRange.custom': 'Custom',
+
+  'outcome.all': 'All',
+  'outcome.profit': 'Profit',
+  'outcome.loss': 'Loss',
+
+  'grouping.type': 'Type',
+  'grouping.brand': 'Brand',
+  'grouping.brandModel': 'Brand + model',
+
+  'syncStatus.disabled': 'Off',
+  'syncStatus.idle': 'Ready',
+  'syncStatus.syncing': 'Syncing',
+  'syncStatus.offline': 'Unreachable',
+  'syncStatus.error': 'Error',
+
+  'language.th': 'ไทย',
+  'language.en': 'English',
+
+  'calendar.buddhist': 'Buddhist era (BE)',
+  'calendar.gregorian': 'Gregorian (AD)',
+
+  'dashboard.revenue': 'Total sales',
+  'dashboard.profit': 'Gross profit',
+  'dashboard.inventory': 'Capital in stock ({count} pcs)',
+  'dashboard.byCategory': 'Best sellers by type',
+  'dashboard.quantity': 'Quantity',
+
+  'goals.title': 'Targets for {month}',
+  'goals.revenue': 'Revenue',
+  'goals.profit': 'Profit',
+  'goals.of': '{actual} of {target}',
+  'goals.projected': 'On pace for {amount}',
+  'goals.dayOf': 'Day {day} of {days}',
+  'goals.noTargets': 'No monthly revenue or profit targets set',
+  'goals.setTargets': 'Set targets',
+
+  'alerts.title': 'Alerts ({count})',
+  'alerts.loss': 'Sold at a loss of {amount}',
+  'alerts.staleStock': 'In stock for {days} days',
+  'alerts.dismiss': 'Dismiss',
+  'alerts.showAll': 'Show all',
+  'alerts.showLess': 'Show less',
+
+  'warranty.title': 'Under warranty ({count})',
+  'warranty.until': 'until {date}',
+  'warranty.daysLeft': '{days} days left',
+  'warranty.lastDay': 'Last day',
+
+  'afterSales.title': 'After-sales',
+  'afterSales.open': 'Return / refund / repair',
+  'afterSales.empty': 'No returns, refunds or repairs yet',
+  'afterSales.kind': 'Type',
+  'afterSales.date': 'Date',
+  'afterSales.amount': 'Amount',
+  'afterSales.note': 'Note',
+  'afterSales.add': 'Record',
+  'afterSales.remove': 'Remove this entry',
+  'afterSales.returnHint': 'The item goes back into stock as a new record with its original costs',
+  'afterSales.returnLocked': "The returned item has been sold again, so this return can't be removed",
+  'afterSales.dateRequired': 'Enter a date',
+  'afterSales.amountRequired': 'Enter a valid amount',
+  'afterSales.refundTooHigh': "Refunds can't add up to more than the selling price",
+
+  'afterSalesKind.return': 'Return',
+  'afterSalesKind.refund': 'Partial refund',
+  'afterSalesKind.repair': 'Warranty repair',
+
+  'audit.title': 'Edit history',
+  'audit.hint': 'Every add, edit and delete made on this device. Put an item back the way it was before a change.',
+  'audit.itemTitle': 'History of this item',
+  'audit.empty': 'No changes recorded yet',
+  'audit.deletedOnly': 'Deleted items only',
+  'audit.details': 'Show saved details',
+  'audit.restoreDeleted': 'Restore item',
+  'audit.restoreVersion': 'Go back to before this edit',
+  'audit.itemExists': 'This item is back in the list',
+  'audit.fromSync': 'from another device',
+  'audit.confirmRestore': 'Replace the current details of {item} with how they were before this edit?',
+  'audit.photos': '{count} photos',
+  'audit.events': '{count} entries',
+
+  'auditAction.create': 'Added',
+  'auditAction.update': 'Edited',
+  'auditAction.delete': 'Deleted',
+
+  'auditField.id': 'Record ID',
+  'auditField.brand': 'Brand',
+  'auditField.type': 'Type',
+  'auditField.model': 'Model',
+  'auditField.status': 'Status',
+  'auditField.purchaseDate': 'Purchase date',
+  'auditField.costs': 'Costs',
+  'auditField.purchaseCurrency': 'Purchase currency',
+  'auditField.exchangeRate': 'Exchange rate',
+  'auditField.sellingPrice': 'Selling price',
+  'auditField.date': 'Sale date',
+  'auditField.channel': 'Sales channel',
+  'auditField.channelFee': 'Channel fee',
+  'auditField.buyerName': 'Buyer',
+  'auditField.buyerContact': 'Contact',
+  'auditField.paymentMethod': 'Payment method',
+  'auditField.paymentStatus': 'Payment status',
+  'auditField.depositAmount': 'Deposit',
+  'auditField.warrantyDays': 'Warranty (days)',
+  'auditField.afterSales': 'After-sales',
+  'auditField.returnOf': 'Returned from sale',
+  'auditField.note': 'Note',
+  'auditField.tags': 'Tags',
+  'auditField.photoIds': 'Photos',
+  'auditField.updatedAt': 'Last changed',
+
+  'overhead.title': 'Profit after overhead',
+  'overhead.grossProfit': 'Gross profit from sales',
+  'overhead.overhead': 'Overhead',
+  'overhead.netProfit': 'Net profit',
+  'overhead.unfiltered': "Overhead isn't split by type or brand, so the whole period's overhead is deducted",
+  'overhead.manage': 'Manage expenses',
+
+  'expenses.title': 'Business expenses',
+  'expenses.description': 'Costs not tied to one item, such as ads, fair booths or storage rent',
+  'expenses.add': 'Add expense',
+  'expenses.edit': 'Edit expense',
+  'expenses.date': 'Date',
+  'expenses.category': 'Category',
+  'expenses.amount': 'Amount',
+  'expenses.note': 'Note',
+  'expenses.notePlaceholder': 'e.g. booth at the audio show',
+  'expenses.recurrence': 'Repeats',
+  'expenses.once': 'Once',
+  'expenses.endDate': 'Ends (optional)',
+  'expenses.until': 'until {date}',
+  'expenses.thisMonth': 'This month {amount}',
+  'expenses.empty': 'No expenses yet',
+  'expenses.confirmDelete': 'Delete this expense? Every past occurrence goes with it.',
+  'expenses.amountRequired': 'Enter an amount above 0',
+  'expenses.dateRequired': 'Enter a date',
+  'expenses.endBeforeStart': "The end date can't be before the start",
+
+  'expenseCategory.advertising': 'Advertising',
+  'expenseCategory.event': 'Fairs and booths',
+  'expenseCategory.tools': 'Tools and equipment',
+  'expenseCategory.rent': 'Rent and storage',
+  'expenseCategory.subscription': 'Subscriptions',
+  'expenseCategory.utilities': 'Utilities and internet',
+  'expenseCategory.other': 'Other',
+
+  'recurrence.monthly': 'Monthly',
+  'recurrence.yearly': 'Yearly',
+
+  'list.title': 'Sales ({count})',
+  'list.select': 'Select multiple',
+  'list.import': 'Import CSV',
+  'list.export': 'Export CSV',
+  'list.edit': 'Edit',
+  'list.delete': 'Delete',
+  'list.noMatches': 'No sales match the filter',
+  'list.empty': 'No sales yet',
+  'list.addFirst': '+ Add your first item',
+  'list.sellingPrice': 'Selling price',
+  'list.netProfit': 'Net profit',
+  'list.returned': 'Returned',
+  'list.refunded': 'Refunded {amount}',
+  'list.repairCost': 'Repairs {amount}',
+  'list.warrantyUntil': 'Warranty until {date}',
+  'list.netProfitAfterFee': 'Net profit (after {fee} fee)',
+  'list.changedType': 'Changed type of {count} items',
+  'list.changedDate': 'Changed date of {count} items',
+  'list.history': 'Edit history',
+  'list.filterTag': 'Show items tagged {tag}',
+
+  'undo.undo': 'Undo',
+  'undo.deleted': 'Item deleted',
+  'undo.deletedMany': '{count} items deleted',
+  'undo.mergedBrands': 'Renamed {count} items to {brand}',
+  'undo.afterSalesRemoved': '{kind} removed',
+  'undo.mergedCategories': 'Moved {count} items from {from} to {to}',
+
+  'stock.title': 'In stock ({count})',
+  'stock.empty': 'Nothing in stock',
+  'stock.age': 'Bought {date} · {days} days in stock',
+  'stock.markSold': 'Record sale',
+
+  'form.addTitle': 'Add item',
+  'form.editTitle': 'Edit item',
+  'form.status': 'Status',
+  'form.purchaseDate': 'Purchase date',
+  'form.saleDate': 'Sale date',
+  'form.type': 'Type',
+  'form.brand': 'Brand',
+  'form.brandPlaceholder': 'e.g. Sony, Bose, JBL',
+  'form.model': 'Model',
+  'form.modelPlaceholder': 'Model name',
+  'form.purchaseCurrency': 'Purchase currency',
+  'form.exchangeRate': 'Exchange rate (1 {from} = ? {to})',
+  'form.convertedPurchase': 'Purchase price comes to {amount}',
+  'form.soldPrice': 'Sold for',
+  'form.agreedPrice': 'Agreed price',
+  'form.channel': 'Sales channel',
+  'form.paymentMethod': 'Payment method',
+  'form.buyer': 'Buyer',
+  'form.buyerPlaceholder': 'Buyer name',
+  'form.contact': 'Contact',
+  'form.contactPlaceholder': 'Phone / LINE',
+  'form.paymentStatus': 'Payment status',
+  'form.deposit': 'Deposit',
+  'form.warrantyDays': 'Warranty (days)',
+  'form.note': 'Note',
+  'form.notePlaceholder': 'e.g. small mark on the lid, comes with remote',
+  'form.tags': 'Tags',
+  'form.tagsPlaceholder': 'Type a tag and press Enter',
+  'form.removeTag': 'Remove tag {tag}',
+  'form.channelFee': 'Channel fee:',
+  'form.estimatedProfit': 'Estimated profit:',
+  'form.duplicate': '{brand} {model} on {date} already exists. Make sure this is not a duplicate.',
+  'form.fixErrors': 'Fix the fields marked in red before saving',
+
+  'validation.brandRequired': 'Enter a brand',
+  'validation.modelRequired': 'Enter a model',
+  'validation.purchaseDateInvalid': 'Invalid purchase date',
+  'validation.purchaseDateFuture': 'Purchase date cannot be in the future',
+  'validation.costsInvalid': 'Costs must be numbers of 0 or more',
+  'validation.noPurchaseCost': 'No purchase price entered yet',
+  'validation.exchangeRateRequired': 'Enter an exchange rate',
+  'validation.saleDateRequired': 'Enter the sale date',
+  'validation.saleDateFuture': 'Sale date cannot be in the future',
+  'validation.saleBeforePurchase': 'Sale date cannot be before the purchase date',
+  'validation.sellingPriceRequired': 'Enter the selling price',
+  'validation.belowCost': 'Selling below cost (loss of {amount})',
+  'validation.markupTooHigh': 'Profit is over {percent}% of cost. Double-check the numbers.',
+  'validation.depositRequired': 'Enter the deposit amount',
+  'validation.depositTooHigh': 'Deposit is more than the selling price',
+
+  'costs.title': 'Costs',
+  'costs.total': 'Total costs',
+  'costs.none': 'No costs yet',
+  'costs.add': 'Add cost',
+  'costs.remove': 'Remove cost',
+
+  'photos.title': 'Condition photos',
+  'photos.takePhoto': 'Take photo',
+  'photos.choose': 'Choose photos',
+  'photos.remove': 'Remove photo',
+  'photos.compressing': 'Resizing photos...',
+  'photos.saveFailed': 'Some photos could not be saved (not an image, or the device is full)',
+  'photos.missing': 'This photo is not on this device',
+
+  'priceHistory.title': 'Traded this model {count} times before',
+  'priceHistory.avgBuy': 'Avg. buy',
+  'priceHistory.avgSell': 'Avg. sell',
+  'priceHistory.sellRange': 'Sell range',
+  'priceHistory.buy': 'Bought {amount}',
+  'priceHistory.sell': 'Sold {amount}',
+
+  'filter.period': 'Period:',
+  'filter.search': 'Search brand, model, note, tags',
+  'filter.more': 'More filters',
+  'filter.clear': 'Clear filters',
+  'filter.allTypes': 'All types',
+  'filter.allBrands': 'All brands',
+  'filter.allTags': 'All tags',
+
+  'bulk.selected': '{selected}/{total} selected',
+  'bulk.changeType': 'Change type',
+  'bulk.changeDate': 'Change sale date',
+  'bulk.export': 'Export selected',
+  'bulk.delete': 'Delete selected',
+  'bulk.pickType': 'New type for {count} items',
+  'bulk.apply': 'Apply to {count}',
+  'bulk.skipped': '{count} skipped: {reason}',
+  'bulk.noneChanged': 'No items were changed: {reason}',
+
+  'channels.title': 'Sales by channel',
+  'channels.none': 'No channel',
+  'channels.fees': 'Fees {amount}',
+  'channels.outstanding': '{count} unpaid',
+  'channels.profit': 'Profit {amount}',
+
+  'trends.title': 'Monthly trends',
+  'trends.empty': 'No trend data',
+  'trends.latest': 'Latest {month}',
+  'trends.revenue': 'Sales',
+  'trends.cost': 'Costs',
+  'trends.profit': 'Profit',
+  'trends.margin': 'Margin',
+  'trends.avgProfit': 'Avg. profit/pc {amount}',
+  'trends.month': 'Month',
+  'trends.units': 'Pcs',
+  'trends.marginShort': 'Margin',
+  'trends.avgPerUnit': 'Avg./pc',
+
+  'profitability.title': 'Profitability',
+  'profitability.units': 'Pcs',
+  'profitability.revenue': 'Sales',
+  'profitability.profit': 'Profit',
+  'profitability.margin': 'Margin',
+  'profitability.losses': 'Losses',
+
+  'import.title': 'Import data (CSV)',
+  'import.pickHint': 'Choose a .csv file saved from Excel or Google Sheets (UTF-8)',
+  'import.pickFile': 'Choose file',
+  'import.emptyFile': 'The file has no data',
+  'import.hasHeader': 'First row is a header',
+  'import.column': 'Column {index}',
+  'import.skipColumn': '— Skip —',
+  'import.missingColumns': 'Choose a column for: {fields}',
+  'import.check': 'Check data',
+  'import.new': 'New',
+  'import.duplicates': 'Duplicates',
+  'import.invalid': 'Invalid',
+  'import.includeDuplicates': 'Import duplicates too',
+  'import.row': 'Row {row}',
+  'import.moreRows': 'and {count} more rows',
+  'import.submit': 'Import {count} items',
+  'import.missingField': 'Missing {field}',
+  'import.invalidField': 'Invalid {field}',
+  'import.invalidDate': 'Invalid date ({value})',
+
+  'importField.brand': 'Brand',
+  'importField.type': 'Type',
+  'importField.model': 'Model',
+  'importField.costPrice': 'Cost price',
+  'importField.shippingCost': 'Shipping/packing',
+  'importField.otherCosts': 'Other costs',
+  'importField.channel': 'Sales channel',
+  'importField.channelFee': 'Channel fee',
+  'importField.sellingPrice': 'Selling price',
+  'importField.purchaseDate': 'Purchase date',
+  'importField.date': 'Date',
+  'importField.note': 'Note',
+  'importField.tags': 'Tags',
+
+  'backup.title': 'Backup / restore',
+  'backup.description': 'Download all {count} items with expenses, photos and settings as a JSON file',
+  'backup.lastBackup': 'Last backup: {date}',
+  'backup.never': 'never',
+  'backup.download': 'Download backup',
+  'backup.pickFile': 'Choose a backup file to restore',
+  'backup.createFailed': 'Could not create the backup file',
+  'backup.readFailed': 'Could not read the file',
+  'backup.photoRestoreFailed': 'Some photos could not be restored (the device may be full)',
+  'backup.fileSummary': 'Valid file · {count} items · {expenses} expenses · {photos} photos · {date}',
+  'backup.invalidRecords': '{count} items are incomplete or invalid. They will be restored as they are; review them afterwards.',
+  'backup.added': 'New',
+  'backup.changed': 'Changed',
+  'backup.unchanged': 'Unchanged',
+  'backup.removed': 'Removed',
+  'backup.merge': 'Merge',
+  'backup.mergeHint': '— update by item id and keep items not in the file',
+  'backup.replace': 'Replace everything',
+  'backup.replaceHint': "— use only the data and settings from the file, except this device's sync connection",
+  'backup.confirm': 'Restore',
+  'backup.error.notJson': 'The file is not valid JSON',
+  'backup.error.notBackup': 'This is not an AudioSale Pro backup',
+  'backup.error.newerVersion': 'This backup comes from a newer version of the app. Update the app first.',
+  'backup.error.countMismatch': 'Item count mismatch (expected {expected}, found {actual})',
+  'backup.error.checksum': 'The file was modified or is damaged (checksum mismatch)',
+  'backup.error.photos': 'The photo data in the file is invalid',
+  'backup.error.invalidRecords': 'Found {count} invalid items',
+
+  'sync.title': 'Multi-device sync',
+  'sync.hint': 'Uses your own sync server (the server/ folder). Every device needs the same address and token.',
+  'sync.serverUrl': 'Server address',
+  'sync.token': 'Sync token (optional)',
+  'sync.disable': 'Turn off sync',
+  'sync.status': 'Status',
+  'sync.pending': 'Waiting to send',
+  'sync.lastSynced': 'Last synced',
+  'sync.syncNow': 'Sync now',
+  'sync.conflicts': '{count} conflicts',
+  'sync.conflictsHint': 'These items were edited on this device and another one. Choose which version to keep.',
+  'sync.thisDevice': 'This device',
+  'sync.otherDevice': 'Other device',
+  'sync.keepLocal': 'Keep this device',
+  'sync.keepRemote': 'Keep other device',
+  'sync.sold': 'Sold {price}',
+  'sync.edited': 'Edited {time}',
+  'sync.deleted': 'Deleted',
+  'sync.indicator.disabled': 'Sync is not set up',
+  'sync.indicator.conflicts': '{count} conflicts',
+  'sync.indicator.syncing': 'Syncing...',
+  'sync.indicator.offline': 'Cannot reach the server, {count} waiting to send',
+  'sync.indicator.error': 'Sync failed',
+  'sync.indicator.pending': '{count} waiting to send',
+  'sync.indicator.synced': 'Synced',
+
+  'receipt.title': 'Receipt',
+  'receipt.print': 'Print receipt',
+  'receipt.number': 'No. {number}',
+  'receipt.date': 'Date {date}',
+  'receipt.taxId': 'Tax ID {taxId}',
+  'receipt.phone': 'Tel. {phone}',
+  'receipt.buyer': 'Buyer',
+  'receipt.item': 'Item',
+  'receipt.amount': 'Amount',
+  'receipt.total': 'Total',
+  'receipt.paymentMethod': 'Paid by {method}',
+  'receipt.depositPaid': 'Deposit received',
+  'receipt.balanceDue': 'Balance due',
+  'receipt.warranty': 'Warranty',
+  'receipt.warrantyPeriod': 'Warranty: {days} days, until {date}',
+  'receipt.thanks': 'Thank you for your purchase',
+  'receipt.signature': 'Received by',
+
+  'report.title': 'Monthly report',
+  'report.heading': 'Monthly report for {month}',
+  'report.month': 'Month',
+  'report.print': 'Print / save as PDF',
+  'report.printHint': 'Choose "Save as PDF" in the print dialog to send it as a file',
+  'report.generated': 'Generated {date}',
+  'report.noMonths': 'No months with sales yet',
+  'report.summary': 'Summary',
+  'report.revenue': 'Revenue',
+  'report.costOfGoods': 'Cost of goods sold',
+  'report.fees': 'Sales channel fees',
+  'report.profit': 'Net profit',
+  'report.margin': 'Margin',
+  'report.itemsSold': 'Items sold',
+  'report.stockAtMonthEnd': 'Stock at month end',
+  'report.costBreakdown': 'Costs by category',
+  'report.byCategory': 'By item type',
+  'report.sales': 'Sales',
+  'report.date': 'Date',
+  'report.item': 'Item',
+  'report.channel': 'Channel',
+  'report.units': 'Units',
+  'report.price': 'Price',
+  'report.cost': 'Cost',
+  'report.fee': 'Fee',
+  'report.itemProfit': 'Profit',
+  'report.total': 'Total',
+  'report.empty': 'No sales this month',
+
+  'settings.title': 'Settings',
+  'settings.display': 'Language & display',
+  'settings.language': 'Language',
+  'settings.calendar': 'Years',
+  'settings.currency': 'Reporting currency',
+  'settings.currencyHint': 'Used to show and total every amount. Amounts already recorded are not converted.',
+  'settings.goals': 'Targets & alerts',
+  'settings.goalsHint': 'Enter 0 for no target',
+  'settings.monthlyRevenue': 'Monthly revenue target',
+  'settings.monthlyProfit': 'Monthly profit target',
+  'settings.lossAlerts': 'Alert on loss-making sales (last 30 days)',
+  'settings.staleStockDays': 'Alert on stock held longer than (days, 0 = off)',
+  'settings.fees': 'Sales channel fees',
+  'settings.feesHint': 'Percent of the selling price plus a fixed amount per sale. Applies to sales saved from now on.',
+  'settings.categories': 'Item types',
+  'settings.categoriesHint': 'Renaming or merging a type also updates existing items. Colours are used in charts.',
+  'settings.shop': 'Shop details',
+  'settings.shopHint': 'Printed on receipts and monthly reports',
+  'settings.shopName': 'Shop name',
+  'settings.shopAddress': 'Address',
+  'settings.shopPhone': 'Phone',
+  'settings.shopTaxId': 'Tax ID (optional)',
+  'settings.warrantyNote': 'Warranty terms on receipts',
+  'settings.warrantyNotePlaceholder': 'e.g. 7-day warranty from the date of purchase, excluding damage from use',
+  'settings.brands': 'Brands',
+  'settings.brandsHint': 'Merge different spellings, or brands that are really the same one',
+  'settings.noBrands': 'No brands yet',
+  'settings.useSpelling': 'Use "{name}" instead of {others}',
+
+  'categories.nameRequired': 'Enter a type name',
+  'categories.exists': 'This type already exists',
+  'categories.color': 'Colour for {name}',
+  'categories.moveUp': 'Move up',
+  'categories.moveDown': 'Move down',
+  'categories.delete': 'Delete {name}',
+  'categories.placeholder': 'e.g. Headphones, Turntable',
+};
@@ -0,0 +1,536 @@
+// Thai is the source catalog: its keys define what every other language must translate.
+// Placeholders are written {name}; numbers passed in are formatted for the language.
+export const th = {
+  'app.tagline': 'จัดการยอดขายเครื่องเสียงมือสอง',
+  'app.offline': 'ออฟไลน์',
+  'app.offlineHint': 'ข้อมูลบันทึกในเครื่องตามปกติ',
+  'app.loadError': 'โหลดข้อมูลไม่สำเร็จ การแก้ไขจะยังไม่ถูกบันทึกจนกว่าจะเปิดแอปใหม่',
+  'app.readOnly': 'ข้อมูลนี้บันทึกโดยแอปเวอร์ชันใหม่กว่า จึงเปิดแบบอ่านอย่างเดียว การแก้ไขจะไม่ถูกบันทึกจนกว่าจะอัปเดตแอป',
+  'app.quarantine': 'พบข้อมูลที่อ่านไม่ได้ {count} ชุด ถูกแยกเก็บไว้โดยไม่ลบทิ้ง',
+  'app.clearQuarantine': 'ล้าง',
+  'app.confirmClearQuarantine': 'ลบข้อมูลที่เสียหายทิ้งถาวร? ควรดาวน์โหลดเก็บไว้ก่อน',
+
+  'nav.dashboard': 'ภาพรวม',
+  'nav.list': 'รายการ',
+  'nav.stock': 'สต็อก',
+  'nav.analysis': 'วิเคราะห์',
+
+  'common.save': 'บันทึก',
+  'common.cancel': 'ยกเลิก',
+  'common.back': 'ย้อนกลับ',
+  'common.add': 'เพิ่ม',
+  'common.download': 'ดาวน์โหลด',
+  'common.unspecified': 'ไม่ระบุ',
+  'common.mergeInto': 'รวมเข้ากับ...',
+  'common.items': '{count} รายการ',
+  'common.units': '{count} ชิ้น',
+  'common.noSales': 'ไม่มีข้อมูลการขาย',
+  'common.totalCost': 'ทุนรวม',
+
+  'itemStatus.purchased': 'ซื้อเข้า',
+  'itemStatus.listed': 'ลงขาย',
+  'itemStatus.reserved': 'ติดจอง',
+  'itemStatus.sold': 'ขายแล้ว',
+  'itemStatus.returned': 'ถูกคืน',
+
+  'salesChannel.facebook': 'Facebook Marketplace',
+  'salesChannel.shopee': 'Shopee',
+  'salesChannel.kaidee': 'Kaidee',
+  'salesChannel.in_person': 'ขายหน้าร้าน/นัดรับ',
+  'salesChannel.other': 'อื่นๆ',
+
+  'paymentMethod.cash': 'เงินสด',
+  'paymentMethod.transfer': 'โอน/พร้อมเพย์',
+  'paymentMethod.cod': 'เก็บเงินปลายทาง',
+  'paymentMethod.card': 'บัตร',
+
+  'paymentStatus.paid': 'ชำระแล้ว',
+  'paymentStatus.deposit': 'มัดจำ',
+  'paymentStatus.pending_cod': 'รอเก็บปลายทาง',
+
+  'costCategory.purchase': 'ราคาซื้อ',
+  'costCategory.shipping': 'ค่าส่ง',
+  'costCategory.repair': 'ค่าซ่อม/อะไหล่',
+  'costCategory.cleaning': 'ค่าทำความสะอาด',
+  'costCategory.platform_fee': 'ค่าธรรมเนียมแพลตฟอร์ม',
+  'costCategory.packaging': 'ค่าแพ็คสินค้า',
+  'costCategory.import_duty': 'ภาษีนำเข้า',
+  'costCategory.travel': 'ค่าเดินทางรับของ',
+  'costCategory.other': 'อื่นๆ',
+
+  'dateRange.all': 'ทั้งหมด',
+  'dateRange.week': 'สัปดาห์นี้',
+  'dateRange.30d': '30 วันล่าสุด',
+  'dateRange.month': 'รายเดือน',
+  'dateRange.quarter': 'ไตรมาสนี้',
+  'dateRange.year': 'ปีนี้',
+  'dateRange.custom': 'กำหนดเอง',
+
+  'outcome.all': 'ทั้งหมด',
+  'outcome.profit': 'กำไร',
+  'outcome.loss': 'ขาดทุน',
+
+  'grouping.type': 'ประเภท',
+  'grouping.brand': 'ยี่ห้อ',
+  'grouping.brandModel': 'ยี่ห้อ+รุ่น',
+
+  'syncStatus.disabled': 'ปิดอยู่',
+  'syncStatus.idle': 'พร้อม',
+  'syncStatus.syncing': 'กำลังซิงค์',
+  'syncStatus.offline': 'เชื่อมต่อไม่ได้',
+  'syncStatus.error': 'ผิดพลาด',
+
+  'language.th': 'ไทย',
+  'language.en': 'English',
+
+  'calendar.buddhist': 'พุทธศักราช (พ.ศ.)',
+  'calendar.gregorian': 'คริสต์ศักราช (ค.ศ.)',
+
+  'dashboard.revenue': 'ยอดขายรวม',
+  'dashboard.profit': 'กำไรขั้นต้น',
+  'dashboard.inventory': 'ทุนจมในสต็อก ({count} ชิ้น)',
+  'dashboard.byCategory': 'สินค้าขายดีแยกตามประเภท',
+  'dashboard.quantity': 'จำนวน',
+
+  'goals.title': 'เป้าหมายเดือน {month}',
+  'goals.revenue': 'ยอดขาย',
+  'goals.profit': 'กำไร',
+  'goals.of': '{actual} จาก {target}',
+  'goals.projected': 'คาดว่าสิ้นเดือน {amount}',
+  'goals.dayOf': 'วันที่ {day}/{days}',
+  'goals.noTargets': 'ยังไม่ได้ตั้งเป้ายอดขายหรือกำไรรายเดือน',
+  'goals.setTargets': 'ตั้งเป้าหมาย',
+
+  'alerts.title': 'การแจ้งเตือน ({count})',
+  'alerts.loss': 'ขาดทุน {amount}',
+  'alerts.staleStock': 'ค้างสต็อก {days} วัน',
+  'alerts.dismiss': 'ปิดการแจ้งเตือน',
+  'alerts.showAll': 'ดูทั้งหมด',
+  'alerts.showLess': 'ย่อ',
+
+  'warranty.title': 'ประกันที่ยังไม่หมด ({count})',
+  'warranty.until': 'ถึง {date}',
+  'warranty.daysLeft': 'เหลือ {days} วัน',
+  'warranty.lastDay': 'วันสุดท้าย',
+
+  'afterSales.title': 'บริการหลังการขาย',
+  'afterSales.open': 'คืนสินค้า / คืนเงิน / ซ่อม',
+  'afterSales.empty': 'ยังไม่มีการคืนสินค้า คืนเงิน หรือซ่อม',
+  'afterSales.kind': 'ประเภท',
+  'afterSales.date': 'วันที่',
+  'afterSales.amount': 'จำนวนเงิน',
+  'afterSales.note': 'หมายเหตุ',
+  'afterSales.add': 'บันทึก',
+  'afterSales.remove': 'ลบรายการนี้',
+  'afterSales.returnHint': 'สินค้าจะกลับเข้าสต็อกเป็นรายการใหม่พร้อมต้นทุนเดิม',
+  'afterSales.returnLocked': 'ของที่คืนมาขายออกไปแล้ว จึงลบการคืนนี้ไม่ได้',
+  'afterSales.dateRequired': 'ใส่วันที่',
+  'afterSales.amountRequired': 'ใส่จำนวนเงินให้ถูกต้อง',
+  'afterSales.refundTooHigh': 'ยอดคืนเงินรวมเกินราคาที่ขายได้',
+
+  'afterSalesKind.return': 'คืนสินค้า',
+  'afterSalesKind.refund': 'คืนเงินบางส่วน',
+  'afterSalesKind.repair': 'ซ่อมในประกัน',
+
+  'audit.title': 'ประวัติการแก้ไข',
+  'audit.hint': 'การเพิ่ม แก้ไข และลบทุกครั้งบนเครื่องนี้ กู้คืนรายการให้กลับเป็นเหมือนก่อนการเปลี่ยนแปลงได้',
+  'audit.itemTitle': 'ประวัติของรายการนี้',
+  'audit.empty': 'ยังไม่มีการเปลี่ยนแปลงที่บันทึกไว้',
+  'audit.deletedOnly': 'เฉพาะรายการที่ถูกลบ',
+  'audit.details': 'ดูข้อมูลที่บันทึก',
+  'audit.restoreDeleted': 'กู้คืนรายการ',
+  'audit.restoreVersion': 'กลับไปใช้ข้อมูลก่อนแก้ไข',
+  'audit.itemExists': 'รายการนี้กลับมาอยู่ในรายการแล้ว',
+  'audit.fromSync': 'จากอุปกรณ์อื่น',
+  'audit.confirmRestore': 'แทนที่ข้อมูลปัจจุบันของ {item} ด้วยข้อมูลก่อนการแก้ไขครั้งนี้?',
+  'audit.photos': '{count} รูป',
+  'audit.events': '{count} รายการ',
+
+  'auditAction.create': 'เพิ่ม',
+  'auditAction.update': 'แก้ไข',
+  'auditAction.delete': 'ลบ',
+
+  'auditField.id': 'รหัสรายการ',
+  'auditField.brand': 'ยี่ห้อ',
+  'auditField.type': 'ประเภท',
+  'auditField.model': 'รุ่น',
+  'auditField.status': 'สถานะ',
+  'auditField.purchaseDate': 'วันที่ซื้อเข้า',
+  'auditField.costs': 'ต้นทุน',
+  'auditField.purchaseCurrency': 'สกุลเงินที่ซื้อ',
+  'auditField.exchangeRate': 'อัตราแลกเปลี่ยน',
+  'auditField.sellingPrice': 'ราคาขาย',
+  'auditField.date': 'วันที่ขาย',
+  'auditField.channel': 'ช่องทางขาย',
+  'auditField.channelFee': 'ค่าธรรมเนียมช่องทาง',
+  'auditField.buyerName': 'ผู้ซื้อ',
+  'auditField.buyerContact': 'ติดต่อ',
+  'auditField.paymentMethod': 'วิธีชำระเงิน',
+  'auditField.paymentStatus': 'สถานะชำระ',
+  'auditField.depositAmount': 'ยอดมัดจำ',
+  'auditField.warrantyDays': 'รับประกัน (วัน)',
+  'auditField.afterSales': 'บริการหลังการขาย',
+  'auditField.returnOf': 'คืนมาจากรายการขาย',
+  'auditField.note': 'หมายเหตุ',
+  'auditField.tags': 'แท็ก',
+  'auditField.photoIds': 'รูปภาพ',
+  'auditField.updatedAt': 'แก้ไขล่าสุด',
+
+  'overhead.title': 'กำไรหลังหักค่าใช้จ่าย',
+  'overhead.grossProfit': 'กำไรขั้นต้นจากการขาย',
+  'overhead.overhead': 'ค่าใช้จ่ายดำเนินงาน',
+  'overhead.netProfit': 'กำไรสุทธิ',
+  'overhead.unfiltered': 'ค่าใช้จ่ายดำเนินงานไม่แยกตามประเภทหรือยี่ห้อ จึงหักเต็มจำนวนของช่วงเวลานี้',
+  'overhead.manage': 'จัดการค่าใช้จ่าย',
+
+  'expenses.title': 'ค่าใช้จ่ายดำเนินงาน',
+  'expenses.description': 'ค่าใช้จ่ายที่ไม่ได้ผูกกับสินค้าชิ้นใด เช่น ค่าโฆษณา ค่าบูธ ค่าเช่าที่เก็บของ',
+  'expenses.add': 'เพิ่มค่าใช้จ่าย',
+  'expenses.edit': 'แก้ไขค่าใช้จ่าย',
+  'expenses.date': 'วันที่',
+  'expenses.category': 'หมวด',
+  'expenses.amount': 'จำนวนเงิน',
+  'expenses.note': 'หมายเหตุ',
+  'expenses.notePlaceholder': 'เช่น บูธงาน Audio Show',
+  'expenses.recurrence': 'เกิดซ้ำ',
+  'expenses.once': 'ครั้งเดียว',
+  'expenses.endDate': 'สิ้นสุด (ไม่บังคับ)',
+  'expenses.until': 'ถึง {date}',
+  'expenses.thisMonth': 'เดือนนี้ {amount}',
+  'expenses.empty': 'ยังไม่มีค่าใช้จ่าย',
+  'expenses.confirmDelete': 'ลบค่าใช้จ่ายนี้? ทุกงวดที่ผ่านมาจะถูกลบไปด้วย',
+  'expenses.amountRequired': 'ใส่จำนวนเงินมากกว่า 0',
+  'expenses.dateRequired': 'ใส่วันที่',
+  'expenses.endBeforeStart': 'วันสิ้นสุดต้องไม่อยู่ก่อนวันเริ่ม',
+
+  'expenseCategory.advertising': 'ค่าโฆษณา',
+  'expenseCategory.event': 'ค่าบูธ/งานแสดงสินค้า',
+  'expenseCategory.tools': 'เครื่องมือ/อุปกรณ์',
+  'expenseCategory.rent': 'ค่าเช่าที่',
+  'expenseCategory.subscription': 'ค่าบริการรายเดือน',
+  'expenseCategory.utilities': 'ค่าน้ำไฟ/อินเทอร์เน็ต',
+  'expenseCategory.other': 'อื่นๆ',
+
+  'recurrence.monthly': 'ทุกเดือน',
+  'recurrence.yearly': 'ทุกปี',
+
+  'list.title': 'รายการขาย ({count})',
+  'list.select': 'เลือกหลายรายการ',
+  'list.import': 'นำเข้า CSV',
+  'list.export': 'ส่งออก CSV',
+  'list.edit': 'แก้ไข',
+  'list.delete': 'ลบ',
+  'list.noMatches': 'ไม่พบรายการตามตัวกรอง',
+  'list.empty': 'ยังไม่มีรายการขาย',
+  'list.addFirst': '+ เพิ่มรายการแรก',
+  'list.sellingPrice': 'ราคาขาย',
+  'list.netProfit': 'กำไรสุทธิ',
+  'list.returned': 'คืนสินค้าแล้ว',
+  'list.refunded': 'คืนเงิน {amount}',
+  'list.repairCost': 'ค่าซ่อม {amount}',
+  'list.warrantyUntil': 'ประกันถึง {date}',
+  'list.netProfitAfterFee': 'กำไรสุทธิ (หักค่าธรรมเนียม {fee})',
+  'list.changedType': 'เปลี่ยนประเภท {count} รายการแล้ว',
+  'list.changedDate': 'เปลี่ยนวันที่ {count} รายการแล้ว',
+  'list.history': 'ประวัติการแก้ไข',
+  'list.filterTag': 'แสดงรายการที่มีแท็ก {tag}',
+
+  'undo.undo': 'เลิกทำ',
+  'undo.deleted': 'ลบรายการแล้ว',
+  'undo.deletedMany': 'ลบ {count} รายการแล้ว',
+  'undo.mergedBrands': 'เปลี่ยนยี่ห้อเป็น {brand} แล้ว {count} รายการ',
+  'undo.afterSalesRemoved': 'ลบ{kind}แล้ว',
+  'undo.mergedCategories': 'ย้าย {count} รายการจาก {from} ไป {to} แล้ว',
+
+  'stock.title': 'สินค้าในสต็อก ({count})',
+  'stock.empty': 'ไม่มีสินค้าค้างสต็อก',
+  'stock.age': 'ซื้อเมื่อ {date} · ค้าง {days} วัน',
+  'stock.markSold': 'บันทึกการขาย',
+
+  'form.addTitle': 'เพิ่มรายการ',
+  'form.editTitle': 'แก้ไขรายการ',
+  'form.status': 'สถานะ',
+  'form.purchaseDate': 'วันที่ซื้อเข้า',
+  'form.saleDate': 'วันที่ขาย',
+  'form.type': 'ประเภท',
+  'form.brand': 'ยี่ห้อ (Brand)',
+  'form.brandPlaceholder': 'เช่น Sony, Bose, JBL',
+  'form.model': 'รุ่น (Model)',
+  'form.modelPlaceholder': 'ระบุรุ่นสินค้า',
+  'form.purchaseCurrency': 'สกุลเงินที่ซื้อ',
+  'form.exchangeRate': 'อัตราแลกเปลี่ยน (1 {from} = ? {to})',
+  'form.convertedPurchase': 'ราคาซื้อคิดเป็น {amount}',
+  'form.soldPrice': 'ราคาขายจริง',
+  'form.agreedPrice': 'ราคาที่ตกลงขาย',
+  'form.channel': 'ช่องทางขาย',
+  'form.paymentMethod': 'วิธีชำระเงิน',
+  'form.buyer': 'ผู้ซื้อ',
+  'form.buyerPlaceholder': 'ชื่อผู้ซื้อ',
+  'form.contact': 'ติดต่อ',
+  'form.contactPlaceholder': 'เบอร์ / LINE',
+  'form.paymentStatus': 'สถานะชำระ',
+  'form.deposit': 'ยอดมัดจำ',
+  'form.warrantyDays': 'รับประกัน (วัน)',
+  'form.note': 'หมายเหตุ',
+  'form.notePlaceholder': 'เช่น มีรอยที่ฝาเครื่อง มีรีโมทให้',
+  'form.tags': 'แท็ก',
+  'form.tagsPlaceholder': 'พิมพ์แท็กแล้วกด Enter',
+  'form.removeTag': 'ลบแท็ก {tag}',
+  'form.channelFee': 'ค่าธรรมเนียมช่องทาง:',
+  'form.estimatedProfit': 'กำไรโดยประมาณ:',
+  'form.duplicate': 'มี {brand} {model} วันที่ {date} อยู่แล้ว ตรวจสอบว่าไม่ได้บันทึกซ้ำ',
+  'form.fixErrors': 'กรุณาแก้ไขช่องที่มีข้อความสีแดงก่อนบันทึก',
+
+  'validation.brandRequired': 'กรุณาระบุยี่ห้อ',
+  'validation.modelRequired': 'กรุณาระบุรุ่น',
+  'validation.purchaseDateInvalid': 'วันที่ซื้อไม่ถูกต้อง',
+  'validation.purchaseDateFuture': 'วันที่ซื้อต้องไม่เกินวันนี้',
+  'validation.costsInvalid': 'ต้นทุนต้องเป็นตัวเลขตั้งแต่ 0 ขึ้นไป',
+  'validation.noPurchaseCost': 'ยังไม่ได้ใส่ราคาซื้อ',
+  'validation.exchangeRateRequired': 'กรุณาระบุอัตราแลกเปลี่ยน',
+  'validation.saleDateRequired': 'กรุณาระบุวันที่ขาย',
+  'validation.saleDateFuture': 'วันที่ขายต้องไม่เกินวันนี้',
+  'validation.saleBeforePurchase': 'วันที่ขายต้องไม่ก่อนวันที่ซื้อ',
+  'validation.sellingPriceRequired': 'กรุณาระบุราคาขาย',
+  'validation.belowCost': 'ขายต่ำกว่าทุน (ขาดทุน {amount})',
+  'validation.markupTooHigh': 'กำไรเกิน {percent}% ของต้นทุน ตรวจสอบตัวเลขอีกครั้ง',
+  'validation.depositRequired': 'กรุณาระบุยอดมัดจำ',
+  'validation.depositTooHigh': 'ยอดมัดจำเกินราคาขาย',
+
+  'costs.title': 'ต้นทุน',
+  'costs.total': 'ต้นทุนรวม',
+  'costs.none': 'ยังไม่มีต้นทุน',
+  'costs.add': 'เพิ่มรายการต้นทุน',
+  'costs.remove': 'ลบรายการต้นทุน',
+
+  'photos.title': 'รูปสภาพสินค้า',
+  'photos.takePhoto': 'ถ่ายรูป',
+  'photos.choose': 'เลือกรูป',
+  'photos.remove': 'เอารูปออก',
+  'photos.compressing': 'กำลังย่อรูป...',
+  'photos.saveFailed': 'บันทึกรูปบางรูปไม่สำเร็จ (ไฟล์ไม่ใช่รูป หรือพื้นที่เครื่องเต็ม)',
+  'photos.missing': 'ไม่มีรูปนี้ในเครื่อง',
+
+  'priceHistory.title': 'เคยซื้อขายรุ่นนี้ {count} ครั้ง',
+  'priceHistory.avgBuy': 'ซื้อเฉลี่ย',
+  'priceHistory.avgSell': 'ขายเฉลี่ย',
+  'priceHistory.sellRange': 'ช่วงราคาขาย',
+  'priceHistory.buy': 'ซื้อ {amount}',
+  'priceHistory.sell': 'ขาย {amount}',
+
+  'filter.period': 'ช่วงเวลา:',
+  'filter.search': 'ค้นหายี่ห้อ รุ่น หมายเหตุ แท็ก',
+  'filter.more': 'ตัวกรองเพิ่มเติม',
+  'filter.clear': 'ล้างตัวกรอง',
+  'filter.allTypes': 'ทุกประเภท',
+  'filter.allBrands': 'ทุกยี่ห้อ',
+  'filter.allTags': 'ทุกแท็ก',
+
+  'bulk.selected': 'เลือก {selected}/{total}',
+  'bulk.changeType': 'เปลี่ยนประเภท',
+  'bulk.changeDate': 'เปลี่ยนวันที่ขาย',
+  'bulk.export': 'ส่งออกรายการที่เลือก',
+  'bulk.delete': 'ลบรายการที่เลือก',
+  'bulk.pickType': 'เลือกประเภทใหม่สำหรับ {count} รายการ',
+  'bulk.apply': 'ใช้กับ {count} รายการ',
+  'bulk.skipped': 'ข้าม {count} รายการ: {reason}',
+  'bulk.noneChanged': 'ไม่มีรายการใดถูกเปลี่ยน: {reason}',
+
+  'channels.title': 'ยอดขายตามช่องทาง',
+  'channels.none': 'ไม่ระบุช่องทาง',
+  'channels.fees': 'ค่าธรรมเนียม {amount}',
+  'channels.outstanding': 'ค้างชำระ {count}',
+  'channels.profit': 'กำไร {amount}',
+
+  'trends.title': 'แนวโน้มรายเดือน',
+  'trends.empty': 'ไม่มีข้อมูลแนวโน้ม',
+  'trends.latest': 'ล่าสุด {month}',
+  'trends.revenue': 'ยอดขาย',
+  'trends.cost': 'ต้นทุน',
+  'trends.profit': 'กำไร',
+  'trends.margin': 'อัตรากำไร',
+  'trends.avgProfit': 'กำไรเฉลี่ย/ชิ้น {amount}',
+  'trends.month': 'เดือน',
+  'trends.units': 'ชิ้น',
+  'trends.marginShort': 'Margin',
+  'trends.avgPerUnit': 'เฉลี่ย/ชิ้น',
+
+  'profitability.title': 'ความสามารถทำกำไร',
+  'profitability.units': 'ชิ้น',
+  'profitability.revenue': 'ยอดขาย',
+  'profitability.profit': 'กำไร',
+  'profitability.margin': 'Margin',
+  'profitability.losses': 'ขาดทุน',
+
+  'import.title': 'นำเข้าข้อมูล (CSV)',
+  'import.pickHint': 'เลือกไฟล์ .csv ที่บันทึกจาก Excel หรือ Google Sheets (UTF-8)',
+  'import.pickFile': 'เลือกไฟล์',
+  'import.emptyFile': 'ไม่พบข้อมูลในไฟล์',
+  'import.hasHeader': 'แถวแรกเป็นหัวคอลัมน์',
+  'import.column': 'คอลัมน์ {index}',
+  'import.skipColumn': '— ไม่นำเข้า —',
+  'import.missingColumns': 'ต้องเลือกคอลัมน์: {fields}',
+  'import.check': 'ตรวจสอบข้อมูล',
+  'import.new': 'ใหม่',
+  'import.duplicates': 'ซ้ำ',
+  'import.invalid': 'ไม่ถูกต้อง',
+  'import.includeDuplicates': 'นำเข้ารายการที่ซ้ำด้วย',
+  'import.row': 'แถว {row}',
+  'import.moreRows': 'และอีก {count} แถว',
+  'import.submit': 'นำเข้า {count} รายการ',
+  'import.missingField': 'ไม่มี{field}',
+  'import.invalidField': '{field}ไม่ถูกต้อง',
+  'import.invalidDate': 'วันที่ไม่ถูกต้อง ({value})',
+
+  'importField.brand': 'ยี่ห้อ',
+  'importField.type': 'ประเภท',
+  'importField.model': 'รุ่น',
+  'importField.costPrice': 'ราคาทุน',
+  'importField.shippingCost': 'ค่าส่ง/ห่อ',
+  'importField.otherCosts': 'ต้นทุนอื่น',
+  'importField.channel': 'ช่องทางขาย',
+  'importField.channelFee': 'ค่าธรรมเนียม',
+  'importField.sellingPrice': 'ราคาขาย',
+  'importField.purchaseDate': 'วันที่ซื้อ',
+  'importField.date': 'วันที่',
+  'importField.note': 'หมายเหตุ',
+  'importField.tags': 'แท็ก',
+
+  'backup.title': 'สำรอง / กู้คืนข้อมูล',
+  'backup.description': 'ดาวน์โหลดข้อมูลทั้งหมด {count} รายการ พร้อมค่าใช้จ่าย รูป และการตั้งค่าเป็นไฟล์ JSON',
+  'backup.lastBackup': 'สำรองล่าสุด: {date}',
+  'backup.never': 'ยังไม่เคย',
+  'backup.download': 'ดาวน์โหลดไฟล์สำรอง',
+  'backup.pickFile': 'เลือกไฟล์สำรองเพื่อกู้คืน',
+  'backup.createFailed': 'สร้างไฟล์สำรองไม่สำเร็จ',
+  'backup.readFailed': 'อ่านไฟล์ไม่สำเร็จ',
+  'backup.photoRestoreFailed': 'กู้คืนรูปบางรูปไม่สำเร็จ (พื้นที่เครื่องอาจเต็ม)',
+  'backup.fileSummary': 'ไฟล์ถูกต้อง · {count} รายการ · ค่าใช้จ่าย {expenses} รายการ · รูป {photos} รูป · {date}',
+  'backup.invalidRecords': 'มี {count} รายการที่ข้อมูลไม่ครบหรือไม่ถูกต้อง จะกู้คืนตามเดิม ควรตรวจแก้ภายหลัง',
+  'backup.added': 'เพิ่มใหม่',
+  'backup.changed': 'ถูกแก้ไข',
+  'backup.unchanged': 'เหมือนเดิม',
+  'backup.removed': 'จะถูกลบ',
+  'backup.merge': 'รวมข้อมูล',
+  'backup.mergeHint': '— อัปเดตตามรหัสรายการ เก็บรายการที่ไม่มีในไฟล์ไว้',
+  'backup.replace': 'แทนที่ทั้งหมด',
+  'backup.replaceHint': '— ใช้ข้อมูลและการตั้งค่าจากไฟล์เท่านั้น (ยกเว้นการซิงค์ของเครื่องนี้)',
+  'backup.confirm': 'ยืนยันการกู้คืน',
+  'backup.error.notJson': 'ไฟล์ไม่ใช่ JSON ที่ถูกต้อง',
+  'backup.error.notBackup': 'ไม่ใช่ไฟล์สำรองข้อมูลของ AudioSale Pro',
+  'backup.error.newerVersion': 'ไฟล์นี้มาจากแอปเวอร์ชันใหม่กว่า กรุณาอัปเดตแอปก่อน',
+  'backup.error.countMismatch': 'จำนวนรายการไม่ตรง (ระบุ {expected} พบ {actual})',
+  'backup.error.checksum': 'ไฟล์ถูกแก้ไขหรือเสียหาย (checksum ไม่ตรง)',
+  'backup.error.photos': 'ข้อมูลรูปภาพในไฟล์ไม่ถูกต้อง',
+  'backup.error.invalidRecords': 'พบรายการที่ไม่ถูกต้อง {count} รายการ',
+
+  'sync.title': 'ซิงค์ข้อมูลหลายเครื่อง',
+  'sync.hint': 'ใช้เซิร์ฟเวอร์ซิงค์ที่ติดตั้งเอง (โฟลเดอร์ server/) ทุกเครื่องต้องใช้ที่อยู่และรหัสเดียวกัน',
+  'sync.serverUrl': 'ที่อยู่เซิร์ฟเวอร์',
+  'sync.token': 'รหัสซิงค์ (ถ้ามี)',
+  'sync.disable': 'ปิดการซิงค์',
+  'sync.status': 'สถานะ',
+  'sync.pending': 'รอส่ง',
+  'sync.lastSynced': 'ซิงค์ล่าสุด',
+  'sync.syncNow': 'ซิงค์ตอนนี้',
+  'sync.conflicts': 'ข้อมูลขัดแย้ง {count} รายการ',
+  'sync.conflictsHint': 'รายการเหล่านี้ถูกแก้ไขทั้งบนเครื่องนี้และอีกเครื่อง เลือกว่าจะเก็บฉบับไหน',
+  'sync.thisDevice': 'เครื่องนี้',
+  'sync.otherDevice': 'อีกเครื่อง',
+  'sync.keepLocal': 'ใช้ของเครื่องนี้',
+  'sync.keepRemote': 'ใช้ของอีกเครื่อง',
+  'sync.sold': 'ขาย {price}',
+  'sync.edited': 'แก้ไข {time}',
+  'sync.deleted': 'ถูกลบ',
+  'sync.indicator.disabled': 'ยังไม่ได้ตั้งค่าการซิงค์',
+  'sync.indicator.conflicts': 'มีข้อมูลขัดแย้ง {count} รายการ',
+  'sync.indicator.syncing': 'กำลังซิงค์...',
+  'sync.indicator.offline': 'เชื่อมต่อเซิร์ฟเวอร์ไม่ได้ รอส่ง {count} รายการ',
+  'sync.indicator.error': 'ซิงค์ไม่สำเร็จ',
+  'sync.indicator.pending': 'รอส่ง {count} รายการ',
+  'sync.indicator.synced': 'ซิงค์แล้ว',
+
+  'receipt.title': 'ใบเสร็จรับเงิน',
+  'receipt.print': 'พิมพ์ใบเสร็จ',
+  'receipt.number': 'เลขที่ {number}',
+  'receipt.date': 'วันที่ {date}',
+  'receipt.taxId': 'เลขประจำตัวผู้เสียภาษี {taxId}',
+  'receipt.phone': 'โทร {phone}',
+  'receipt.buyer': 'ผู้ซื้อ',
+  'receipt.item': 'รายการ',
+  'receipt.amount': 'จำนวนเงิน',
+  'receipt.total': 'รวมทั้งสิ้น',
+  'receipt.paymentMethod': 'ชำระโดย {method}',
+  'receipt.depositPaid': 'รับมัดจำแล้ว',
+  'receipt.balanceDue': 'ยอดค้างชำระ',
+  'receipt.warranty': 'เงื่อนไขการรับประกัน',
+  'receipt.warrantyPeriod': 'รับประกัน {days} วัน ถึงวันที่ {date}',
+  'receipt.thanks': 'ขอบคุณที่อุดหนุน',
+  'receipt.signature': 'ผู้รับเงิน',
+
+  'report.title': 'รายงานประจำเดือน',
+  'report.heading': 'รายงานประจำเดือน {month}',
+  'report.month': 'เดือน',
+  'report.print': 'พิมพ์ / บันทึก PDF',
+  'report.printHint': 'เลือก "บันทึกเป็น PDF" ในหน้าต่างพิมพ์เพื่อส่งเป็นไฟล์',
+  'report.generated': 'สร้างเมื่อ {date}',
+  'report.noMonths': 'ยังไม่มีเดือนที่มียอดขาย',
+  'report.summary': 'สรุป',
+  'report.revenue': 'ยอดขาย',
+  'report.costOfGoods': 'ต้นทุนสินค้าที่ขาย',
+  'report.fees': 'ค่าธรรมเนียมช่องทางขาย',
+  'report.profit': 'กำไรสุทธิ',
+  'report.margin': 'อัตรากำไร',
+  'report.itemsSold': 'จำนวนที่ขาย',
+  'report.stockAtMonthEnd': 'สต็อกสิ้นเดือน',
+  'report.costBreakdown': 'ต้นทุนแยกตามหมวด',
+  'report.byCategory': 'แยกตามประเภทสินค้า',
+  'report.sales': 'รายการขาย',
+  'report.date': 'วันที่',
+  'report.item': 'สินค้า',
+  'report.channel': 'ช่องทาง',
+  'report.units': 'ชิ้น',
+  'report.price': 'ราคาขาย',
+  'report.cost': 'ทุน',
+  'report.fee': 'ค่าธรรมเนียม',
+  'report.itemProfit': 'กำไร',
+  'report.total': 'รวม',
+  'report.empty': 'ไม่มีการขายในเดือนนี้',
+
+  'settings.title': 'ตั้งค่า',
+  'settings.display': 'ภาษาและการแสดงผล',
+  'settings.language': 'ภาษา',
+  'settings.calendar': 'ปีที่แสดง',
+  'settings.currency': 'สกุลเงินหลัก',
+  'settings.currencyHint': 'ใช้แสดงและรวมยอดเงินทั้งหมด ตัวเลขที่บันทึกไว้แล้วจะไม่ถูกแปลงค่า',
+  'settings.goals': 'เป้าหมายและการแจ้งเตือน',
+  'settings.goalsHint': 'ใส่ 0 หากไม่ต้องการตั้งเป้า',
+  'settings.monthlyRevenue': 'เป้ายอดขายต่อเดือน',
+  'settings.monthlyProfit': 'เป้ากำไรต่อเดือน',
+  'settings.lossAlerts': 'แจ้งเตือนเมื่อขายขาดทุน (30 วันล่าสุด)',
+  'settings.staleStockDays': 'แจ้งเตือนสินค้าค้างสต็อกเกิน (วัน, 0 = ปิด)',
+  'settings.fees': 'ค่าธรรมเนียมช่องทางขาย',
+  'settings.feesHint': 'คิดจากราคาขาย (%) + ค่าคงที่ต่อรายการ ใช้กับการขายที่บันทึกหลังจากนี้',
+  'settings.categories': 'ประเภทสินค้า',
+  'settings.categoriesHint': 'เปลี่ยนชื่อหรือรวมประเภทจะแก้ไขรายการเดิมทั้งหมดด้วย สีใช้ในกราฟ',
+  'settings.shop': 'ข้อมูลร้าน',
+  'settings.shopHint': 'พิมพ์บนใบเสร็จและรายงานประจำเดือน',
+  'settings.shopName': 'ชื่อร้าน',
+  'settings.shopAddress': 'ที่อยู่',
+  'settings.shopPhone': 'โทรศัพท์',
+  'settings.shopTaxId': 'เลขประจำตัวผู้เสียภาษี (ถ้ามี)',
+  'settings.warrantyNote': 'เงื่อนไขการรับประกันบนใบเสร็จ',
+  'settings.warrantyNotePlaceholder': 'เช่น รับประกัน 7 วัน นับจากวันที่ซื้อ ไม่รวมความเสียหายจากการใช้งาน',
+  'settings.brands': 'ยี่ห้อ',
+  'settings.brandsHint': 'รวมการสะกดที่ต่างกัน หรือรวมยี่ห้อที่เป็นยี่ห้อเดียวกันเข้าด้วยกัน',
+  'settings.noBrands': 'ยังไม่มียี่ห้อ',
+  'settings.useSpelling': 'ใช้ "{name}" แทน {others}',
+
+  'categories.nameRequired': 'กรุณาระบุชื่อประเภท',
+  'categories.exists': 'มีประเภทนี้อยู่แล้ว',
+  'categories.color': 'สีของ {name}',
+  'categories.moveUp': 'เลื่อนขึ้น',
+  'categories.moveDown': 'เลื่อนลง',
+  'categories.delete': 'ลบ {name}',
+  'categories.placeholder': 'เช่น หูฟัง, เครื่องเล่นแผ่นเสียง',
+};
@@ -0,0 +1,184 @@
+// Self-hostable sync server for AudioSale Pro: one SQLite file, one endpoint.
+//
+// Every record carries a revision that increases with each accepted write and a
+// global sequence number used as the pull cursor. A client pushes changes with the
+// revision it last saw; a change based on an older revision is a conflict and is
+// returned to the client instead of being applied. Deletes are kept as tombstones
+// so other devices learn about them.
+//
+//   PORT=8787 DB_PATH=./audiosale-sync.db SYNC_TOKEN=secret npm start
+
+import http from 'node:http';
+import Database from 'better-sqlite3';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DB_PATH = process.env.DB_PATH ?? 'audiosale-sync.db';
+const SYNC_TOKEN = process.env.SYNC_TOKEN ?? '';
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+const db = new Database(DB_PATH);
+db.pragma('journal_mode = WAL');
+db.exec(`
+  CREATE TABLE IF NOT EXISTS records (
+    id TEXT PRIMARY KEY,
+    revision INTEGER NOT NULL,
+    seq INTEGER NOT NULL,
+    updated_at TEXT NOT NULL,
+    deleted INTEGER NOT NULL DEFAULT 0,
+    data TEXT
+  );
+  CREATE INDEX IF NOT EXISTS records_seq ON records (seq);
+`);
+
+const selectRecord = db.prepare('SELECT * FROM records WHERE id = ?');
+const selectSince = db.prepare('SELECT * FROM records WHERE seq > ? ORDER BY seq');
+const selectMaxSeq = db.prepare('SELECT COALESCE(MAX(seq), 0) AS seq FROM records');
+const upsertRecord = db.prepare(`
+  INSERT INTO records (id, revision, seq, updated_at, deleted, data)
+  VALUES (@id, @revision, @seq, @updatedAt, @deleted, @data)
+  ON CONFLICT (id) DO UPDATE SET
+    revision = excluded.revision,
+    seq = excluded.seq,
+    updated_at = excluded.updated_at,
+    deleted = excluded.deleted,
+    data = excluded.data
+`);
+
+class RequestError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const toRecord = row => ({
+  id: row.id,
+  revision: row.revision,
+  updatedAt: row.updated_at,
+  deleted: row.deleted === 1,
+  data: row.data === null ? null : JSON.parse(row.data),
+});
+
+const isValidChange = change =>
+  typeof change === 'object' && change !== null &&
+  typeof change.id === 'string' && change.id !== '' &&
+  Number.isInteger(change.baseRevision) && change.baseRevision >= 0 &&
+  (change.deleted === true || (typeof change.data === 'object' && change.data !== null));
+
+// Applies pushed changes and collects everything the client has not seen yet, atomically
+const sync = db.transaction((cursor, changes) => {
+  const applied = [];
+  const conflicts = [];
+  let seq = selectMaxSeq.get().seq;
+
+  for (const change of changes) {
+    const current = selectRecord.get(change.id);
+    const currentRevision = current?.revision ?? 0;
+
+    // Deleting something that is already deleted agrees with the server whatever the revision
+    if (change.deleted && current?.deleted === 1) {
+      applied.push({ id: change.id, revision: currentRevision });
+      continue;
+    }
+    if (currentRevision !== change.baseRevision) {
+      conflicts.push(current ? toRecord(current) : { id: change.id, revision: 0, updatedAt: '', deleted: true, data: null });
+      continue;
+    }
+
+    seq += 1;
+    upsertRecord.run({
+      id: change.id,
+      revision: currentRevision + 1,
+      seq,
+      updatedAt: typeof change.updatedAt === 'string' && change.updatedAt ? change.updatedAt : new Date().toISOString(),
+      deleted: change.deleted ? 1 : 0,
+      data: change.deleted ? null : JSON.stringify(change.data),
+    });
+    applied.push({ id: change.id, revision: currentRevision + 1 });
+  }
+
+  const appliedIds = new Set(applied.map(entry => entry.id));
+  const pulled = selectSince.all(cursor).filter(row => !appliedIds.has(row.id)).map(toRecord);
+  return { cursor: selectMaxSeq.get().seq, applied, conflicts, changes: pulled };
+});
+
+const readBody = req => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new RequestError(413, 'Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+  req.on('error', reject);
+});
+
+const parseSyncRequest = text => {
+  let body;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new RequestError(400, 'Body is not valid JSON');
+  }
+  if (!Number.isInteger(body?.cursor) || body.cursor < 0 || !Array.isArray(body.changes)) {
+    throw new RequestError(400, 'Expected { cursor, changes }');
+  }
+  if (!body.changes.every(isValidChange)) {
+    throw new RequestError(400, 'Invalid change in request');
+  }
+  return body;
+};
+
+const sendJson = (res, status, payload) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(payload));
+};
+
+const handleRequest = async (req, res) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  if (SYNC_TOKEN && req.headers.authorization !== `Bearer ${SYNC_TOKEN}`) {
+    throw new RequestError(401, 'Missing or wrong sync token');
+  }
+
+  if (req.method === 'GET' && pathname === '/api/health') {
+    sendJson(res, 200, { ok: true, cursor: selectMaxSeq.get().seq });
+    return;
+  }
+  if (req.method === 'POST' && pathname === '/api/sync') {
+    const { cursor, changes } = parseSyncRequest(await readBody(req));
+    sendJson(res, 200, sync(cursor, changes));
+    return;
+  }
+  throw new RequestError(404, 'Not found');
+};
+
+const server = http.createServer((req, res) => {
+  // The app is served from a different origin than this API
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  handleRequest(req, res).catch(error => {
+    if (error instanceof RequestError) {
+      sendJson(res, error.status, { error: error.message });
+    } else {
+      console.error('Sync request failed', error);
+      sendJson(res, 500, { error: 'Internal server error' });
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`AudioSale sync server listening on http://localhost:${PORT} (database: ${DB_PATH})`);
+});
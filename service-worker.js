@@ -0,0 +1,31 @@
+// App shell service worker. The build fills in the file list and version
+// (see the serviceWorker plugin in vite.config.ts); it is not used in dev.
+const CACHE_NAME = 'audiosale-__CACHE_VERSION__';
+const PRECACHE = __PRECACHE_MANIFEST__;
+const APP_SHELL = '/index.html';
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(PRECACHE))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Cache first: a weak signal at a swap meet is worse than none, so never wait on the network
+// for anything we already have. Every screen is the same index.html with a different ?view=.
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  const lookup = request.mode === 'navigate' ? caches.match(APP_SHELL) : caches.match(request);
+  event.respondWith(lookup.then(cached => cached || fetch(request)));
+});
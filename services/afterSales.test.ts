@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { ItemStatus, AfterSalesKind, AfterSalesEvent, Language } from '../types';
+import { getWarrantyEnd, getActiveWarranties, restockReturn, validateAfterSalesEvent } from './afterSales';
+import { getItemCost } from './profit';
+import { buildSummaryStats } from './analytics';
+import { createTranslator } from './i18n';
+import { soldAmp } from './testUtils';
+
+const returned = (amount: number): AfterSalesEvent => ({ id: 'r1', date: '2026-03-05', kind: AfterSalesKind.RETURN, amount });
+
+describe('getWarrantyEnd', () => {
+  it('counts the sale day as the first day covered', () => {
+    expect(getWarrantyEnd({ date: '2026-03-01', warrantyDays: 7 })).toBe('2026-03-07');
+    expect(getWarrantyEnd({ date: '2026-02-20', warrantyDays: 30 })).toBe('2026-03-21');
+  });
+
+  it('has no end without a sale date or a warranty', () => {
+    expect(getWarrantyEnd({ warrantyDays: 7 })).toBeUndefined();
+    expect(getWarrantyEnd({ date: '2026-03-01' })).toBeUndefined();
+  });
+});
+
+describe('getActiveWarranties', () => {
+  it('lists sales still covered today, soonest to expire first', () => {
+    const sales = [
+      soldAmp({ id: 'long', warrantyDays: 30 }),
+      soldAmp({ id: 'short', warrantyDays: 14 }),
+      soldAmp({ id: 'expired', warrantyDays: 3 }),
+      soldAmp({ id: 'none' }),
+      soldAmp({ id: 'back', warrantyDays: 30, afterSales: [returned(9000)] })
+    ];
+    const active = getActiveWarranties(sales, '2026-03-10');
+    expect(active.map(entry => [entry.item.id, entry.daysLeft])).toEqual([['short', 4], ['long', 20]]);
+  });
+});
+
+describe('restockReturn', () => {
+  it('brings the goods back into stock with their costs, counted once', () => {
+    const original = soldAmp({ channelFee: 200, afterSales: [returned(9000)] });
+    const restocked = restockReturn(original, original.afterSales![0]);
+
+    expect(restocked).toMatchObject({ status: ItemStatus.RETURNED, purchaseDate: '2026-03-05', returnOf: original.id });
+    expect(restocked.id).not.toBe(original.id);
+    expect(getItemCost(restocked)).toBe(6000);
+
+    // The sale only carries the fee it lost; the stock carries the goods
+    const stats = buildSummaryStats([original], [restocked]);
+    expect(stats.totalProfit).toBe(-200);
+    expect(stats.inventoryValue).toBe(6000);
+  });
+});
+
+describe('validateAfterSalesEvent', () => {
+  const t = createTranslator(Language.EN);
+
+  it('allows a free return but not a refund of nothing', () => {
+    const item = soldAmp();
+    expect(validateAfterSalesEvent({ date: '2026-03-05', kind: AfterSalesKind.RETURN, amount: 0 }, item, t)).toEqual({});
+    expect(validateAfterSalesEvent({ date: '2026-03-05', kind: AfterSalesKind.REFUND, amount: 0 }, item, t).amount).toBeDefined();
+    expect(validateAfterSalesEvent({ kind: AfterSalesKind.REPAIR, amount: 300 }, item, t).date).toBeDefined();
+  });
+
+  it('limits refunds to what the buyer paid and has not had back', () => {
+    const item = soldAmp({ afterSales: [{ id: 'r1', date: '2026-03-05', kind: AfterSalesKind.REFUND, amount: 1000 }] });
+    const draft = (kind: AfterSalesKind, amount: number) => ({ date: '2026-03-06', kind, amount });
+    expect(validateAfterSalesEvent(draft(AfterSalesKind.REFUND, 8000), item, t)).toEqual({});
+    expect(validateAfterSalesEvent(draft(AfterSalesKind.REFUND, 8001), item, t).amount).toBe(t('afterSales.refundTooHigh'));
+    expect(validateAfterSalesEvent(draft(AfterSalesKind.RETURN, 9000), item, t).amount).toBe(t('afterSales.refundTooHigh'));
+    expect(validateAfterSalesEvent(draft(AfterSalesKind.REPAIR, 9500), item, t)).toEqual({});
+  });
+});
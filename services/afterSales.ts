@@ -0,0 +1,64 @@
+import { SaleItem, ItemStatus, WarrantyStatus, AfterSalesEvent, AfterSalesKind } from '../types';
+import { getAfterSalesTotals } from './profit';
+import { daysBetween, toLocalISODate } from './filters';
+import { Translator } from './i18n';
+
+// A 7-day warranty on a sale made on the 1st covers the 1st to the 7th
+export const getWarrantyEnd = (item: Pick<SaleItem, 'date' | 'warrantyDays'>): string | undefined => {
+  if (!item.date || !item.warrantyDays || item.warrantyDays <= 0) return undefined;
+  const [year, month, day] = item.date.split('-').map(Number);
+  return toLocalISODate(new Date(year, month - 1, day + item.warrantyDays - 1));
+};
+
+// Sales still under warranty today, the ones running out soonest first. A returned
+// item's warranty ended with the return.
+export const getActiveWarranties = (sales: SaleItem[], today: string): WarrantyStatus[] =>
+  sales
+    .flatMap(item => {
+      if (item.status !== ItemStatus.SOLD || getAfterSalesTotals(item).returned) return [];
+      const endsOn = getWarrantyEnd(item);
+      if (!endsOn || endsOn < today || item.date! > today) return [];
+      return [{ item, endsOn, daysLeft: daysBetween(today, endsOn) }];
+    })
+    .sort((a, b) => a.endsOn.localeCompare(b.endsOn));
+
+// The returned goods as a new stock record carrying the original costs, so they are
+// counted once: in stock now, and against whichever sale finally keeps them
+export const restockReturn = (item: SaleItem, event: AfterSalesEvent): SaleItem => {
+  const restocked: SaleItem = {
+    id: crypto.randomUUID(),
+    brand: item.brand,
+    type: item.type,
+    model: item.model,
+    status: ItemStatus.RETURNED,
+    purchaseDate: event.date,
+    costs: item.costs.map(entry => ({ ...entry, id: crypto.randomUUID() })),
+    returnOf: item.id,
+  };
+  if (item.purchaseCurrency) {
+    restocked.purchaseCurrency = item.purchaseCurrency;
+    restocked.exchangeRate = item.exchangeRate;
+  }
+  if (item.photoIds?.length) restocked.photoIds = [...item.photoIds];
+  return restocked;
+};
+
+export type AfterSalesField = 'date' | 'amount';
+
+export const validateAfterSalesEvent = (
+  event: Partial<AfterSalesEvent>,
+  item: Pick<SaleItem, 'sellingPrice' | 'afterSales'>,
+  t: Translator
+): Partial<Record<AfterSalesField, string>> => {
+  const errors: Partial<Record<AfterSalesField, string>> = {};
+  if (!event.date) errors.date = t('afterSales.dateRequired');
+  // A return can be free (an exchange); a refund or repair of nothing is a mistake
+  const amount = Number(event.amount);
+  if (event.amount === undefined || !Number.isFinite(amount) || amount < 0 || (amount === 0 && event.kind !== AfterSalesKind.RETURN)) {
+    errors.amount = t('afterSales.amountRequired');
+  } else if (event.kind !== AfterSalesKind.REPAIR && amount > Number(item.sellingPrice ?? 0) - getAfterSalesTotals(item).refunded) {
+    // Money given back, by refund or return, can't add up to more than the buyer paid
+    errors.amount = t('afterSales.refundTooHigh');
+  }
+  return errors;
+};
@@ -0,0 +1,37 @@
+import { SaleItem, ItemStatus, IN_STOCK_STATUSES, AlertSettings, AlertKind, PerformanceAlert } from '../types';
+import { getItemProfit } from './profit';
+import { daysBetween } from './filters';
+
+// Older losses are history rather than something to act on
+const LOSS_ALERT_WINDOW_DAYS = 30;
+
+// Everything worth the user's attention as of today (YYYY-MM-DD), worst first within each kind
+export const buildAlerts = (sales: SaleItem[], settings: AlertSettings, today: string): PerformanceAlert[] => {
+  const alerts: PerformanceAlert[] = [];
+
+  if (settings.lossMaking) {
+    sales
+      .filter(item => item.status === ItemStatus.SOLD && item.date && daysBetween(item.date, today) <= LOSS_ALERT_WINDOW_DAYS)
+      .map(item => ({ item, profit: getItemProfit(item) }))
+      .filter(({ profit }) => profit < 0)
+      .sort((a, b) => a.profit - b.profit)
+      .forEach(({ item, profit }) => alerts.push({ id: `${AlertKind.LOSS}:${item.id}`, kind: AlertKind.LOSS, item, amount: -profit }));
+  }
+
+  if (settings.staleStockDays > 0) {
+    sales
+      .filter(item => IN_STOCK_STATUSES.includes(item.status))
+      .map(item => ({ item, days: daysBetween(item.purchaseDate, today) }))
+      .filter(({ days }) => days > settings.staleStockDays)
+      .sort((a, b) => b.days - a.days)
+      .forEach(({ item, days }) => alerts.push({ id: `${AlertKind.STALE_STOCK}:${item.id}`, kind: AlertKind.STALE_STOCK, item, amount: days }));
+  }
+
+  return alerts;
+};
+
+// Dismissals for alerts that no longer fire (item sold, deleted, edited) are dropped so the list stays small
+export const pruneDismissed = (dismissed: string[], active: PerformanceAlert[]): string[] => {
+  const activeIds = new Set(active.map(alert => alert.id));
+  return dismissed.filter(id => activeIds.has(id));
+};
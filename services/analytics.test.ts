@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { ItemStatus, CostCategory, ProfitGrouping } from '../types';
+import { buildSummaryStats, buildMonthlyReport, buildMonthlyTrends, buildProfitability, getStockItems } from './analytics';
+import { defaultCategories } from './categories';
+import { sale } from './testUtils';
+
+describe('buildSummaryStats', () => {
+  it('totals sold items and values the stock at cost', () => {
+    const sold = [
+      sale({ date: '2026-02-01', sellingPrice: 1000, cost: 600, channelFee: 50 }),
+      sale({ date: '2026-02-02', sellingPrice: 500, cost: 700 }),
+    ];
+    const stock = [sale({ status: ItemStatus.LISTED, cost: 300 }), sale({ status: ItemStatus.PURCHASED, cost: 200 })];
+
+    const stats = buildSummaryStats(sold, stock);
+
+    expect(stats.count).toBe(2);
+    expect(stats.totalRevenue).toBe(1500);
+    expect(stats.totalCost).toBe(1300);
+    expect(stats.totalFees).toBe(50);
+    expect(stats.totalProfit).toBe(150);
+    expect(stats.costBreakdown[CostCategory.PURCHASE]).toBe(1300);
+    expect(stats.costBreakdown[CostCategory.PLATFORM_FEE]).toBe(50);
+    expect(stats.inventoryValue).toBe(500);
+    expect(stats.inventoryCount).toBe(2);
+  });
+
+  it('agrees with the per-item profit the list shows', () => {
+    const sold = [sale({ date: '2026-02-01', sellingPrice: 2500, cost: 1800, channelFee: 125 })];
+    expect(buildSummaryStats(sold, []).totalProfit).toBe(575);
+  });
+
+  it('is all zeros without data', () => {
+    const stats = buildSummaryStats([], []);
+    expect(stats.count).toBe(0);
+    expect(stats.totalProfit).toBe(0);
+    expect(stats.inventoryValue).toBe(0);
+  });
+});
+
+describe('getStockItems', () => {
+  it('keeps unsold items, longest-held first', () => {
+    const items = [
+      sale({ status: ItemStatus.LISTED, purchaseDate: '2026-03-01' }),
+      sale({ status: ItemStatus.SOLD, date: '2026-03-05' }),
+      sale({ status: ItemStatus.RESERVED, purchaseDate: '2026-01-15' }),
+    ];
+    expect(getStockItems(items).map(item => item.purchaseDate)).toEqual(['2026-01-15', '2026-03-01']);
+  });
+});
+
+describe('buildMonthlyReport', () => {
+  it('covers only the month and counts the stock held at its end', () => {
+    const items = [
+      sale({ date: '2026-02-20', sellingPrice: 1000, cost: 600 }),
+      sale({ date: '2026-02-03', sellingPrice: 800, cost: 500, type: 'แอมป์' }),
+      sale({ date: '2026-03-10', sellingPrice: 900, cost: 400 }), // Still held at the end of February
+      sale({ status: ItemStatus.LISTED, purchaseDate: '2026-02-15', cost: 250 }),
+      sale({ status: ItemStatus.LISTED, purchaseDate: '2026-03-02', cost: 999 }), // Bought after February
+    ];
+
+    const report = buildMonthlyReport(items, '2026-02', defaultCategories());
+
+    expect(report.sales.map(item => item.date)).toEqual(['2026-02-03', '2026-02-20']);
+    expect(report.stats.totalProfit).toBe(700);
+    expect(report.stats.inventoryCount).toBe(2);
+    expect(report.stats.inventoryValue).toBe(650);
+    // Built-in category order: speakers before amplifiers
+    expect(report.categories.map(row => row.label)).toEqual(['ลำโพง', 'แอมป์']);
+  });
+});
+
+describe('buildMonthlyTrends', () => {
+  it('fills months without sales so the time axis stays continuous', () => {
+    const trends = buildMonthlyTrends([
+      sale({ date: '2026-01-10', sellingPrice: 1000, cost: 800 }),
+      sale({ date: '2026-03-05', sellingPrice: 1000, cost: 600 }),
+    ]);
+
+    expect(trends.map(trend => trend.month)).toEqual(['2026-01', '2026-02', '2026-03']);
+    expect(trends[1]).toMatchObject({ count: 0, profit: 0, margin: null });
+    expect(trends[2].profitChangeMoM).toBeNull(); // No change from a month with no profit
+    expect(trends[2].profit).toBe(400);
+  });
+});
+
+describe('buildProfitability', () => {
+  it('groups brand spellings together and counts losses', () => {
+    const rows = buildProfitability([
+      sale({ brand: 'Marantz', sellingPrice: 5000, cost: 4000, date: '2026-01-01' }),
+      sale({ brand: 'marantz ', sellingPrice: 3000, cost: 3500, date: '2026-01-02' }),
+    ], ProfitGrouping.BRAND);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ label: 'Marantz', units: 2, profit: 500, lossCount: 1 });
+  });
+});
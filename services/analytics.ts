@@ -0,0 +1,175 @@
+import { SaleItem, ItemStatus, MonthlyTrend, ProfitGrouping, ProfitabilityRow, ChannelSummary, PaymentStatus, SummaryStats,
+  MonthlyReport, Category, IN_STOCK_STATUSES } from '../types';
+import { getItemCost, calculateProfit, emptyCostBreakdown, addToCostBreakdown } from './profit';
+import { catalogKey } from './catalog';
+
+const percentChange = (current: number, previous: number | undefined): number | null => {
+  if (previous === undefined || previous === 0) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+};
+
+const nextMonth = (month: string): string => {
+  const [year, m] = month.split('-').map(Number);
+  return m === 12 ? `${year + 1}-01` : `${year}-${String(m + 1).padStart(2, '0')}`;
+};
+
+const shiftYear = (month: string, years: number): string =>
+  `${Number(month.substring(0, 4)) + years}${month.substring(4)}`;
+
+// One entry per calendar month from the first to the last sale, including empty
+// months, so charts keep a true time axis and comparisons line up.
+export const buildMonthlyTrends = (sales: SaleItem[]): MonthlyTrend[] => {
+  const totals = new Map<string, { revenue: number; cost: number; count: number }>();
+
+  sales.forEach(sale => {
+    if (sale.status !== ItemStatus.SOLD || !sale.date) return;
+    const month = sale.date.substring(0, 7);
+    const entry = totals.get(month) ?? { revenue: 0, cost: 0, count: 0 };
+    const { revenue, profit } = calculateProfit(sale);
+    entry.revenue += revenue;
+    // Channel fees count as cost so revenue - cost matches the item's profit
+    entry.cost += revenue - profit;
+    entry.count += 1;
+    totals.set(month, entry);
+  });
+
+  if (totals.size === 0) return [];
+
+  const sortedMonths = Array.from(totals.keys()).sort();
+  const last = sortedMonths[sortedMonths.length - 1];
+  const months: string[] = [];
+  for (let month = sortedMonths[0]; month <= last; month = nextMonth(month)) {
+    months.push(month);
+  }
+
+  const profitByMonth = new Map<string, number>();
+  return months.map((month, index) => {
+    const { revenue, cost, count } = totals.get(month) ?? { revenue: 0, cost: 0, count: 0 };
+    const profit = revenue - cost;
+    profitByMonth.set(month, profit);
+    return {
+      month,
+      revenue,
+      cost,
+      profit,
+      count,
+      margin: revenue > 0 ? (profit / revenue) * 100 : null,
+      avgProfit: count > 0 ? profit / count : null,
+      profitChangeMoM: index > 0 ? percentChange(profit, profitByMonth.get(months[index - 1])) : null,
+      profitChangeYoY: percentChange(profit, profitByMonth.get(shiftYear(month, -1))),
+    };
+  });
+};
+
+// Spelling variants ("Marantz", "marantz ") group together under the first spelling seen
+const groupKey = (sale: SaleItem, grouping: ProfitGrouping): { key: string; label: string } => {
+  const brand = sale.brand.trim();
+  switch (grouping) {
+    case ProfitGrouping.BRAND:
+      return { key: catalogKey(brand), label: brand };
+    case ProfitGrouping.BRAND_MODEL: {
+      const model = sale.model.trim();
+      return { key: `${catalogKey(brand)}|${catalogKey(model)}`, label: `${brand} ${model}` };
+    }
+    default:
+      return { key: sale.type, label: sale.type };
+  }
+};
+
+export const buildProfitability = (sales: SaleItem[], grouping: ProfitGrouping): ProfitabilityRow[] => {
+  const rows = new Map<string, ProfitabilityRow & { marginSum: number; marginCount: number }>();
+
+  sales.forEach(sale => {
+    if (sale.status !== ItemStatus.SOLD) return;
+    const { key, label } = groupKey(sale, grouping);
+    const row = rows.get(key) ?? {
+      key, label, units: 0, revenue: 0, cost: 0, profit: 0, avgMargin: null, lossCount: 0, items: [],
+      marginSum: 0, marginCount: 0
+    };
+    const { revenue, profit } = calculateProfit(sale);
+    const cost = revenue - profit;
+
+    row.units += 1;
+    row.revenue += revenue;
+    row.cost += cost;
+    row.profit += profit;
+    if (profit < 0) row.lossCount += 1;
+    if (revenue > 0) {
+      row.marginSum += (profit / revenue) * 100;
+      row.marginCount += 1;
+    }
+    row.items.push(sale);
+    rows.set(key, row);
+  });
+
+  return Array.from(rows.values()).map(({ marginSum, marginCount, ...row }) => ({
+    ...row,
+    avgMargin: marginCount > 0 ? marginSum / marginCount : null
+  }));
+};
+
+export const buildChannelSummary = (sales: SaleItem[]): ChannelSummary[] => {
+  const rows = new Map<string, ChannelSummary>();
+
+  sales.forEach(sale => {
+    if (sale.status !== ItemStatus.SOLD) return;
+    const channel = sale.channel ?? null;
+    const key = channel ?? '';
+    const row = rows.get(key) ?? { channel, units: 0, revenue: 0, fees: 0, profit: 0, outstanding: 0 };
+    row.units += 1;
+    const { revenue, fees, profit } = calculateProfit(sale);
+    row.revenue += revenue;
+    row.fees += fees;
+    row.profit += profit;
+    if (sale.paymentStatus && sale.paymentStatus !== PaymentStatus.PAID) row.outstanding += 1;
+    rows.set(key, row);
+  });
+
+  return Array.from(rows.values()).sort((a, b) => b.revenue - a.revenue);
+};
+
+export const isInStock = (item: SaleItem) => IN_STOCK_STATUSES.includes(item.status);
+
+// What we hold right now, longest-held first
+export const getStockItems = (sales: SaleItem[]): SaleItem[] =>
+  sales.filter(isInStock).sort((a, b) => a.purchaseDate.localeCompare(b.purchaseDate));
+
+// Totals for the sold items, plus what is tied up in the stock items
+export const buildSummaryStats = (sold: SaleItem[], stock: SaleItem[]): SummaryStats => {
+  const realized = sold.reduce((acc, curr) => {
+    const { cost, revenue, fees, profit } = calculateProfit(curr);
+
+    return {
+      totalCost: acc.totalCost + cost,
+      totalRevenue: acc.totalRevenue + revenue,
+      totalProfit: acc.totalProfit + profit,
+      count: acc.count + 1,
+      totalFees: acc.totalFees + fees,
+      costBreakdown: addToCostBreakdown(acc.costBreakdown, curr)
+    };
+  }, { totalCost: 0, totalRevenue: 0, totalProfit: 0, count: 0, totalFees: 0, costBreakdown: emptyCostBreakdown() });
+
+  const inventoryValue = stock.reduce((sum, item) => sum + getItemCost(item), 0);
+
+  return { ...realized, inventoryValue, inventoryCount: stock.length };
+};
+
+// Bought by the end of the month and not sold by then. Items that are unsold today
+// count for every month since they were bought; sold ones until the month they sold.
+const heldAtMonthEnd = (item: SaleItem, month: string): boolean => {
+  if (item.purchaseDate.substring(0, 7) > month) return false;
+  if (item.status === ItemStatus.SOLD) return !!item.date && item.date.substring(0, 7) > month;
+  return isInStock(item);
+};
+
+export const buildMonthlyReport = (sales: SaleItem[], month: string, categories: Category[]): MonthlyReport => {
+  const sold = sales
+    .filter(item => item.status === ItemStatus.SOLD && item.date?.startsWith(month))
+    .sort((a, b) => (a.date ?? '').localeCompare(b.date ?? ''));
+  const stock = sales.filter(item => heldAtMonthEnd(item, month));
+  const order = new Map(categories.map((category, index) => [category.name, index]));
+  const rows = buildProfitability(sold, ProfitGrouping.TYPE)
+    .sort((a, b) => (order.get(a.key) ?? categories.length) - (order.get(b.key) ?? categories.length));
+
+  return { month, stats: buildSummaryStats(sold, stock), sales: sold, categories: rows };
+};
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { SaleItem, CostCategory, AuditAction } from '../types';
+import { diffItems, buildAuditEntries, appendAuditEntries, getItemHistory, restoreFromEntry, MAX_AUDIT_ENTRIES } from './audit';
+import { soldAmp } from './testUtils';
+
+const AT = '2026-03-02T10:00:00.000Z';
+
+describe('diffItems', () => {
+  it('lists each changed field with its old and new value', () => {
+    const before = soldAmp({ note: 'scratch on lid', updatedAt: '2026-03-01T00:00:00Z' });
+    const after: SaleItem = { ...before, sellingPrice: 900, tags: ['vintage'], updatedAt: AT };
+    delete after.note;
+    expect(diffItems(before, after)).toEqual([
+      { field: 'sellingPrice', before: 9000, after: 900 },
+      { field: 'note', before: 'scratch on lid' },
+      { field: 'tags', after: ['vintage'] }
+    ]);
+  });
+
+  it('compares lists by content', () => {
+    const costs = [{ id: 'c1', category: CostCategory.PURCHASE, amount: 6000 }];
+    expect(diffItems(soldAmp({ costs }), soldAmp({ costs: costs.map(entry => ({ ...entry })) }))).toEqual([]);
+  });
+});
+
+describe('buildAuditEntries', () => {
+  it('records creates, edits and deletes, skipping untouched items', () => {
+    const kept = soldAmp({ id: 'kept' });
+    const edited = soldAmp({ id: 'edited' });
+    const removed = soldAmp({ id: 'removed' });
+    const added = soldAmp({ id: 'added' });
+    const next = [added, kept, { ...edited, sellingPrice: 8500 }];
+
+    const entries = buildAuditEntries([kept, edited, removed], next, { at: AT });
+    expect(entries.map(entry => [entry.itemId, entry.action])).toEqual([
+      ['added', AuditAction.CREATE],
+      ['edited', AuditAction.UPDATE],
+      ['removed', AuditAction.DELETE]
+    ]);
+    expect(entries[0].before).toBeNull();
+    expect(entries[0].changes).toContainEqual({ field: 'brand', after: 'Marantz' });
+    expect(entries[1].changes).toEqual([{ field: 'sellingPrice', before: 9000, after: 8500 }]);
+    expect(entries[2].before).toBe(removed);
+    expect(entries.every(entry => entry.at === AT)).toBe(true);
+  });
+
+  it('marks changes that came in through sync', () => {
+    const item = soldAmp({});
+    const [entry] = buildAuditEntries([item], [], { at: AT, fromSync: true });
+    expect(entry).toMatchObject({ action: AuditAction.DELETE, fromSync: true });
+    expect(buildAuditEntries([item], [], { at: AT })[0].fromSync).toBeUndefined();
+  });
+
+  it('ignores a save that changed nothing', () => {
+    const item = soldAmp({});
+    expect(buildAuditEntries([item], [{ ...item, updatedAt: AT }], { at: AT })).toEqual([]);
+  });
+});
+
+describe('appendAuditEntries', () => {
+  it('drops the oldest entries past the cap', () => {
+    const [entry] = buildAuditEntries([], [soldAmp({})], { at: AT });
+    const full = Array.from({ length: MAX_AUDIT_ENTRIES }, (_, index) => ({ ...entry, id: `old-${index}` }));
+    const log = appendAuditEntries(full, [entry]);
+    expect(log).toHaveLength(MAX_AUDIT_ENTRIES);
+    expect(log[0].id).toBe('old-1');
+    expect(log[log.length - 1]).toBe(entry);
+  });
+});
+
+describe('restoreFromEntry', () => {
+  it('brings back a deleted item', () => {
+    const removed = soldAmp({});
+    const other = soldAmp({ id: 'b1' });
+    const [entry] = buildAuditEntries([removed, other], [other], { at: AT });
+    expect(restoreFromEntry([other], entry)).toEqual([removed, other]);
+  });
+
+  it('undoes a mistaken edit, and shows in the item history', () => {
+    const original = soldAmp({});
+    const mistyped = { ...original, sellingPrice: 90 };
+    const [entry] = buildAuditEntries([original], [mistyped], { at: AT });
+    expect(restoreFromEntry([mistyped], entry)).toEqual([original]);
+    expect(getItemHistory([entry], original.id)).toEqual([entry]);
+    expect(getItemHistory([entry], 'b1')).toEqual([]);
+  });
+});
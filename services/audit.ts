@@ -0,0 +1,69 @@
+import { SaleItem, AuditEntry, AuditAction, FieldChange } from '../types';
+import { stableStringify } from './backup';
+
+// Years of everyday edits; past that the oldest entries make way
+export const MAX_AUDIT_ENTRIES = 2000;
+
+// The id never changes, and updatedAt is restamped on every edit, so neither says anything
+const IGNORED_FIELDS = new Set<string>(['id', 'updatedAt']);
+
+// Fields that differ, in the order they appear on the item. A field missing on one
+// side is left out of that side rather than stored as undefined.
+export const diffItems = (before: Partial<SaleItem>, after: Partial<SaleItem>): FieldChange[] => {
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])) as (keyof SaleItem)[];
+  return fields
+    .filter(field => !IGNORED_FIELDS.has(field) && stableStringify(before[field]) !== stableStringify(after[field]))
+    .map(field => ({
+      field,
+      ...(before[field] !== undefined ? { before: before[field] } : {}),
+      ...(after[field] !== undefined ? { after: after[field] } : {}),
+    }));
+};
+
+interface AuditOptions {
+  at?: string; // Defaults to now
+  fromSync?: boolean; // The change came from another device, or from settling a sync conflict
+}
+
+// One entry per item created, changed or removed between two versions of the list.
+// Like touchChanged, it relies on unchanged items keeping their identity.
+export const buildAuditEntries = (
+  prev: SaleItem[],
+  next: SaleItem[],
+  { at = new Date().toISOString(), fromSync = false }: AuditOptions = {}
+): AuditEntry[] => {
+  const untouched = new Set(prev);
+  const prevById = new Map(prev.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+  const entry = (itemId: string, action: AuditAction, changes: FieldChange[], before: SaleItem | null): AuditEntry =>
+    ({ id: crypto.randomUUID(), itemId, at, action, changes, before, ...(fromSync ? { fromSync } : {}) });
+
+  const written = next.flatMap(item => {
+    if (untouched.has(item)) return [];
+    const before = prevById.get(item.id);
+    if (!before) return [entry(item.id, AuditAction.CREATE, diffItems({}, item), null)];
+    const changes = diffItems(before, item);
+    return changes.length > 0 ? [entry(item.id, AuditAction.UPDATE, changes, before)] : [];
+  });
+  const deleted = prev
+    .filter(item => !nextIds.has(item.id))
+    .map(item => entry(item.id, AuditAction.DELETE, [], item));
+  return [...written, ...deleted];
+};
+
+// The log is kept oldest first
+export const appendAuditEntries = (log: AuditEntry[], entries: AuditEntry[]): AuditEntry[] =>
+  entries.length === 0 ? log : [...log, ...entries].slice(-MAX_AUDIT_ENTRIES);
+
+export const getItemHistory = (log: AuditEntry[], itemId: string): AuditEntry[] =>
+  log.filter(entry => entry.itemId === itemId).reverse();
+
+// Puts the item back as it was before the change: a deleted item returns to the top
+// of the list, one that still exists is overwritten with the earlier version
+export const restoreFromEntry = (sales: SaleItem[], entry: AuditEntry): SaleItem[] => {
+  const version = entry.before;
+  if (!version) return sales;
+  return sales.some(item => item.id === version.id)
+    ? sales.map(item => (item.id === version.id ? version : item))
+    : [version, ...sales];
+};
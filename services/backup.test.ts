@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { Language } from '../types';
+import { createBackup, parseBackup } from './backup';
+import { DEFAULT_SETTINGS } from './storage';
+import { createTranslator } from './i18n';
+import { soldAmp } from './testUtils';
+
+const t = createTranslator(Language.EN);
+
+describe('createBackup', () => {
+  it('leaves out the sync connection and its token', async () => {
+    const settings = { ...DEFAULT_SETTINGS, sync: { serverUrl: 'https://sync.example', token: 'secret-token' } };
+    const file = await createBackup([soldAmp()], [], settings);
+    const text = JSON.stringify(file);
+
+    expect(text).not.toContain('secret-token');
+    expect(file.data.settings).toEqual(DEFAULT_SETTINGS);
+    expect((await parseBackup(text, t)).data.settings).toEqual(DEFAULT_SETTINGS);
+  });
+});
@@ -0,0 +1,144 @@
+import { SaleItem, AppSettings, PhotoRecord, Expense } from '../types';
+import { SCHEMA_VERSION, mergeSettings, decodeStoredData } from './storage';
+import { Translator } from './i18n';
+
+const BACKUP_FORMAT = 'audiosale-backup';
+
+export interface BackupData {
+  sales: SaleItem[];
+  settings: AppSettings;
+  photos?: PhotoRecord[]; // Missing in backups made before photos existed
+  expenses?: Expense[]; // Missing in backups made before the expense ledger existed
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string; // ISO String
+  recordCount: number;
+  checksum: string; // SHA-256 hex of the canonical JSON of `data`
+  data: BackupData;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupDiff {
+  added: SaleItem[];
+  changed: SaleItem[];
+  unchanged: number;
+  removed: SaleItem[]; // Only removed when restoring in replace mode
+}
+
+export class BackupError extends Error {}
+
+// JSON with sorted keys, so equal records hash and compare equal regardless of key order
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const isPhotoRecord = (value: unknown): value is PhotoRecord => {
+  const photo = value as PhotoRecord;
+  return typeof photo === 'object' && photo !== null &&
+    typeof photo.id === 'string' && typeof photo.image === 'string' && typeof photo.thumbnail === 'string';
+};
+
+export const createBackup = async (
+  sales: SaleItem[],
+  expenses: Expense[],
+  settings: AppSettings,
+  photos: PhotoRecord[] = []
+): Promise<BackupFile> => {
+  // The sync connection belongs to this device, and its token shouldn't sit in a file in plain text
+  const { sync, ...portableSettings } = settings;
+  const data: BackupData = { sales, settings: portableSettings, photos, expenses };
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    recordCount: sales.length,
+    checksum: await sha256(stableStringify(data)),
+    data,
+  };
+};
+
+// Validates a backup file and upgrades its records to the current schema.
+// Throws BackupError with a message suitable for showing to the user.
+export const parseBackup = async (text: string, t: Translator): Promise<BackupFile> => {
+  let file: Partial<BackupFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new BackupError(t('backup.error.notJson'));
+  }
+
+  if (file?.format !== BACKUP_FORMAT || !file.data || !Array.isArray(file.data.sales)) {
+    throw new BackupError(t('backup.error.notBackup'));
+  }
+  if (typeof file.schemaVersion !== 'number' || file.schemaVersion > SCHEMA_VERSION) {
+    throw new BackupError(t('backup.error.newerVersion'));
+  }
+  if (file.recordCount !== file.data.sales.length) {
+    throw new BackupError(t('backup.error.countMismatch', { expected: String(file.recordCount), actual: file.data.sales.length }));
+  }
+  if (file.checksum !== await sha256(stableStringify(file.data))) {
+    throw new BackupError(t('backup.error.checksum'));
+  }
+
+  if (file.data.photos !== undefined && !(Array.isArray(file.data.photos) && file.data.photos.every(isPhotoRecord))) {
+    throw new BackupError(t('backup.error.photos'));
+  }
+
+  const { sales, expenses, quarantined } = decodeStoredData({
+    version: file.schemaVersion,
+    sales: file.data.sales,
+    expenses: file.data.expenses ?? [],
+  });
+  if (quarantined.length > 0) {
+    throw new BackupError(t('backup.error.invalidRecords', { count: quarantined.length }));
+  }
+
+  return {
+    ...(file as BackupFile),
+    schemaVersion: SCHEMA_VERSION,
+    data: { sales, settings: mergeSettings(file.data.settings ?? {}), photos: file.data.photos ?? [], expenses },
+  };
+};
+
+export const diffBackup = (current: SaleItem[], incoming: SaleItem[]): BackupDiff => {
+  const currentById = new Map(current.map(item => [item.id, item]));
+  const incomingIds = new Set(incoming.map(item => item.id));
+  const diff: BackupDiff = { added: [], changed: [], unchanged: 0, removed: [] };
+
+  incoming.forEach(item => {
+    const existing = currentById.get(item.id);
+    if (!existing) diff.added.push(item);
+    else if (stableStringify(existing) !== stableStringify(item)) diff.changed.push(item);
+    else diff.unchanged++;
+  });
+  diff.removed = current.filter(item => !incomingIds.has(item.id));
+  return diff;
+};
+
+// Works for any records keyed by id, so expenses are restored the same way as sales
+export const applyRestore = <T extends { id: string }>(current: T[], incoming: T[], mode: RestoreMode): T[] => {
+  if (mode === 'replace') return incoming;
+  const incomingById = new Map(incoming.map(item => [item.id, item]));
+  const currentIds = new Set(current.map(item => item.id));
+  return [
+    ...incoming.filter(item => !currentIds.has(item.id)),
+    ...current.map(item => incomingById.get(item.id) ?? item),
+  ];
+};
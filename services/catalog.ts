@@ -0,0 +1,133 @@
+import { SaleItem, ItemStatus, CostCategory } from '../types';
+import { getCostByCategory, getItemProfit } from './profit';
+
+export interface CatalogModel {
+  key: string;
+  name: string; // Most used spelling
+  type: string; // Most used equipment type
+  count: number;
+}
+
+export interface CatalogBrand {
+  key: string;
+  name: string; // Most used spelling
+  spellings: { name: string; count: number }[]; // Most used first
+  count: number;
+  models: CatalogModel[];
+}
+
+export interface PriceHistoryEntry {
+  item: SaleItem;
+  buyPrice: number;
+  sellPrice?: number; // Only for completed sales
+  profit?: number;
+}
+
+export interface PriceHistory {
+  entries: PriceHistoryEntry[]; // Newest first
+  avgBuy: number | null;
+  avgSell: number | null;
+  minSell: number | null;
+  maxSell: number | null;
+}
+
+// "MARANTZ ", "marantz" and "Marantz" are the same brand
+export const catalogKey = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// On a tie, "Marantz" reads better than "marantz" or "MARANTZ"
+const spellingScore = (name: string) =>
+  (name[0] !== name[0].toLowerCase() ? 1 : 0) + (name !== name.toUpperCase() ? 1 : 0);
+
+const bySpelling = (a: [string, number], b: [string, number]) =>
+  b[1] - a[1] || spellingScore(b[0]) - spellingScore(a[0]) || a[0].localeCompare(b[0]);
+
+const mostUsed = (counts: Map<string, number>): string =>
+  [...counts.entries()].sort(bySpelling)[0]?.[0] ?? '';
+
+const increment = (counts: Map<string, number>, value: string) => counts.set(value, (counts.get(value) ?? 0) + 1);
+
+export const buildCatalog = (sales: SaleItem[]): CatalogBrand[] => {
+  const brands = new Map<string, { spellings: Map<string, number>; models: Map<string, { spellings: Map<string, number>; types: Map<string, number> }> }>();
+
+  sales.forEach(item => {
+    const brandKey = catalogKey(item.brand);
+    const modelKey = catalogKey(item.model);
+    if (!brandKey) return;
+
+    const brand = brands.get(brandKey) ?? { spellings: new Map(), models: new Map() };
+    brands.set(brandKey, brand);
+    increment(brand.spellings, item.brand.trim().replace(/\s+/g, ' '));
+
+    if (!modelKey) return;
+    const model = brand.models.get(modelKey) ?? { spellings: new Map(), types: new Map() };
+    brand.models.set(modelKey, model);
+    increment(model.spellings, item.model.trim().replace(/\s+/g, ' '));
+    increment(model.types, item.type);
+  });
+
+  return [...brands.entries()]
+    .map(([key, brand]) => ({
+      key,
+      name: mostUsed(brand.spellings),
+      spellings: [...brand.spellings.entries()]
+        .sort(bySpelling)
+        .map(([name, count]) => ({ name, count })),
+      count: [...brand.spellings.values()].reduce((sum, count) => sum + count, 0),
+      models: [...brand.models.entries()]
+        .map(([modelKey, model]) => ({
+          key: modelKey,
+          name: mostUsed(model.spellings),
+          type: mostUsed(model.types),
+          count: [...model.spellings.values()].reduce((sum, count) => sum + count, 0),
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const findBrand = (catalog: CatalogBrand[], name: string) =>
+  catalog.find(brand => brand.key === catalogKey(name));
+
+export const findModel = (catalog: CatalogBrand[], brandName: string, modelName: string) =>
+  findBrand(catalog, brandName)?.models.find(model => model.key === catalogKey(modelName));
+
+// Known brands are saved under their usual spelling; new ones are only tidied up
+export const resolveBrandName = (catalog: CatalogBrand[], name: string) =>
+  findBrand(catalog, name)?.name ?? name.trim().replace(/\s+/g, ' ');
+
+// Rewrites every item of the given brands to one spelling. Returns the same array when nothing changes.
+export const mergeBrands = (sales: SaleItem[], fromKeys: string[], toName: string): SaleItem[] => {
+  const keys = new Set(fromKeys);
+  if (!sales.some(item => keys.has(catalogKey(item.brand)) && item.brand !== toName)) return sales;
+  return sales.map(item => (keys.has(catalogKey(item.brand)) && item.brand !== toName ? { ...item, brand: toName } : item));
+};
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null);
+
+// What we paid and got for this brand + model before, to help price the next one
+export const getPriceHistory = (sales: SaleItem[], brandName: string, modelName: string, excludeId?: string): PriceHistory => {
+  const brandKey = catalogKey(brandName);
+  const modelKey = catalogKey(modelName);
+
+  const entries = sales
+    .filter(item => item.id !== excludeId && catalogKey(item.brand) === brandKey && catalogKey(item.model) === modelKey)
+    .sort((a, b) => (b.date ?? b.purchaseDate).localeCompare(a.date ?? a.purchaseDate))
+    .map(item => {
+      const sold = item.status === ItemStatus.SOLD && item.sellingPrice !== undefined;
+      return {
+        item,
+        buyPrice: getCostByCategory(item, CostCategory.PURCHASE),
+        ...(sold ? { sellPrice: item.sellingPrice, profit: getItemProfit(item) } : {}),
+      };
+    });
+
+  const buys = entries.map(entry => entry.buyPrice).filter(price => price > 0);
+  const sells = entries.flatMap(entry => (entry.sellPrice !== undefined ? [entry.sellPrice] : []));
+  return {
+    entries,
+    avgBuy: average(buys),
+    avgSell: average(sells),
+    minSell: sells.length > 0 ? Math.min(...sells) : null,
+    maxSell: sells.length > 0 ? Math.max(...sells) : null,
+  };
+};
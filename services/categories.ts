@@ -0,0 +1,65 @@
+import { SaleItem, Category, EquipmentType } from '../types';
+import { catalogKey } from './catalog';
+
+// Colours handed out to new categories, in order
+export const CATEGORY_PALETTE = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d', '#e879f9', '#f43f5e', '#14b8a6', '#a3a3a3'];
+
+export const defaultCategories = (): Category[] =>
+  Object.entries(EquipmentType).map(([key, name], index) => ({
+    id: key.toLowerCase(),
+    name,
+    color: CATEGORY_PALETTE[index % CATEGORY_PALETTE.length],
+  }));
+
+const nextColor = (categories: Category[]) => {
+  const used = new Set(categories.map(category => category.color.toLowerCase()));
+  return CATEGORY_PALETTE.find(color => !used.has(color.toLowerCase())) ?? CATEGORY_PALETTE[categories.length % CATEGORY_PALETTE.length];
+};
+
+export const findCategory = (categories: Category[], name: string) =>
+  categories.find(category => catalogKey(category.name) === catalogKey(name));
+
+// Records imported, restored or synced in may use a type that isn't configured here;
+// those are listed after the user's own categories so they can still be filtered and merged.
+export const resolveCategories = (configured: Category[], sales: SaleItem[]): Category[] => {
+  const resolved = [...configured];
+  sales.forEach(item => {
+    if (!item.type || resolved.some(category => category.name === item.type)) return;
+    resolved.push({ id: `type:${item.type}`, name: item.type, color: nextColor(resolved) });
+  });
+  return resolved;
+};
+
+export const countByCategory = (sales: SaleItem[]) => {
+  const counts = new Map<string, number>();
+  sales.forEach(item => counts.set(item.type, (counts.get(item.type) ?? 0) + 1));
+  return counts;
+};
+
+// Returns null when the name is empty or already taken
+export const addCategory = (categories: Category[], name: string): Category[] | null => {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  if (!trimmed || findCategory(categories, trimmed)) return null;
+  return [...categories, { id: crypto.randomUUID(), name: trimmed, color: nextColor(categories) }];
+};
+
+export const updateCategory = (categories: Category[], id: string, patch: Partial<Omit<Category, 'id'>>): Category[] =>
+  categories.map(category => (category.id === id ? { ...category, ...patch } : category));
+
+export const moveCategory = (categories: Category[], id: string, offset: -1 | 1): Category[] => {
+  const from = categories.findIndex(category => category.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= categories.length) return categories;
+  const next = [...categories];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+};
+
+export const removeCategory = (categories: Category[], id: string): Category[] =>
+  categories.filter(category => category.id !== id);
+
+// Moves every item from one category name to another. Returns the same array when nothing changes.
+export const renameCategoryInSales = (sales: SaleItem[], fromName: string, toName: string): SaleItem[] => {
+  if (fromName === toName || !sales.some(item => item.type === fromName)) return sales;
+  return sales.map(item => (item.type === fromName ? { ...item, type: toName } : item));
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { CostCategory, EquipmentType, ItemStatus, Language, SalesChannel } from '../types';
+import { salesToCsv, parseCsv, guessMapping, buildImportRows } from './csv';
+import { defaultCategories } from './categories';
+import { createTranslator } from './i18n';
+import { sale, soldAmp } from './testUtils';
+
+const t = createTranslator(Language.EN);
+
+const importCsv = (csv: string, existing = [sale()]) => {
+  const rows = parseCsv(csv);
+  return buildImportRows(rows, guessMapping(rows[0]), existing, defaultCategories(), true, t);
+};
+
+describe('salesToCsv', () => {
+  it('keeps text from running as a formula in a spreadsheet', () => {
+    const item = soldAmp({ brand: '=HYPERLINK("http://x")', model: '+1', note: '@home', tags: ['-dented'], cost: 9500 });
+    const [header, row] = parseCsv(salesToCsv([item]));
+    const cell = (name: string) => row[header.indexOf(name)];
+
+    expect(cell('brand')).toBe(`'=HYPERLINK("http://x")`);
+    expect(cell('model')).toBe("'+1");
+    expect(cell('note')).toBe("'@home");
+    expect(cell('tags')).toBe("'-dented");
+    expect(cell('profit')).toBe('-500');
+  });
+
+  it('reads guarded text back as it was', () => {
+    const item = soldAmp({ brand: '=HYPERLINK("http://x")', model: '+1', note: '@home', tags: ['-dented'] });
+    const [row] = importCsv(salesToCsv([item]));
+    expect(row.item).toMatchObject({ brand: '=HYPERLINK("http://x")', model: '+1', note: '@home', tags: ['-dented'] });
+  });
+});
+
+describe('buildImportRows', () => {
+  it('reads back what the export wrote', () => {
+    const exported = soldAmp({
+      purchaseDate: '2026-02-10',
+      costs: [
+        { id: 'c1', category: CostCategory.PURCHASE, amount: 6000 },
+        { id: 'c2', category: CostCategory.SHIPPING, amount: 150 },
+        { id: 'c3', category: CostCategory.REPAIR, amount: 400 }
+      ],
+      channel: SalesChannel.SHOPEE,
+      channelFee: 900,
+      note: 'recapped',
+      tags: ['vintage', 'needs service']
+    });
+    const [row] = importCsv(salesToCsv([exported]));
+
+    expect(row.errors).toEqual([]);
+    expect(row.item).toMatchObject({
+      brand: 'Marantz', model: 'PM6006', type: 'แอมป์', status: ItemStatus.SOLD,
+      purchaseDate: '2026-02-10', date: '2026-03-01', sellingPrice: 9000,
+      channel: SalesChannel.SHOPEE, channelFee: 900, note: 'recapped', tags: ['vintage', 'needs service']
+    });
+    expect(row.item!.costs.map(({ category, amount }) => [category, amount])).toEqual([
+      [CostCategory.PURCHASE, 6000],
+      [CostCategory.SHIPPING, 150],
+      [CostCategory.OTHER, 400]
+    ]);
+  });
+
+  it('matches brands and types to the spellings already in use', () => {
+    const [row] = importCsv('brand,model,type,cost\n SONY ,TA-F3A,แอมป์ ,1000', [sale({ brand: 'Sony' })]);
+    expect(row.item).toMatchObject({ brand: 'Sony', type: 'แอมป์' });
+  });
+
+  it('files rows without a type under the catch-all category', () => {
+    const [row] = importCsv('brand,model,cost\nSony,TA-F3A,1000');
+    expect(row.item!.type).toBe(EquipmentType.OTHER);
+  });
+});
@@ -0,0 +1,272 @@
+import { SaleItem, ItemStatus, EquipmentType, CostCategory, Category, SalesChannel } from '../types';
+import { getItemCost, getCostByCategory, getItemProfit } from './profit';
+import { downloadFile } from './download';
+import { toLocalISODate } from './filters';
+import { validateSaleItem, buildDuplicateIndex, addToDuplicateIndex } from './validation';
+import { Translator } from './i18n';
+import { buildCatalog, resolveBrandName } from './catalog';
+import { findCategory } from './categories';
+import { addTags } from './tags';
+
+// Excel only detects UTF-8 (and therefore Thai text) when the file starts with a BOM
+const UTF8_BOM = '\uFEFF';
+
+export type ImportField =
+  | 'brand'
+  | 'type'
+  | 'model'
+  | 'costPrice'
+  | 'shippingCost'
+  | 'otherCosts'
+  | 'channel'
+  | 'channelFee'
+  | 'sellingPrice'
+  | 'purchaseDate'
+  | 'date'
+  | 'note'
+  | 'tags';
+
+// Labels come from the `importField.*` messages; aliases match header names in either language
+export const IMPORT_FIELDS: { field: ImportField; required: boolean; aliases: string[] }[] = [
+  { field: 'brand', required: true, aliases: ['brand', 'ยี่ห้อ', 'แบรนด์'] },
+  { field: 'type', required: false, aliases: ['type', 'category', 'ประเภท', 'หมวด'] },
+  { field: 'model', required: true, aliases: ['model', 'รุ่น'] },
+  { field: 'costPrice', required: false, aliases: ['costprice', 'cost', 'ราคาทุน', 'ทุน'] },
+  { field: 'shippingCost', required: false, aliases: ['shippingcost', 'shipping', 'ค่าส่ง', 'ค่าส่ง/ห่อ'] },
+  { field: 'otherCosts', required: false, aliases: ['othercosts', 'ต้นทุนอื่น', 'ค่าใช้จ่ายอื่น'] },
+  { field: 'channel', required: false, aliases: ['channel', 'ช่องทาง', 'ช่องทางขาย'] },
+  { field: 'channelFee', required: false, aliases: ['channelfee', 'fee', 'ค่าธรรมเนียม'] },
+  { field: 'sellingPrice', required: false, aliases: ['sellingprice', 'price', 'ราคาขาย', 'ราคาขายจริง'] },
+  { field: 'purchaseDate', required: false, aliases: ['purchasedate', 'วันที่ซื้อ', 'วันที่ซื้อเข้า'] },
+  { field: 'date', required: false, aliases: ['date', 'วันที่', 'วันที่ขาย'] },
+  { field: 'note', required: false, aliases: ['note', 'notes', 'หมายเหตุ'] },
+  { field: 'tags', required: false, aliases: ['tags', 'tag', 'แท็ก'] },
+];
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportRow {
+  rowNumber: number; // 1-based row in the source sheet, for error messages
+  item?: SaleItem;
+  errors: string[];
+  warnings: string[];
+  duplicate: boolean;
+}
+
+// Spreadsheets run text starting with one of these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Text typed by the user is kept from running as a formula by a leading apostrophe, which
+// spreadsheets hide; numbers are ours, and a negative profit has to stay a number
+const escapeCell = (value: string | number | undefined): string => {
+  const raw = value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Itemized costs are flattened to purchase, shipping and everything else, which is
+// what a spreadsheet (and our import) expects
+export const salesToCsv = (sales: SaleItem[]): string => {
+  const header = [
+    'id', 'status', 'purchaseDate', 'date', 'type', 'brand', 'model',
+    'costPrice', 'shippingCost', 'otherCosts', 'channel', 'channelFee', 'sellingPrice', 'profit', 'note', 'tags'
+  ];
+  const rows = sales.map(s => {
+    const costPrice = getCostByCategory(s, CostCategory.PURCHASE);
+    const shippingCost = getCostByCategory(s, CostCategory.SHIPPING);
+    return [
+      s.id, s.status, s.purchaseDate, s.date, s.type, s.brand, s.model,
+      costPrice, shippingCost, getItemCost(s) - costPrice - shippingCost, s.channel, s.channelFee ?? 0,
+      s.sellingPrice, s.sellingPrice === undefined ? undefined : getItemProfit(s), s.note, s.tags?.join(', ')
+    ].map(escapeCell).join(',');
+  });
+  return UTF8_BOM + [header.join(','), ...rows].join('\r\n');
+};
+
+export const downloadCsv = (filename: string, content: string): void =>
+  downloadFile(filename, content, 'text/csv;charset=utf-8');
+
+// RFC 4180 parser: quoted cells may contain delimiters, doubled quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const input = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+  const firstLine = input.split(/\r?\n/, 1)[0] ?? '';
+  // Thai-locale Excel often saves with semicolons or tabs
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s_]/g, '');
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(normalizeHeader);
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const index = normalized.findIndex(h => aliases.some(a => normalizeHeader(a) === h));
+    if (index >= 0) mapping[field] = index;
+  });
+  return mapping;
+};
+
+const parseAmount = (raw: string): number => {
+  const cleaned = raw.replace(/[฿,\s]|บาท/g, '');
+  return cleaned === '' ? 0 : Number(cleaned);
+};
+
+// Accepts ISO dates, D/M/YYYY (Gregorian or Buddhist era) and Excel serial day numbers
+export const parseDate = (raw: string): string | null => {
+  const value = raw.trim();
+  if (value === '') return null;
+
+  let year: number, month: number, day: number;
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const dmy = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (dmy) {
+    [day, month, year] = [Number(dmy[1]), Number(dmy[2]), Number(dmy[3])];
+  } else if (/^\d{5}$/.test(value)) {
+    const excelEpoch = Date.UTC(1899, 11, 30);
+    return new Date(excelEpoch + Number(value) * 86400000).toISOString().split('T')[0];
+  } else {
+    return null;
+  }
+
+  if (year > 2400) year -= 543;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().split('T')[0];
+};
+
+// Rows without a type go under the user's catch-all category, or their first one if it was removed
+const defaultImportType = (categories: Category[]) =>
+  findCategory(categories, EquipmentType.OTHER)?.name ?? categories[0]?.name ?? EquipmentType.OTHER;
+
+export const buildImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  existing: SaleItem[],
+  categories: Category[],
+  hasHeader: boolean,
+  t: Translator
+): ImportRow[] => {
+  const duplicates = buildDuplicateIndex(existing);
+  // Spellings are matched to what is already recorded, like the form does
+  const catalog = buildCatalog(existing);
+  const today = toLocalISODate(new Date());
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  return dataRows.map((cells, index) => {
+    const rowNumber = index + (hasHeader ? 2 : 1);
+    const read = (field: ImportField) => {
+      const column = mapping[field];
+      const text = column === undefined ? '' : (cells[column] ?? '').trim();
+      // Undo the export's formula guard so a file exported here reads back as it was
+      return text.startsWith("'") && FORMULA_START.test(text.slice(1)) ? text.slice(1) : text;
+    };
+    const errors: string[] = [];
+
+    IMPORT_FIELDS.filter(f => f.required).forEach(({ field }) => {
+      if (!read(field)) errors.push(t('import.missingField', { field: t(`importField.${field}`) }));
+    });
+
+    const amounts = {
+      costPrice: parseAmount(read('costPrice')),
+      shippingCost: parseAmount(read('shippingCost')),
+      otherCosts: parseAmount(read('otherCosts')),
+      channelFee: parseAmount(read('channelFee')),
+      sellingPrice: parseAmount(read('sellingPrice')),
+    };
+    (Object.keys(amounts) as (keyof typeof amounts)[]).forEach(field => {
+      if (Number.isNaN(amounts[field]) || amounts[field] < 0) {
+        errors.push(t('import.invalidField', { field: t(`importField.${field}`) }));
+      }
+    });
+
+    const rawDate = read('date');
+    const date = rawDate ? parseDate(rawDate) : today;
+    if (!date) errors.push(t('import.invalidDate', { value: rawDate }));
+    const rawPurchaseDate = read('purchaseDate');
+    const purchaseDate = rawPurchaseDate ? parseDate(rawPurchaseDate) : date;
+    if (!purchaseDate) errors.push(t('import.invalidDate', { value: rawPurchaseDate }));
+
+    if (errors.length > 0) return { rowNumber, errors, warnings: [], duplicate: false };
+
+    // A row with a selling price is a completed sale; otherwise it is stock we bought on that date
+    const sold = amounts.sellingPrice > 0;
+    const type = read('type');
+    // Only a channel this app knows is kept; the fee stays with it so an edit doesn't drop it
+    const channel = Object.values(SalesChannel).find(c => c === read('channel').toLowerCase());
+    const extraCost = (category: CostCategory, amount: number) =>
+      amount > 0 ? [{ id: crypto.randomUUID(), category, amount }] : [];
+    const item: SaleItem = {
+      id: crypto.randomUUID(),
+      brand: resolveBrandName(catalog, read('brand')),
+      type: type ? findCategory(categories, type)?.name ?? type : defaultImportType(categories),
+      model: read('model'),
+      status: sold ? ItemStatus.SOLD : ItemStatus.PURCHASED,
+      purchaseDate: purchaseDate!,
+      costs: [
+        { id: crypto.randomUUID(), category: CostCategory.PURCHASE, amount: amounts.costPrice },
+        ...extraCost(CostCategory.SHIPPING, amounts.shippingCost),
+        ...extraCost(CostCategory.OTHER, amounts.otherCosts),
+      ],
+      ...(sold ? { sellingPrice: amounts.sellingPrice, date: date! } : {}),
+      ...(sold && channel ? { channel, channelFee: amounts.channelFee } : {}),
+      ...(read('note') ? { note: read('note') } : {}),
+    };
+    const tags = addTags([], read('tags'));
+    if (tags.length > 0) item.tags = tags;
+
+    // Same rules as the form; rows repeated within the file count as duplicates too
+    const validation = validateSaleItem(item, duplicates, today, t);
+    const rowErrors = Object.values(validation.errors);
+    if (rowErrors.length > 0) return { rowNumber, errors: rowErrors, warnings: [], duplicate: false };
+
+    addToDuplicateIndex(duplicates, item);
+    return {
+      rowNumber,
+      item,
+      errors: [],
+      warnings: Object.values(validation.warnings),
+      duplicate: validation.duplicate !== undefined,
+    };
+  });
+};
@@ -0,0 +1,196 @@
+import { SaleItem, ShopDetails, MonthlyReport, PaymentStatus, CostCategory } from '../types';
+import { calculateProfit } from './profit';
+import { getWarrantyEnd } from './afterSales';
+import { Translator, Formatters } from './i18n';
+
+// Receipts and reports are standalone HTML pages printed from a hidden frame, so they
+// never pick up the app's styles and "Save as PDF" in the print dialog gives the file.
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const BASE_STYLE = `
+  * { box-sizing: border-box; }
+  body { font-family: 'Sarabun', 'Noto Sans Thai', 'Leelawadee UI', Tahoma, sans-serif; color: #111827; margin: 0; font-size: 12px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 20px 0 6px; }
+  p { margin: 2px 0; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 4px 6px; border-bottom: 1px solid #e5e7eb; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; font-weight: 600; }
+  .num { text-align: right; white-space: nowrap; }
+  .muted { color: #6b7280; }
+  .loss { color: #dc2626; }
+  .total td { font-weight: 700; border-top: 2px solid #111827; border-bottom: none; }
+  .header { display: flex; justify-content: space-between; align-items: flex-start; gap: 16px; }
+`;
+
+const page = (title: string, lang: string, size: string, style: string, body: string): string => `<!DOCTYPE html>
+<html lang="${lang}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: ${size}; margin: 12mm; }
+  ${BASE_STYLE}
+  ${style}
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+
+const shopHeader = (shop: ShopDetails, t: Translator): string => [
+  shop.name && `<h1>${escapeHtml(shop.name)}</h1>`,
+  shop.address && `<p>${escapeHtml(shop.address).replace(/\n/g, '<br />')}</p>`,
+  shop.phone && `<p>${escapeHtml(t('receipt.phone', { phone: shop.phone }))}</p>`,
+  shop.taxId && `<p>${escapeHtml(t('receipt.taxId', { taxId: shop.taxId }))}</p>`,
+].filter(Boolean).join('\n');
+
+const languageOf = (format: Formatters) => format.locale.split('-')[0];
+
+// Short enough to read out over the phone, and stable because the id never changes
+export const receiptNumber = (item: SaleItem): string =>
+  `${(item.date ?? item.purchaseDate).replace(/-/g, '')}-${item.id.replace(/-/g, '').slice(0, 6).toUpperCase()}`;
+
+export const buildReceiptHtml = (item: SaleItem, shop: ShopDetails, t: Translator, format: Formatters): string => {
+  const price = Number(item.sellingPrice ?? 0);
+  const deposit = item.paymentStatus === PaymentStatus.DEPOSIT ? Number(item.depositAmount ?? 0) : 0;
+  const warrantyEnd = getWarrantyEnd(item);
+  const buyer = [item.buyerName, item.buyerContact].filter(Boolean).map(value => escapeHtml(value!)).join(' · ');
+
+  const rows = [
+    `<tr><td>${escapeHtml(`${item.brand} ${item.model}`)}<br /><span class="muted">${escapeHtml(item.type)}</span></td><td class="num">${format.formatCurrency(price)}</td></tr>`,
+    `<tr class="total"><td>${t('receipt.total')}</td><td class="num">${format.formatCurrency(price)}</td></tr>`,
+  ];
+  if (deposit > 0) {
+    rows.push(
+      `<tr><td>${t('receipt.depositPaid')}</td><td class="num">${format.formatCurrency(deposit)}</td></tr>`,
+      `<tr><td>${t('receipt.balanceDue')}</td><td class="num">${format.formatCurrency(Math.max(0, price - deposit))}</td></tr>`
+    );
+  }
+
+  const body = `
+<div class="header">
+  <div>${shopHeader(shop, t)}</div>
+  <div style="text-align: right">
+    <h1>${t('receipt.title')}</h1>
+    <p>${escapeHtml(t('receipt.number', { number: receiptNumber(item) }))}</p>
+    <p>${escapeHtml(t('receipt.date', { date: format.formatDate(item.date) }))}</p>
+  </div>
+</div>
+${buyer ? `<p style="margin-top: 12px"><b>${t('receipt.buyer')}</b> ${buyer}</p>` : ''}
+<table style="margin-top: 12px">
+  <thead><tr><th>${t('receipt.item')}</th><th class="num">${t('receipt.amount')}</th></tr></thead>
+  <tbody>${rows.join('\n')}</tbody>
+</table>
+${item.paymentMethod ? `<p style="margin-top: 8px">${escapeHtml(t('receipt.paymentMethod', { method: t(`paymentMethod.${item.paymentMethod}`) }))}</p>` : ''}
+${warrantyEnd ? `<p>${escapeHtml(t('receipt.warrantyPeriod', { days: item.warrantyDays!, date: format.formatDate(warrantyEnd) }))}</p>` : ''}
+${shop.warrantyNote ? `<h2>${t('receipt.warranty')}</h2><p>${escapeHtml(shop.warrantyNote).replace(/\n/g, '<br />')}</p>` : ''}
+<div class="signature">${t('receipt.signature')}</div>
+<p style="text-align: center; margin-top: 24px">${t('receipt.thanks')}</p>`;
+
+  const style = `
+  .signature { margin: 48px 0 0 auto; width: 45%; border-top: 1px dotted #6b7280; padding-top: 4px; text-align: center; }`;
+  return page(`${t('receipt.title')} ${receiptNumber(item)}`, languageOf(format), 'A5', style, body);
+};
+
+export const buildMonthlyReportHtml = (
+  report: MonthlyReport,
+  shop: ShopDetails,
+  generatedAt: string,
+  t: Translator,
+  format: Formatters
+): string => {
+  const { stats } = report;
+  const money = (amount: number) => `<td class="num${amount < 0 ? ' loss' : ''}">${format.formatCurrency(amount)}</td>`;
+  const month = format.formatMonth(report.month);
+  const margin = stats.totalRevenue > 0 ? `${((stats.totalProfit / stats.totalRevenue) * 100).toFixed(1)}%` : '—';
+
+  const summary = `
+<table>
+  <tbody>
+    <tr><td>${t('report.itemsSold')}</td><td class="num">${stats.count}</td></tr>
+    <tr><td>${t('report.revenue')}</td>${money(stats.totalRevenue)}</tr>
+    <tr><td>${t('report.costOfGoods')}</td>${money(stats.totalCost)}</tr>
+    <tr><td>${t('report.fees')}</td>${money(stats.totalFees)}</tr>
+    <tr class="total"><td>${t('report.profit')}</td>${money(stats.totalProfit)}</tr>
+    <tr><td>${t('report.margin')}</td><td class="num">${margin}</td></tr>
+    <tr><td>${t('report.stockAtMonthEnd')} (${escapeHtml(t('common.units', { count: stats.inventoryCount }))})</td>${money(stats.inventoryValue)}</tr>
+  </tbody>
+</table>`;
+
+  const costRows = Object.values(CostCategory)
+    .filter(category => stats.costBreakdown[category] > 0)
+    .map(category => `<tr><td>${t(`costCategory.${category}`)}</td>${money(stats.costBreakdown[category])}</tr>`)
+    .join('\n');
+
+  const categoryRows = report.categories
+    .map(row => `<tr><td>${escapeHtml(row.label)}</td><td class="num">${row.units}</td>${money(row.revenue)}${money(row.profit)}</tr>`)
+    .join('\n');
+
+  const saleRows = report.sales.map(item => {
+    const { revenue, cost, fees, profit } = calculateProfit(item);
+    return `<tr>
+      <td>${format.formatDate(item.date)}</td>
+      <td>${escapeHtml(`${item.brand} ${item.model}`)}<br /><span class="muted">${escapeHtml(item.type)}</span></td>
+      <td>${item.channel ? t(`salesChannel.${item.channel}`) : '—'}</td>
+      ${money(revenue)}${money(cost)}${money(fees)}${money(profit)}
+    </tr>`;
+  }).join('\n');
+
+  const body = `
+<div class="header">
+  <div>${shopHeader(shop, t)}</div>
+  <div style="text-align: right">
+    <h1>${escapeHtml(t('report.heading', { month }))}</h1>
+    <p class="muted">${escapeHtml(t('report.generated', { date: format.formatDateTime(generatedAt) }))}</p>
+  </div>
+</div>
+
+<h2>${t('report.summary')}</h2>
+${summary}
+
+${costRows ? `<h2>${t('report.costBreakdown')}</h2><table><tbody>${costRows}</tbody></table>` : ''}
+
+<h2>${t('report.byCategory')}</h2>
+${report.categories.length === 0 ? `<p class="muted">${t('report.empty')}</p>` : `
+<table>
+  <thead><tr><th>${t('form.type')}</th><th class="num">${t('report.units')}</th><th class="num">${t('report.revenue')}</th><th class="num">${t('report.itemProfit')}</th></tr></thead>
+  <tbody>${categoryRows}</tbody>
+</table>`}
+
+<h2>${t('report.sales')}</h2>
+${report.sales.length === 0 ? `<p class="muted">${t('report.empty')}</p>` : `
+<table>
+  <thead><tr>
+    <th>${t('report.date')}</th><th>${t('report.item')}</th><th>${t('report.channel')}</th>
+    <th class="num">${t('report.price')}</th><th class="num">${t('report.cost')}</th><th class="num">${t('report.fee')}</th><th class="num">${t('report.itemProfit')}</th>
+  </tr></thead>
+  <tbody>
+    ${saleRows}
+    <tr class="total"><td colspan="3">${t('report.total')}</td>${money(stats.totalRevenue)}${money(stats.totalCost)}${money(stats.totalFees)}${money(stats.totalProfit)}</tr>
+  </tbody>
+</table>`}`;
+
+  const style = `
+  thead { display: table-header-group; }
+  tr { break-inside: avoid; }`;
+  return page(`${t('report.title')} ${report.month}`, languageOf(format), 'A4', style, body);
+};
+
+// Prints through an invisible frame so the app stays as it is behind the print dialog
+export const printDocument = (html: string): void => {
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position: fixed; right: 0; bottom: 0; width: 0; height: 0; border: 0;';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) return;
+    view.addEventListener('afterprint', () => frame.remove());
+    view.focus();
+    view.print();
+  };
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { Expense, ExpenseCategory, Recurrence, Language } from '../types';
+import { getExpenseOccurrences, buildOverheadSummary, sortExpenses, validateExpense } from './expenses';
+import { createTranslator } from './i18n';
+
+const expense = (overrides: Partial<Expense>): Expense => ({
+  id: 'e1',
+  date: '2026-01-15',
+  category: ExpenseCategory.ADVERTISING,
+  amount: 500,
+  ...overrides
+});
+
+const TODAY = '2026-04-20';
+
+describe('getExpenseOccurrences', () => {
+  it('counts a one-off expense on its date when it falls in the range', () => {
+    const booth = expense({ category: ExpenseCategory.EVENT });
+    expect(getExpenseOccurrences(booth, { from: '2026-01-01', to: '2026-01-31' }, TODAY)).toEqual(['2026-01-15']);
+    expect(getExpenseOccurrences(booth, { from: '2026-02-01', to: '2026-02-28' }, TODAY)).toEqual([]);
+  });
+
+  it('repeats monthly only up to today', () => {
+    const rent = expense({ recurrence: Recurrence.MONTHLY });
+    expect(getExpenseOccurrences(rent, {}, TODAY)).toEqual(['2026-01-15', '2026-02-15', '2026-03-15', '2026-04-15']);
+    expect(getExpenseOccurrences(rent, { from: '2026-05-01', to: '2026-05-31' }, TODAY)).toEqual([]);
+  });
+
+  it('moves a day past the end of a short month to its last day', () => {
+    const rent = expense({ date: '2026-01-31', recurrence: Recurrence.MONTHLY });
+    expect(getExpenseOccurrences(rent, { to: '2026-03-31' }, TODAY)).toEqual(['2026-01-31', '2026-02-28', '2026-03-31']);
+  });
+
+  it('stops a recurring expense at its end date', () => {
+    const subscription = expense({ recurrence: Recurrence.MONTHLY, endDate: '2026-02-28' });
+    expect(getExpenseOccurrences(subscription, {}, TODAY)).toEqual(['2026-01-15', '2026-02-15']);
+  });
+
+  it('repeats yearly', () => {
+    const domain = expense({ date: '2024-03-01', recurrence: Recurrence.YEARLY });
+    expect(getExpenseOccurrences(domain, {}, TODAY)).toEqual(['2024-03-01', '2025-03-01', '2026-03-01']);
+  });
+});
+
+describe('buildOverheadSummary', () => {
+  it('deducts the period overhead from gross profit', () => {
+    const expenses = [
+      expense({ id: 'rent', category: ExpenseCategory.RENT, amount: 3000, recurrence: Recurrence.MONTHLY }),
+      expense({ id: 'ads', date: '2026-03-02', amount: 800 }),
+      expense({ id: 'old', date: '2025-12-01', amount: 999 })
+    ];
+    const summary = buildOverheadSummary(expenses, 10000, { from: '2026-03-01', to: '2026-03-31' }, TODAY);
+
+    expect(summary.overhead).toBe(3800);
+    expect(summary.netProfit).toBe(6200);
+    expect(summary.byCategory[ExpenseCategory.RENT]).toBe(3000);
+    expect(summary.byCategory[ExpenseCategory.ADVERTISING]).toBe(800);
+  });
+});
+
+describe('sortExpenses', () => {
+  it('puts the newest first without touching the input', () => {
+    const input = [expense({ id: 'a', date: '2026-01-01' }), expense({ id: 'b', date: '2026-03-01' })];
+    expect(sortExpenses(input).map(e => e.id)).toEqual(['b', 'a']);
+    expect(input[0].id).toBe('a');
+  });
+});
+
+describe('validateExpense', () => {
+  const t = createTranslator(Language.EN);
+
+  it('requires a date and a positive amount', () => {
+    expect(Object.keys(validateExpense({ amount: 0 }, t)).sort()).toEqual(['amount', 'date']);
+    expect(validateExpense(expense({}), t)).toEqual({});
+  });
+
+  it('rejects an end date before the start', () => {
+    const errors = validateExpense(expense({ recurrence: Recurrence.MONTHLY, endDate: '2026-01-01' }), t);
+    expect(errors.endDate).toBe(t('expenses.endBeforeStart'));
+  });
+});
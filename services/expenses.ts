@@ -0,0 +1,66 @@
+import { Expense, ExpenseCategory, Recurrence, OverheadSummary } from '../types';
+import { toLocalISODate } from './filters';
+import { Translator } from './i18n';
+
+const emptyByCategory = (): Record<ExpenseCategory, number> =>
+  Object.fromEntries(Object.values(ExpenseCategory).map(category => [category, 0])) as Record<ExpenseCategory, number>;
+
+// The nth repeat after the first date; a day past the end of a short month (rent on the 31st) falls on its last day
+const repeatDate = (first: string, step: number, recurrence: Recurrence): string => {
+  const [year, month, day] = first.split('-').map(Number);
+  const target = new Date(year, month - 1 + (recurrence === Recurrence.YEARLY ? step * 12 : step), 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(day, lastDay));
+  return toLocalISODate(target);
+};
+
+// Dates (YYYY-MM-DD) an expense falls on within the inclusive range. The entry itself counts on
+// its date, but repeats only once they have come due, so a monthly rent isn't booked ahead.
+export const getExpenseOccurrences = (expense: Expense, range: { from?: string; to?: string }, today: string): string[] => {
+  const { from, to } = range;
+  const inRange = (date: string) => (!from || date >= from) && (!to || date <= to);
+  const dates = inRange(expense.date) ? [expense.date] : [];
+  if (!expense.recurrence) return dates;
+
+  const last = [to, expense.endDate, today].filter((date): date is string => !!date).sort()[0];
+  for (let step = 1; ; step++) {
+    const date = repeatDate(expense.date, step, expense.recurrence);
+    if (date > last) break;
+    if (inRange(date)) dates.push(date);
+  }
+  return dates;
+};
+
+// Overhead for the period the dashboard is showing, set against the sales' gross profit
+export const buildOverheadSummary = (
+  expenses: Expense[],
+  grossProfit: number,
+  range: { from?: string; to?: string },
+  today: string
+): OverheadSummary => {
+  const byCategory = emptyByCategory();
+  let overhead = 0;
+  expenses.forEach(expense => {
+    const total = expense.amount * getExpenseOccurrences(expense, range, today).length;
+    byCategory[expense.category] += total;
+    overhead += total;
+  });
+  return { grossProfit, overhead, netProfit: grossProfit - overhead, byCategory };
+};
+
+// Newest first, the way the ledger is read
+export const sortExpenses = (expenses: Expense[]): Expense[] =>
+  [...expenses].sort((a, b) => b.date.localeCompare(a.date));
+
+export type ExpenseField = 'date' | 'amount' | 'endDate';
+
+// Messages for the fields that would make the entry unusable; an empty object means it can be saved
+export const validateExpense = (expense: Partial<Expense>, t: Translator): Partial<Record<ExpenseField, string>> => {
+  const errors: Partial<Record<ExpenseField, string>> = {};
+  if (!expense.date) errors.date = t('expenses.dateRequired');
+  if (!(Number(expense.amount) > 0)) errors.amount = t('expenses.amountRequired');
+  if (expense.recurrence && expense.endDate && expense.date && expense.endDate < expense.date) {
+    errors.endDate = t('expenses.endBeforeStart');
+  }
+  return errors;
+};
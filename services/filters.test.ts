@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { ItemStatus, CostCategory, DateRangePreset, ProfitOutcome, SalesFilter } from '../types';
+import {
+  DEFAULT_FILTER, applyFilter, resolveDateRange, getAvailableMonths, daysBetween, filterToSearchParams, filterFromSearchParams
+} from './filters';
+import { sale } from './testUtils';
+
+const filter = (overrides: Partial<SalesFilter>): SalesFilter => ({ ...DEFAULT_FILTER, ...overrides });
+
+// Wednesday
+const TODAY = new Date(2026, 1, 18);
+
+describe('resolveDateRange', () => {
+  it('runs a month filter to the last day of that month', () => {
+    expect(resolveDateRange(filter({ range: DateRangePreset.MONTH, month: '2026-02' }))).toEqual({ from: '2026-02-01', to: '2026-02-28' });
+    expect(resolveDateRange(filter({ range: DateRangePreset.MONTH, month: '2024-02' }))).toEqual({ from: '2024-02-01', to: '2024-02-29' });
+  });
+
+  it('starts the week on Monday', () => {
+    expect(resolveDateRange(filter({ range: DateRangePreset.THIS_WEEK }), TODAY)).toEqual({ from: '2026-02-16', to: '2026-02-18' });
+  });
+
+  it('is open-ended for all time and for a month filter with no month picked', () => {
+    expect(resolveDateRange(filter({}))).toEqual({});
+    expect(resolveDateRange(filter({ range: DateRangePreset.MONTH }))).toEqual({});
+  });
+});
+
+describe('applyFilter', () => {
+  const items = [
+    sale({ date: '2026-02-01', sellingPrice: 1000, costs: [] }),
+    sale({ date: '2026-03-01', sellingPrice: 1000, costs: [] }),
+    sale({ status: ItemStatus.LISTED, purchaseDate: '2026-02-10' }),
+  ];
+
+  it('filters by month using the sale date, or the purchase date for stock', () => {
+    const result = applyFilter(items, filter({ range: DateRangePreset.MONTH, month: '2026-02' }), TODAY);
+    expect(result).toEqual([items[0], items[2]]);
+  });
+
+  it('keeps only completed sales when filtering by outcome', () => {
+    const losing = sale({ date: '2026-02-02', sellingPrice: 100, costs: [{ id: 'c', category: CostCategory.PURCHASE, amount: 500 }] });
+    const result = applyFilter([...items, losing], filter({ outcome: ProfitOutcome.LOSS }), TODAY);
+    expect(result).toEqual([losing]);
+  });
+
+  it('matches the brand regardless of case and spacing', () => {
+    const marantz = sale({ brand: ' marantz', date: '2026-02-03' });
+    expect(applyFilter([...items, marantz], filter({ brand: 'Marantz' }), TODAY)).toEqual([marantz]);
+  });
+
+  it('finds tagged items by tag and by search text', () => {
+    const vintage = sale({ date: '2026-02-04', tags: ['Vintage', 'needs service'] });
+    expect(applyFilter([...items, vintage], filter({ tag: 'vintage' }), TODAY)).toEqual([vintage]);
+    expect(applyFilter([...items, vintage], filter({ query: 'service' }), TODAY)).toEqual([vintage]);
+  });
+});
+
+describe('getAvailableMonths', () => {
+  it('lists each active month once, newest first', () => {
+    const months = getAvailableMonths([
+      sale({ date: '2026-02-01' }),
+      sale({ date: '2026-02-20' }),
+      sale({ status: ItemStatus.LISTED, purchaseDate: '2025-12-31' }),
+      sale({ date: '2026-03-01' }),
+    ]);
+    expect(months).toEqual(['2026-03', '2026-02', '2025-12']);
+  });
+
+  it('is empty without data', () => {
+    expect(getAvailableMonths([])).toEqual([]);
+  });
+});
+
+describe('daysBetween', () => {
+  it('counts whole days and never goes negative', () => {
+    expect(daysBetween('2026-01-01', '2026-03-01')).toBe(59);
+    expect(daysBetween('2026-03-01', '2026-01-01')).toBe(0);
+  });
+});
+
+describe('search params', () => {
+  it('round-trips a filter through the URL', () => {
+    const original = filter({ range: DateRangePreset.MONTH, month: '2026-02', type: 'แอมป์', tag: 'vintage', outcome: ProfitOutcome.PROFIT, query: 'sony' });
+    expect(filterFromSearchParams(filterToSearchParams(original))).toEqual(original);
+  });
+
+  it('ignores unknown values', () => {
+    const parsed = filterFromSearchParams(new URLSearchParams('range=forever&outcome=maybe'));
+    expect(parsed.range).toBe(DateRangePreset.ALL);
+    expect(parsed.outcome).toBe(ProfitOutcome.ALL);
+  });
+});
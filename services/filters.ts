@@ -0,0 +1,132 @@
+import { SaleItem, SalesFilter, DateRangePreset, ProfitOutcome } from '../types';
+import { getItemProfit } from './profit';
+import { catalogKey } from './catalog';
+import { hasTag } from './tags';
+
+export const DEFAULT_FILTER: SalesFilter = {
+  range: DateRangePreset.ALL,
+  outcome: ProfitOutcome.ALL,
+  query: ''
+};
+
+// Sold items are dated by sale, unsold stock by when we bought it
+export const getActivityDate = (item: SaleItem) => item.date || item.purchaseDate;
+
+// YYYY-MM-DD in local time, so "this week" matches the user's calendar
+export const toLocalISODate = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Whole days from one YYYY-MM-DD to another; never negative, so a future date reads as today
+export const daysBetween = (from: string, to: string) =>
+  Math.max(0, Math.floor((Date.parse(to) - Date.parse(from)) / 86400000));
+
+// Months (YYYY-MM) with any activity, newest first, for the month picker
+export const getAvailableMonths = (items: SaleItem[]): string[] =>
+  Array.from(new Set(items.map(item => getActivityDate(item).substring(0, 7)))).sort().reverse();
+
+// Inclusive YYYY-MM-DD bounds; a missing bound is open-ended
+export const resolveDateRange = (filter: SalesFilter, today = new Date()): { from?: string; to?: string } => {
+  const year = today.getFullYear();
+  switch (filter.range) {
+    case DateRangePreset.THIS_WEEK: {
+      const monday = new Date(today);
+      monday.setDate(today.getDate() - ((today.getDay() + 6) % 7));
+      return { from: toLocalISODate(monday), to: toLocalISODate(today) };
+    }
+    case DateRangePreset.LAST_30_DAYS: {
+      const start = new Date(today);
+      start.setDate(today.getDate() - 29);
+      return { from: toLocalISODate(start), to: toLocalISODate(today) };
+    }
+    case DateRangePreset.MONTH: {
+      if (!filter.month) return {};
+      const [y, m] = filter.month.split('-').map(Number);
+      return { from: `${filter.month}-01`, to: toLocalISODate(new Date(y, m, 0)) };
+    }
+    case DateRangePreset.THIS_QUARTER: {
+      const quarterStart = Math.floor(today.getMonth() / 3) * 3;
+      return {
+        from: toLocalISODate(new Date(year, quarterStart, 1)),
+        to: toLocalISODate(new Date(year, quarterStart + 3, 0))
+      };
+    }
+    case DateRangePreset.THIS_YEAR:
+      return { from: `${year}-01-01`, to: `${year}-12-31` };
+    case DateRangePreset.CUSTOM:
+      return { from: filter.from || undefined, to: filter.to || undefined };
+    default:
+      return {};
+  }
+};
+
+export const applyFilter = (items: SaleItem[], filter: SalesFilter, today = new Date()): SaleItem[] => {
+  const { from, to } = resolveDateRange(filter, today);
+  const query = filter.query.trim().toLowerCase();
+
+  return items.filter(item => {
+    const date = getActivityDate(item).substring(0, 10);
+    if (from && date < from) return false;
+    if (to && date > to) return false;
+    if (filter.type && item.type !== filter.type) return false;
+    if (filter.brand && catalogKey(item.brand) !== catalogKey(filter.brand)) return false;
+    if (filter.tag && !hasTag(item, filter.tag)) return false;
+
+    if (filter.outcome !== ProfitOutcome.ALL) {
+      // Only a completed sale has a profit or loss
+      if (item.sellingPrice === undefined || !item.date) return false;
+      const profit = getItemProfit(item);
+      if (filter.outcome === ProfitOutcome.PROFIT ? profit <= 0 : profit >= 0) return false;
+    }
+
+    if (query) {
+      const haystack = [item.brand, item.model, item.note ?? '', ...(item.tags ?? [])].join(' ').toLowerCase();
+      if (!haystack.includes(query)) return false;
+    }
+    return true;
+  });
+};
+
+export const isFilterActive = (filter: SalesFilter) =>
+  filter.range !== DateRangePreset.ALL ||
+  !!filter.type ||
+  !!filter.brand ||
+  !!filter.tag ||
+  filter.outcome !== ProfitOutcome.ALL ||
+  filter.query.trim() !== '';
+
+// Only non-default values go into the URL, so a plain bookmark stays short
+export const filterToSearchParams = (filter: SalesFilter, params = new URLSearchParams()): URLSearchParams => {
+  const set = (key: string, value: string | undefined, fallback = '') => {
+    if (value && value !== fallback) params.set(key, value);
+    else params.delete(key);
+  };
+  set('range', filter.range, DateRangePreset.ALL);
+  set('month', filter.range === DateRangePreset.MONTH ? filter.month : undefined);
+  set('from', filter.range === DateRangePreset.CUSTOM ? filter.from : undefined);
+  set('to', filter.range === DateRangePreset.CUSTOM ? filter.to : undefined);
+  set('type', filter.type);
+  set('brand', filter.brand);
+  set('tag', filter.tag);
+  set('outcome', filter.outcome, ProfitOutcome.ALL);
+  set('q', filter.query.trim());
+  return params;
+};
+
+export const filterFromSearchParams = (params: URLSearchParams): SalesFilter => {
+  const range = params.get('range') as DateRangePreset;
+  const outcome = params.get('outcome') as ProfitOutcome;
+  return {
+    range: Object.values(DateRangePreset).includes(range) ? range : DateRangePreset.ALL,
+    month: params.get('month') ?? undefined,
+    from: params.get('from') ?? undefined,
+    to: params.get('to') ?? undefined,
+    type: params.get('type') ?? undefined,
+    brand: params.get('brand') ?? undefined,
+    tag: params.get('tag') ?? undefined,
+    outcome: Object.values(ProfitOutcome).includes(outcome) ? outcome : ProfitOutcome.ALL,
+    query: params.get('q') ?? ''
+  };
+};
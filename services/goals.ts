@@ -0,0 +1,34 @@
+import { SaleItem, ItemStatus, GoalSettings, MonthlyGoals, GoalProgress } from '../types';
+import { calculateProfit } from './profit';
+
+const progress = (actual: number, target: number, daysElapsed: number, daysInMonth: number): GoalProgress => ({
+  actual,
+  target,
+  // Straight-line pace: what a day has averaged so far, for every day of the month
+  projected: (actual / daysElapsed) * daysInMonth,
+});
+
+// Progress for the month containing today (YYYY-MM-DD), counting sales up to and including today
+export const buildMonthlyGoals = (sales: SaleItem[], goals: GoalSettings, today: string): MonthlyGoals => {
+  const month = today.substring(0, 7);
+  const [year, monthNumber] = month.split('-').map(Number);
+  const daysInMonth = new Date(year, monthNumber, 0).getDate();
+  const daysElapsed = Number(today.substring(8, 10));
+
+  let revenue = 0;
+  let profit = 0;
+  sales.forEach(item => {
+    if (item.status !== ItemStatus.SOLD || !item.date?.startsWith(month) || item.date > today) return;
+    const breakdown = calculateProfit(item);
+    revenue += breakdown.revenue;
+    profit += breakdown.profit;
+  });
+
+  return {
+    month,
+    daysElapsed,
+    daysInMonth,
+    revenue: progress(revenue, goals.monthlyRevenue, daysElapsed, daysInMonth),
+    profit: progress(profit, goals.monthlyProfit, daysElapsed, daysInMonth),
+  };
+};
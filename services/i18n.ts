@@ -0,0 +1,67 @@
+import { Language, CalendarEra } from '../types';
+import { th } from '../locales/th';
+import { en } from '../locales/en';
+
+export type MessageKey = keyof typeof th;
+export type MessageParams = Record<string, string | number>;
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+const CATALOGS: Record<Language, Record<MessageKey, string>> = {
+  [Language.TH]: th,
+  [Language.EN]: en,
+};
+
+const LOCALES: Record<Language, string> = {
+  [Language.TH]: 'th-TH',
+  [Language.EN]: 'en-GB',
+};
+
+// Offered for reporting and purchases; anything Intl knows would work, these are the ones we trade in
+export const CURRENCIES = ['THB', 'USD', 'JPY', 'EUR', 'GBP', 'CNY', 'HKD', 'SGD', 'KRW', 'TWD', 'AUD'];
+
+export const createTranslator = (language: Language): Translator => {
+  const messages = CATALOGS[language] ?? th;
+  const numbers = new Intl.NumberFormat(LOCALES[language] ?? LOCALES[Language.TH]);
+  return (key, params) =>
+    (messages[key] ?? th[key]).replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params?.[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? numbers.format(value) : value;
+    });
+};
+
+// The calendar extension is what switches Thai years between 2569 and 2026
+export const getLocale = (language: Language, calendar: CalendarEra) =>
+  `${LOCALES[language] ?? LOCALES[Language.TH]}-u-ca-${calendar === CalendarEra.GREGORIAN ? 'gregory' : 'buddhist'}`;
+
+// Stored dates are YYYY-MM-DD in local time; parsing them as UTC could show the day before
+const parseLocalDate = (isoDate: string) => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(year, (month || 1) - 1, day || 1);
+};
+
+export interface Formatters {
+  locale: string;
+  formatCurrency: (amount: number, currency?: string) => string;
+  formatDate: (isoDate?: string) => string; // YYYY-MM-DD
+  formatMonth: (month: string) => string; // YYYY-MM
+  formatDateTime: (iso?: string) => string; // Full ISO timestamp
+}
+
+export const createFormatters = (language: Language, calendar: CalendarEra, currency: string): Formatters => {
+  const locale = getLocale(language, calendar);
+  const dates = new Intl.DateTimeFormat(locale, { day: 'numeric', month: 'short', year: 'numeric' });
+  const months = new Intl.DateTimeFormat(locale, { month: 'short', year: 'numeric' });
+  const dateTimes = new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' });
+  const currencyFormat = (code: string) =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: code, minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const reporting = currencyFormat(currency);
+
+  return {
+    locale,
+    formatCurrency: (amount, code) => (code && code !== currency ? currencyFormat(code) : reporting).format(amount),
+    formatDate: (isoDate) => (isoDate ? dates.format(parseLocalDate(isoDate)) : '—'),
+    formatMonth: (month) => months.format(parseLocalDate(month)),
+    formatDateTime: (iso) => (iso ? dateTimes.format(new Date(iso)) : '—'),
+  };
+};
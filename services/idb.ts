@@ -0,0 +1,80 @@
+// Minimal promise wrapper around IndexedDB. Every store uses out-of-line keys
+// so callers decide how records are addressed.
+
+const DB_NAME = 'audiosale';
+const DB_VERSION = 2;
+
+export enum Store {
+  DATA = 'data',
+  QUARANTINE = 'quarantine',
+  PHOTOS = 'photos' // Added in v2
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(Store).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab'));
+    });
+    // Allow a later call to retry instead of caching the failure forever
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  store: Store,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, mode);
+  const request = run(transaction.objectStore(store));
+  if (mode === 'readonly') return requestToPromise(request);
+  // A write only counts once its transaction commits: the request can succeed and the
+  // transaction still abort afterwards, for instance when the device runs out of space
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const idbGet = <T>(store: Store, key: string): Promise<T | undefined> =>
+  withStore(store, 'readonly', s => s.get(key));
+
+export const idbGetAll = <T>(store: Store): Promise<T[]> =>
+  withStore(store, 'readonly', s => s.getAll());
+
+export const idbGetAllKeys = async (store: Store): Promise<string[]> =>
+  (await withStore(store, 'readonly', s => s.getAllKeys())).map(String);
+
+export const idbPut = async (store: Store, key: string, value: unknown): Promise<void> => {
+  await withStore(store, 'readwrite', s => s.put(value, key));
+};
+
+export const idbDelete = async (store: Store, key: string): Promise<void> => {
+  await withStore(store, 'readwrite', s => s.delete(key));
+};
+
+export const idbClear = async (store: Store): Promise<void> => {
+  await withStore(store, 'readwrite', s => s.clear());
+};
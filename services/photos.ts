@@ -0,0 +1,38 @@
+import { PhotoRecord } from '../types';
+
+// Enough to read a serial plate or see a scratch, small enough to keep hundreds on a phone
+const MAX_DIMENSION = 1600;
+const THUMBNAIL_DIMENSION = 240;
+const JPEG_QUALITY = 0.8;
+const THUMBNAIL_QUALITY = 0.7;
+
+const drawScaled = (image: ImageBitmap, maxDimension: number, quality: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return { dataUrl: canvas.toDataURL('image/jpeg', quality), width: canvas.width, height: canvas.height };
+};
+
+// Resizes and re-encodes a picked or captured image. createImageBitmap applies the
+// EXIF orientation, so portrait camera shots are not saved sideways.
+export const compressPhoto = async (file: File): Promise<PhotoRecord> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const full = drawScaled(bitmap, MAX_DIMENSION, JPEG_QUALITY);
+    const thumbnail = drawScaled(bitmap, THUMBNAIL_DIMENSION, THUMBNAIL_QUALITY);
+    return {
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+      width: full.width,
+      height: full.height,
+      image: full.dataUrl,
+      thumbnail: thumbnail.dataUrl,
+    };
+  } finally {
+    bitmap.close();
+  }
+};
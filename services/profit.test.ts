@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { CostCategory, CostEntry, AfterSalesKind, AfterSalesEvent, SaleItem, SalesChannel, ItemStatus } from '../types';
+import {
+  getItemCost, getCostByCategory, calculateProfit, calculateChannelFee, resolveChannelFee, addToCostBreakdown, emptyCostBreakdown
+} from './profit';
+
+const event = (kind: AfterSalesKind, amount: number): AfterSalesEvent => ({ id: `${kind}-${amount}`, date: '2026-02-01', kind, amount });
+
+const cost = (category: CostCategory, amount: number): CostEntry => ({ id: `${category}-${amount}`, category, amount });
+
+describe('getItemCost', () => {
+  it('adds up every cost entry', () => {
+    const costs = [cost(CostCategory.PURCHASE, 1000), cost(CostCategory.SHIPPING, 80), cost(CostCategory.REPAIR, 250)];
+    expect(getItemCost({ costs })).toBe(1330);
+  });
+
+  it('converts only the purchase price with the exchange rate', () => {
+    const costs = [cost(CostCategory.PURCHASE, 100), cost(CostCategory.IMPORT_DUTY, 500)];
+    expect(getItemCost({ costs, exchangeRate: 35 })).toBe(4000);
+    expect(getCostByCategory({ costs, exchangeRate: 35 }, CostCategory.PURCHASE)).toBe(3500);
+  });
+
+  it('is zero without costs', () => {
+    expect(getItemCost({ costs: [] })).toBe(0);
+  });
+});
+
+describe('calculateProfit', () => {
+  it('deducts costs and the channel fee from the selling price', () => {
+    const result = calculateProfit({ costs: [cost(CostCategory.PURCHASE, 600)], sellingPrice: 1000, channelFee: 50 });
+    expect(result).toEqual({ revenue: 1000, cost: 600, fees: 50, profit: 350, margin: 35 });
+  });
+
+  it('reports a loss as negative profit', () => {
+    const result = calculateProfit({ costs: [cost(CostCategory.PURCHASE, 1200)], sellingPrice: 1000 });
+    expect(result.profit).toBe(-200);
+    expect(result.margin).toBe(-20);
+  });
+
+  it('has no margin when nothing was earned', () => {
+    const result = calculateProfit({ costs: [cost(CostCategory.PURCHASE, 300)] });
+    expect(result.revenue).toBe(0);
+    expect(result.profit).toBe(-300);
+    expect(result.margin).toBeNull();
+  });
+
+  it('accepts amounts stored as numeric strings by older imports', () => {
+    const item = { costs: [cost(CostCategory.PURCHASE, '400' as unknown as number)], sellingPrice: '900' as unknown as number };
+    expect(calculateProfit(item).profit).toBe(500);
+  });
+
+  it('takes refunds off the revenue and adds warranty repairs to the cost', () => {
+    const result = calculateProfit({
+      costs: [cost(CostCategory.PURCHASE, 600)],
+      sellingPrice: 1000,
+      afterSales: [event(AfterSalesKind.REFUND, 100), event(AfterSalesKind.REPAIR, 150)]
+    });
+    expect(result).toMatchObject({ revenue: 900, cost: 750, profit: 150 });
+  });
+
+  it('leaves a returned item with only what the return cost us', () => {
+    const result = calculateProfit({
+      costs: [cost(CostCategory.PURCHASE, 600)],
+      sellingPrice: 1000,
+      channelFee: 40,
+      afterSales: [event(AfterSalesKind.RETURN, 950)]
+    });
+    // The goods and their cost went back to stock; the kept 50 and the lost fee remain
+    expect(result).toMatchObject({ revenue: 50, cost: 0, fees: 40, profit: 10 });
+  });
+});
+
+describe('calculateChannelFee', () => {
+  it('combines the percentage and the fixed fee, rounded to satang', () => {
+    expect(calculateChannelFee(1234, { percent: 5.5, fixed: 10 })).toBe(77.87);
+  });
+
+  it('charges nothing without a rule or a price', () => {
+    expect(calculateChannelFee(1000)).toBe(0);
+    expect(calculateChannelFee(0, { percent: 5, fixed: 10 })).toBe(0);
+  });
+});
+
+describe('resolveChannelFee', () => {
+  const rules = { [SalesChannel.SHOPEE]: { percent: 10, fixed: 0 } };
+  const saved: SaleItem = {
+    id: 'a1', brand: 'Sony', model: 'SS-1', type: 'ลำโพง', status: ItemStatus.SOLD, purchaseDate: '2026-01-01',
+    costs: [], channel: SalesChannel.SHOPEE, sellingPrice: 1000, channelFee: 50
+  };
+
+  it('keeps the fee a saved sale was charged when only other details change', () => {
+    expect(resolveChannelFee({ channel: SalesChannel.SHOPEE, sellingPrice: 1000 }, saved, rules)).toBe(50);
+  });
+
+  it("charges today's rules for a new sale or a new channel or price", () => {
+    expect(resolveChannelFee({ channel: SalesChannel.SHOPEE, sellingPrice: 1000 }, undefined, rules)).toBe(100);
+    expect(resolveChannelFee({ channel: SalesChannel.SHOPEE, sellingPrice: 2000 }, saved, rules)).toBe(200);
+    expect(resolveChannelFee({ channel: SalesChannel.FACEBOOK, sellingPrice: 1000 }, saved, rules)).toBe(0);
+    expect(resolveChannelFee({ sellingPrice: 1000 }, saved, rules)).toBe(0);
+  });
+});
+
+describe('addToCostBreakdown', () => {
+  it('files channel fees under platform fees next to hand-entered ones', () => {
+    const breakdown = addToCostBreakdown(emptyCostBreakdown(), {
+      costs: [cost(CostCategory.PURCHASE, 500), cost(CostCategory.PLATFORM_FEE, 20)],
+      channelFee: 30
+    });
+    expect(breakdown[CostCategory.PURCHASE]).toBe(500);
+    expect(breakdown[CostCategory.PLATFORM_FEE]).toBe(50);
+    expect(breakdown[CostCategory.SHIPPING]).toBe(0);
+  });
+
+  it('files warranty repairs under repairs and leaves out a returned item\'s costs', () => {
+    const breakdown = addToCostBreakdown(emptyCostBreakdown(), {
+      costs: [cost(CostCategory.PURCHASE, 500)],
+      afterSales: [event(AfterSalesKind.RETURN, 800), event(AfterSalesKind.REPAIR, 120)]
+    });
+    expect(breakdown[CostCategory.PURCHASE]).toBe(0);
+    expect(breakdown[CostCategory.REPAIR]).toBe(120);
+  });
+});
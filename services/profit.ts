@@ -0,0 +1,95 @@
+import { SaleItem, ChannelFeeRule, CostCategory, CostEntry, AfterSalesKind } from '../types';
+
+export interface ProfitBreakdown {
+  revenue: number; // Selling price less anything refunded
+  cost: number; // Itemized costs plus warranty repairs; a returned item's costs went back to stock with it
+  fees: number; // Channel fee taken from the sale
+  profit: number;
+  margin: number | null; // Profit as % of revenue; null without revenue
+}
+
+type CostInput = Pick<SaleItem, 'costs' | 'exchangeRate'>;
+type ProfitInput = CostInput & Pick<SaleItem, 'sellingPrice' | 'channelFee' | 'afterSales'>;
+
+export interface AfterSalesTotals {
+  refunded: number;
+  repairCost: number;
+  returned: boolean;
+}
+
+// New items start with the two costs almost every deal has
+export const defaultCosts = (): CostEntry[] => [
+  { id: crypto.randomUUID(), category: CostCategory.PURCHASE, amount: 0 },
+  { id: crypto.randomUUID(), category: CostCategory.SHIPPING, amount: 0 },
+];
+
+export const emptyCostBreakdown = (): Record<CostCategory, number> =>
+  Object.fromEntries(Object.values(CostCategory).map(c => [c, 0])) as Record<CostCategory, number>;
+
+// The purchase price may be entered in the currency it was paid in; every other cost
+// is already in the reporting currency
+export const getCostAmount = (item: Pick<SaleItem, 'exchangeRate'>, entry: CostEntry): number =>
+  Number(entry.amount) * (entry.category === CostCategory.PURCHASE ? item.exchangeRate ?? 1 : 1);
+
+// Everything we have spent on the item so far, in the reporting currency
+export const getItemCost = (item: CostInput): number =>
+  item.costs.reduce((sum, entry) => sum + getCostAmount(item, entry), 0);
+
+export const getCostByCategory = (item: CostInput, category: CostCategory): number =>
+  item.costs.filter(entry => entry.category === category).reduce((sum, entry) => sum + getCostAmount(item, entry), 0);
+
+// Adjustments count against the sale itself, so the sale's period carries them
+export const getAfterSalesTotals = (item: Pick<SaleItem, 'afterSales'>): AfterSalesTotals =>
+  (item.afterSales ?? []).reduce<AfterSalesTotals>((totals, event) => {
+    if (event.kind === AfterSalesKind.REPAIR) totals.repairCost += Number(event.amount);
+    else totals.refunded += Number(event.amount);
+    if (event.kind === AfterSalesKind.RETURN) totals.returned = true;
+    return totals;
+  }, { refunded: 0, repairCost: 0, returned: false });
+
+export const calculateChannelFee = (sellingPrice: number, rule?: ChannelFeeRule): number => {
+  if (!rule || sellingPrice <= 0) return 0;
+  return Math.round((sellingPrice * rule.percent / 100 + rule.fixed) * 100) / 100;
+};
+
+// The fee a sale is saved with. A saved sale keeps the fee it was charged unless its channel or
+// price changes, so editing an old sale's note doesn't reprice it under today's fee rules.
+export const resolveChannelFee = (
+  item: Pick<SaleItem, 'channel' | 'sellingPrice'>,
+  saved: SaleItem | undefined,
+  rules: Partial<Record<NonNullable<SaleItem['channel']>, ChannelFeeRule>>
+): number => {
+  if (!item.channel) return 0;
+  if (saved?.channelFee !== undefined && saved.channel === item.channel && saved.sellingPrice === item.sellingPrice) {
+    return saved.channelFee;
+  }
+  return calculateChannelFee(Number(item.sellingPrice ?? 0), rules[item.channel]);
+};
+
+// The one place profit is defined; dashboard, list, form and reports all go through here
+export const calculateProfit = (item: ProfitInput): ProfitBreakdown => {
+  const { refunded, repairCost, returned } = getAfterSalesTotals(item);
+  const revenue = Number(item.sellingPrice ?? 0) - refunded;
+  const cost = (returned ? 0 : getItemCost(item)) + repairCost;
+  const fees = Number(item.channelFee ?? 0);
+  const profit = revenue - cost - fees;
+  return { revenue, cost, fees, profit, margin: revenue > 0 ? (profit / revenue) * 100 : null };
+};
+
+export const getItemProfit = (item: ProfitInput): number => calculateProfit(item).profit;
+
+// Channel fees are reported under platform fees alongside any entered by hand
+export const addToCostBreakdown = (
+  breakdown: Record<CostCategory, number>,
+  item: CostInput & Pick<SaleItem, 'channelFee' | 'afterSales'>
+): Record<CostCategory, number> => {
+  const { repairCost, returned } = getAfterSalesTotals(item);
+  if (!returned) {
+    item.costs.forEach(entry => {
+      breakdown[entry.category] = (breakdown[entry.category] ?? 0) + getCostAmount(item, entry);
+    });
+  }
+  breakdown[CostCategory.REPAIR] += repairCost;
+  breakdown[CostCategory.PLATFORM_FEE] += Number(item.channelFee ?? 0);
+  return breakdown;
+};
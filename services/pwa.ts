@@ -0,0 +1,21 @@
+/// <reference types="vite/client" />
+
+// The service worker only exists in a production build (see vite.config.ts)
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error("Failed to register service worker", error);
+    });
+  });
+};
+
+// Sales live only on this device, so ask the browser not to evict them when space runs low
+export const requestPersistentStorage = async () => {
+  if (!navigator.storage?.persist) return;
+  try {
+    if (!(await navigator.storage.persisted())) await navigator.storage.persist();
+  } catch (error) {
+    console.error("Failed to request persistent storage", error);
+  }
+};
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ItemStatus, CostCategory, SalesChannel, Language, ExpenseCategory, Recurrence, AuditAction } from '../types';
+import {
+  loadData, saveData, loadQuarantine, clearQuarantine, loadSettings, loadSyncState, loadAuditLog, decodeStoredData,
+  DEFAULT_SETTINGS, EMPTY_SYNC_STATE, SCHEMA_VERSION
+} from './storage';
+
+// jsdom has no IndexedDB, so these run against the localStorage backend
+const DATA_KEY = 'audio_sales_data';
+const LEGACY_KEY = 'audio_sales_data_v1';
+const SETTINGS_KEY = 'audio_sales_settings';
+const SYNC_KEY = 'audio_sales_sync';
+const AUDIT_KEY = 'audio_sales_audit';
+
+const validSale = {
+  id: 'a1',
+  brand: 'Sony',
+  model: 'SS-1',
+  type: 'ลำโพง',
+  status: ItemStatus.SOLD,
+  purchaseDate: '2026-01-01',
+  date: '2026-01-10',
+  sellingPrice: 1500,
+  costs: [{ id: 'c1', category: CostCategory.PURCHASE, amount: 900 }]
+};
+
+const rent = {
+  id: 'e1',
+  date: '2026-01-05',
+  category: ExpenseCategory.RENT,
+  amount: 3000,
+  recurrence: Recurrence.MONTHLY
+};
+
+const store = (key: string, value: unknown) =>
+  localStorage.setItem(key, typeof value === 'string' ? value : JSON.stringify(value));
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('loadData', () => {
+  it('starts empty when nothing is stored', async () => {
+    expect(await loadData()).toEqual({ sales: [], expenses: [] });
+    expect(await loadQuarantine()).toEqual([]);
+  });
+
+  it('round-trips what was saved', async () => {
+    await saveData([validSale], [rent]);
+    expect(await loadData()).toEqual({ sales: [validSale], expenses: [rent] });
+    expect(JSON.parse(localStorage.getItem(DATA_KEY)!).version).toBe(SCHEMA_VERSION);
+  });
+
+  it('quarantines unparseable data instead of discarding it', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    store(DATA_KEY, '{"version": 3, "sales": [');
+
+    expect((await loadData()).sales).toEqual([]);
+    const quarantine = await loadQuarantine();
+    expect(quarantine).toHaveLength(1);
+    expect(quarantine[0].payload).toEqual({ unparseable: '{"version": 3, "sales": [' });
+  });
+
+  it('keeps the valid records and quarantines the broken ones', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const missingCosts = { ...validSale, id: 'a2', costs: undefined };
+    const badStatus = { ...validSale, id: 'a3', status: 'lost' };
+    store(DATA_KEY, { version: SCHEMA_VERSION, sales: [validSale, missingCosts, 'garbage', badStatus] });
+
+    expect((await loadData()).sales.map(sale => sale.id)).toEqual(['a1']);
+    const reasons = (await loadQuarantine()).map(entry => entry.reason);
+    expect(reasons).toEqual(['Record is not an object', 'Record failed validation', 'Record failed validation']);
+
+    await clearQuarantine();
+    expect(await loadQuarantine()).toEqual([]);
+  });
+
+  it('quarantines data that stays unreadable only once', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const badStatus = { ...validSale, id: 'a3', status: 'lost' };
+    store(DATA_KEY, { version: SCHEMA_VERSION, sales: [validSale, badStatus] });
+
+    await loadData();
+    await loadData();
+    expect((await loadQuarantine()).map(entry => entry.payload)).toEqual([badStatus]);
+
+    // A different broken version of the same record is kept as well
+    store(DATA_KEY, { version: SCHEMA_VERSION, sales: [{ ...badStatus, status: 'stolen' }] });
+    await loadData();
+    expect(await loadQuarantine()).toHaveLength(2);
+  });
+
+  it('quarantines expenses it cannot read', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const noAmount = { ...rent, id: 'e2', amount: '500' };
+    const badRecurrence = { ...rent, id: 'e3', recurrence: 'weekly' };
+    store(DATA_KEY, { version: SCHEMA_VERSION, sales: [], expenses: [rent, noAmount, badRecurrence] });
+
+    expect((await loadData()).expenses.map(expense => expense.id)).toEqual(['e1']);
+    expect((await loadQuarantine()).map(entry => entry.reason)).toEqual(['Expense failed validation', 'Expense failed validation']);
+  });
+
+  it('migrates the original bare array format', async () => {
+    store(LEGACY_KEY, [{ id: 'old', brand: 'Bose', model: '301', type: 'ลำโพง', date: '2023-05-01', costPrice: 2000, shippingCost: 100, sellingPrice: 3000 }]);
+
+    const { sales: [migrated], expenses } = await loadData();
+    expect(expenses).toEqual([]);
+
+    expect(migrated.status).toBe(ItemStatus.SOLD);
+    expect(migrated.purchaseDate).toBe('2023-05-01');
+    expect(migrated.costs.map(entry => [entry.category, entry.amount])).toEqual([
+      [CostCategory.PURCHASE, 2000],
+      [CostCategory.SHIPPING, 100]
+    ]);
+    expect(migrated).not.toHaveProperty('costPrice');
+  });
+
+  it('opens data from a newer version of the app read-only', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    store(DATA_KEY, { version: SCHEMA_VERSION + 1, sales: [validSale], expenses: [] });
+    expect(await loadData()).toEqual({ sales: [validSale], expenses: [], readOnly: true });
+  });
+
+  it('rejects when storage cannot be read, so the app never saves over unseen data', async () => {
+    vi.spyOn(Storage.prototype, 'getItem').mockImplementation(() => {
+      throw new Error('SecurityError');
+    });
+    await expect(loadData()).rejects.toThrow('SecurityError');
+  });
+});
+
+describe('decodeStoredData', () => {
+  it('refuses a shape it does not recognise', () => {
+    const { sales, quarantined } = decodeStoredData({ items: [] });
+    expect(sales).toEqual([]);
+    expect(quarantined[0].reason).toBe('Unrecognized data format');
+  });
+});
+
+describe('loadSettings', () => {
+  it('falls back to defaults when missing or corrupt', async () => {
+    expect(await loadSettings()).toEqual(DEFAULT_SETTINGS);
+    store(SETTINGS_KEY, 'not json');
+    expect(await loadSettings()).toEqual(DEFAULT_SETTINGS);
+    store(SETTINGS_KEY, [1, 2, 3]);
+    expect(await loadSettings()).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('fills in keys added since the settings were saved', async () => {
+    store(SETTINGS_KEY, { language: Language.EN, channelFees: { [SalesChannel.SHOPEE]: { percent: 8, fixed: 0 } } });
+
+    const settings = await loadSettings();
+
+    expect(settings.language).toBe(Language.EN);
+    expect(settings.channelFees[SalesChannel.SHOPEE]).toEqual({ percent: 8, fixed: 0 });
+    expect(settings.channelFees[SalesChannel.FACEBOOK]).toEqual(DEFAULT_SETTINGS.channelFees[SalesChannel.FACEBOOK]);
+    expect(settings.categories).toEqual(DEFAULT_SETTINGS.categories);
+    expect(settings.goals).toEqual(DEFAULT_SETTINGS.goals);
+  });
+
+  it('uses defaults when storage cannot be read', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(Storage.prototype, 'getItem').mockImplementation(() => {
+      throw new Error('SecurityError');
+    });
+    expect(await loadSettings()).toEqual(DEFAULT_SETTINGS);
+  });
+});
+
+describe('loadSyncState', () => {
+  it('starts from scratch when missing or malformed', async () => {
+    expect(await loadSyncState()).toEqual(EMPTY_SYNC_STATE);
+    store(SYNC_KEY, { cursor: 'five', synced: {} });
+    expect(await loadSyncState()).toEqual(EMPTY_SYNC_STATE);
+  });
+
+  it('keeps a valid state', async () => {
+    store(SYNC_KEY, { cursor: 12, synced: { a1: { revision: 3, updatedAt: '2026-01-10T00:00:00Z' } } });
+    const state = await loadSyncState();
+    expect(state.cursor).toBe(12);
+    expect(state.conflicts).toEqual([]);
+  });
+});
+
+describe('loadAuditLog', () => {
+  it('keeps the readable entries of the edit history', async () => {
+    expect(await loadAuditLog()).toEqual([]);
+    const deleted = { id: 'h1', itemId: 'a1', at: '2026-01-11T00:00:00Z', action: AuditAction.DELETE, changes: [], before: validSale };
+    store(AUDIT_KEY, [deleted, { id: 'h2', action: 'shred' }]);
+    expect(await loadAuditLog()).toEqual([deleted]);
+  });
+
+  it('rejects when storage cannot be read, so the history is not saved over', async () => {
+    vi.spyOn(Storage.prototype, 'getItem').mockImplementation(() => {
+      throw new Error('SecurityError');
+    });
+    await expect(loadAuditLog()).rejects.toThrow('SecurityError');
+  });
+});
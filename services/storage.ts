@@ -1,21 +1,518 @@
-import { SaleItem } from '../types';
+import {
+  SaleItem, ItemStatus, QuarantineEntry, AppSettings, SalesChannel, CostCategory, SyncState, PhotoRecord, Language, CalendarEra,
+  Expense, ExpenseCategory, Recurrence, AuditEntry, AuditAction
+} from '../types';
+import { Store, isIndexedDbAvailable, idbGet, idbGetAll, idbGetAllKeys, idbPut, idbDelete, idbClear } from './idb';
+import { defaultCategories } from './categories';
 
-const STORAGE_KEY = 'audio_sales_data_v1';
+// v1: bare SaleItem[] under the legacy key, completed sales only
+// v2: { version, sales } envelope, items carry status + purchaseDate
+// v3: costPrice/shippingCost replaced by an itemized `costs` list
+// The envelope may also carry `expenses`; data saved before the ledger existed simply has none
+export const SCHEMA_VERSION = 3;
 
-export const saveSales = (sales: SaleItem[]): void => {
+const LEGACY_STORAGE_KEY = 'audio_sales_data_v1';
+const STORAGE_KEY = 'audio_sales_data';
+const QUARANTINE_KEY = 'audio_sales_quarantine';
+const SETTINGS_KEY = 'audio_sales_settings';
+const SYNC_STATE_KEY = 'audio_sales_sync';
+const AUDIT_KEY = 'audio_sales_audit';
+const PHOTO_KEY_PREFIX = 'audio_sales_photo_';
+const DATA_RECORD_KEY = 'sales';
+const SETTINGS_RECORD_KEY = 'settings';
+const SYNC_STATE_RECORD_KEY = 'sync';
+const AUDIT_RECORD_KEY = 'audit';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  language: Language.TH,
+  calendar: CalendarEra.BUDDHIST,
+  currency: 'THB',
+  channelFees: {
+    [SalesChannel.FACEBOOK]: { percent: 0, fixed: 0 },
+    [SalesChannel.SHOPEE]: { percent: 0, fixed: 0 },
+    [SalesChannel.KAIDEE]: { percent: 0, fixed: 0 },
+    [SalesChannel.IN_PERSON]: { percent: 0, fixed: 0 },
+    [SalesChannel.OTHER]: { percent: 0, fixed: 0 },
+  },
+  categories: defaultCategories(),
+  shop: { name: '', address: '', phone: '', taxId: '', warrantyNote: '' },
+  goals: { monthlyRevenue: 0, monthlyProfit: 0 },
+  alerts: { lossMaking: true, staleStockDays: 60 },
+  dismissedAlerts: [],
+};
+
+export const EMPTY_SYNC_STATE: SyncState = {
+  cursor: 0,
+  synced: {},
+  conflicts: [],
+};
+
+export interface StoredData {
+  version: number;
+  sales: SaleItem[];
+  expenses: Expense[];
+}
+
+type RawRecord = Record<string, unknown>;
+type Migration = (records: RawRecord[]) => RawRecord[];
+
+// Each entry upgrades records saved at version N to version N + 1
+const MIGRATIONS: Record<number, Migration> = {
+  // Records saved before the inventory lifecycle existed were always completed sales
+  1: records => records.map(r => ({
+    ...r,
+    status: r.status ?? ItemStatus.SOLD,
+    purchaseDate: r.purchaseDate ?? r.date ?? '',
+  })),
+  // The two fixed cost fields become the first entries of the cost list
+  2: records => records.map(({ costPrice, shippingCost, ...r }) => ({
+    ...r,
+    costs: [
+      { id: crypto.randomUUID(), category: CostCategory.PURCHASE, amount: Number(costPrice ?? 0) },
+      ...(Number(shippingCost) > 0
+        ? [{ id: crypto.randomUUID(), category: CostCategory.SHIPPING, amount: Number(shippingCost) }]
+        : []),
+    ],
+  })),
+};
+
+export const migrateRecords = (records: RawRecord[], fromVersion: number): RawRecord[] => {
+  let migrated = records;
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS[version];
+    if (!migration) throw new Error(`No migration from schema v${version}`);
+    migrated = migration(migrated);
+  }
+  return migrated;
+};
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Only checks what the app cannot render without; optional fields are left alone
+const isValidSale = (record: RawRecord): boolean =>
+  typeof record.id === 'string' &&
+  typeof record.brand === 'string' &&
+  typeof record.model === 'string' &&
+  Array.isArray(record.costs) &&
+  record.costs.every(entry => isRecord(entry) && typeof entry.amount === 'number' &&
+    Object.values(CostCategory).includes(entry.category as CostCategory)) &&
+  Object.values(ItemStatus).includes(record.status as ItemStatus) &&
+  typeof record.purchaseDate === 'string';
+
+const isValidExpense = (record: unknown): boolean =>
+  isRecord(record) &&
+  typeof record.id === 'string' &&
+  typeof record.date === 'string' &&
+  typeof record.amount === 'number' &&
+  Object.values(ExpenseCategory).includes(record.category as ExpenseCategory) &&
+  (record.recurrence === undefined || Object.values(Recurrence).includes(record.recurrence as Recurrence));
+
+// 32-bit FNV-1a; enough to tell payloads apart, not meant to be secure
+const contentHash = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Entries are keyed by what was set aside, so data that stays unreadable
+// from one launch to the next is only quarantined once
+const newQuarantineEntry = (reason: string, payload: unknown): QuarantineEntry => ({
+  id: `${isRecord(payload) && typeof payload.id === 'string' ? payload.id : 'data'}-${contentHash(reason + JSON.stringify(payload))}`,
+  quarantinedAt: new Date().toISOString(),
+  reason,
+  payload,
+});
+
+interface DecodeResult {
+  sales: SaleItem[];
+  expenses: Expense[];
+  quarantined: QuarantineEntry[];
+  fromNewerVersion?: boolean; // Saved by a later release, whose fields this one may not know
+}
+
+// Turns whatever is stored (any schema version) into current records. Nothing is
+// dropped silently: undecodable payloads and invalid records are returned for quarantine.
+export const decodeStoredData = (raw: unknown): DecodeResult => {
+  let version: number;
+  let records: unknown[];
+
+  if (Array.isArray(raw)) {
+    version = 1;
+    records = raw;
+  } else if (isRecord(raw) && typeof raw.version === 'number' && Array.isArray(raw.sales)) {
+    version = raw.version;
+    records = raw.sales;
+  } else {
+    return { sales: [], expenses: [], quarantined: [newQuarantineEntry('Unrecognized data format', raw)] };
+  }
+
+  const fromNewerVersion = version > SCHEMA_VERSION;
+  if (fromNewerVersion) {
+    console.warn(`Stored data is schema v${version}, newer than this app (v${SCHEMA_VERSION})`);
+  }
+
+  const quarantined: QuarantineEntry[] = [];
+  const objects = records.filter((record): record is RawRecord => {
+    if (isRecord(record)) return true;
+    quarantined.push(newQuarantineEntry('Record is not an object', record));
+    return false;
+  });
+
+  let migrated: RawRecord[];
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(sales));
+    migrated = version < SCHEMA_VERSION ? migrateRecords(objects, version) : objects;
   } catch (error) {
-    console.error("Error saving to local storage", error);
+    return { sales: [], expenses: [], quarantined: [...quarantined, newQuarantineEntry(String(error), raw)] };
+  }
+
+  const sales = migrated.filter(record => {
+    if (isValidSale(record)) return true;
+    quarantined.push(newQuarantineEntry('Record failed validation', record));
+    return false;
+  }) as unknown as SaleItem[];
+
+  const storedExpenses = isRecord(raw) && Array.isArray(raw.expenses) ? raw.expenses : [];
+  const expenses = storedExpenses.filter(record => {
+    if (isValidExpense(record)) return true;
+    quarantined.push(newQuarantineEntry('Expense failed validation', record));
+    return false;
+  }) as Expense[];
+
+  return { sales, expenses, quarantined, ...(fromNewerVersion ? { fromNewerVersion } : {}) };
+};
+
+interface StorageBackend {
+  readData(): Promise<unknown>;
+  writeData(data: StoredData): Promise<void>;
+  readSettings(): Promise<unknown>;
+  writeSettings(settings: AppSettings): Promise<void>;
+  readSyncState(): Promise<unknown>;
+  writeSyncState(state: SyncState): Promise<void>;
+  readAudit(): Promise<unknown>;
+  writeAudit(log: AuditEntry[]): Promise<void>;
+  addQuarantine(entries: QuarantineEntry[]): Promise<void>;
+  listQuarantine(): Promise<QuarantineEntry[]>;
+  clearQuarantine(): Promise<void>;
+  getPhoto(id: string): Promise<PhotoRecord | undefined>;
+  putPhoto(photo: PhotoRecord): Promise<void>;
+  deletePhoto(id: string): Promise<void>;
+  listPhotoIds(): Promise<string[]>;
+}
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { unparseable: text };
   }
 };
 
-export const loadSales = (): SaleItem[] => {
+// Settings, sync state and the audit log fall back to defaults when unreadable, so there is nothing to quarantine
+const parseJsonOrUndefined = (text: string): unknown => {
   try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const readLegacyLocalStorage = (): unknown => {
+  const data = localStorage.getItem(LEGACY_STORAGE_KEY);
+  return data === null ? undefined : parseJson(data);
+};
+
+const localStorageBackend: StorageBackend = {
+  async readData() {
     const data = localStorage.getItem(STORAGE_KEY);
-    return data ? JSON.parse(data) : [];
+    return data === null ? readLegacyLocalStorage() : parseJson(data);
+  },
+  async writeData(data) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  },
+  async readSettings() {
+    const data = localStorage.getItem(SETTINGS_KEY);
+    return data === null ? undefined : parseJsonOrUndefined(data);
+  },
+  async writeSettings(settings) {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  },
+  async readSyncState() {
+    const data = localStorage.getItem(SYNC_STATE_KEY);
+    return data === null ? undefined : parseJsonOrUndefined(data);
+  },
+  async writeSyncState(state) {
+    localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+  },
+  async readAudit() {
+    const data = localStorage.getItem(AUDIT_KEY);
+    return data === null ? undefined : parseJsonOrUndefined(data);
+  },
+  async writeAudit(log) {
+    localStorage.setItem(AUDIT_KEY, JSON.stringify(log));
+  },
+  async addQuarantine(entries) {
+    const existing = await this.listQuarantine();
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify([...existing, ...entries]));
+  },
+  async listQuarantine() {
+    const data = localStorage.getItem(QUARANTINE_KEY);
+    const parsed = data === null ? [] : parseJson(data);
+    return Array.isArray(parsed) ? parsed : [];
+  },
+  async clearQuarantine() {
+    localStorage.removeItem(QUARANTINE_KEY);
+  },
+  async getPhoto(id) {
+    const data = localStorage.getItem(PHOTO_KEY_PREFIX + id);
+    return data === null ? undefined : (parseJson(data) as PhotoRecord);
+  },
+  // Only a few photos fit in localStorage; a full quota makes this throw
+  async putPhoto(photo) {
+    localStorage.setItem(PHOTO_KEY_PREFIX + photo.id, JSON.stringify(photo));
+  },
+  async deletePhoto(id) {
+    localStorage.removeItem(PHOTO_KEY_PREFIX + id);
+  },
+  async listPhotoIds() {
+    return Object.keys(localStorage)
+      .filter(key => key.startsWith(PHOTO_KEY_PREFIX))
+      .map(key => key.slice(PHOTO_KEY_PREFIX.length));
+  },
+};
+
+const indexedDbBackend: StorageBackend = {
+  async readData() {
+    const data = await idbGet<unknown>(Store.DATA, DATA_RECORD_KEY);
+    // First run after the upgrade: pick up what the localStorage versions left behind
+    return data === undefined ? localStorageBackend.readData() : data;
+  },
+  async writeData(data) {
+    await idbPut(Store.DATA, DATA_RECORD_KEY, data);
+  },
+  async readSettings() {
+    return idbGet<unknown>(Store.DATA, SETTINGS_RECORD_KEY);
+  },
+  async writeSettings(settings) {
+    await idbPut(Store.DATA, SETTINGS_RECORD_KEY, settings);
+  },
+  async readSyncState() {
+    return idbGet<unknown>(Store.DATA, SYNC_STATE_RECORD_KEY);
+  },
+  async writeSyncState(state) {
+    await idbPut(Store.DATA, SYNC_STATE_RECORD_KEY, state);
+  },
+  async readAudit() {
+    return idbGet<unknown>(Store.DATA, AUDIT_RECORD_KEY);
+  },
+  async writeAudit(log) {
+    await idbPut(Store.DATA, AUDIT_RECORD_KEY, log);
+  },
+  async addQuarantine(entries) {
+    await Promise.all(entries.map(entry => idbPut(Store.QUARANTINE, entry.id, entry)));
+  },
+  async listQuarantine() {
+    return idbGetAll<QuarantineEntry>(Store.QUARANTINE);
+  },
+  async clearQuarantine() {
+    await idbClear(Store.QUARANTINE);
+  },
+  async getPhoto(id) {
+    return idbGet<PhotoRecord>(Store.PHOTOS, id);
+  },
+  async putPhoto(photo) {
+    await idbPut(Store.PHOTOS, photo.id, photo);
+  },
+  async deletePhoto(id) {
+    await idbDelete(Store.PHOTOS, id);
+  },
+  async listPhotoIds() {
+    return idbGetAllKeys(Store.PHOTOS);
+  },
+};
+
+let backendPromise: Promise<StorageBackend> | null = null;
+
+// IndexedDB can exist but refuse to open (e.g. some private browsing modes)
+const getBackend = (): Promise<StorageBackend> => {
+  if (!backendPromise) {
+    backendPromise = isIndexedDbAvailable()
+      ? idbGetAll(Store.QUARANTINE)
+          .then(() => indexedDbBackend)
+          .catch(error => {
+            console.warn("IndexedDB unavailable, falling back to local storage", error);
+            return localStorageBackend;
+          })
+      : Promise.resolve(localStorageBackend);
+  }
+  return backendPromise;
+};
+
+// Returns how many of the entries were not in quarantine already
+const addNewToQuarantine = async (backend: StorageBackend, entries: QuarantineEntry[]): Promise<number> => {
+  const known = new Set((await backend.listQuarantine()).map(entry => entry.id));
+  const fresh = entries.filter(entry => !known.has(entry.id));
+  if (fresh.length > 0) await backend.addQuarantine(fresh);
+  return fresh.length;
+};
+
+export const saveData = async (sales: SaleItem[], expenses: Expense[]): Promise<void> => {
+  try {
+    const backend = await getBackend();
+    await backend.writeData({ version: SCHEMA_VERSION, sales, expenses });
   } catch (error) {
-    console.error("Error loading from local storage", error);
+    console.error("Error saving sales data", error);
+  }
+};
+
+export interface LoadedData extends Omit<StoredData, 'version'> {
+  readOnly?: boolean; // Saving would write this version's schema over a newer one and lose what it added
+}
+
+// Rejects only when the backend itself cannot be read. Callers must not save over
+// the data in that case, since we never saw what was stored.
+export const loadData = async (): Promise<LoadedData> => {
+  const backend = await getBackend();
+  const raw = await backend.readData();
+  if (raw === undefined) return { sales: [], expenses: [] };
+
+  const { sales, expenses, quarantined, fromNewerVersion } = decodeStoredData(raw);
+  if (quarantined.length > 0 && await addNewToQuarantine(backend, quarantined) > 0) {
+    console.error(`Quarantined ${quarantined.length} unreadable record(s)`);
+  }
+  return { sales, expenses, ...(fromNewerVersion ? { readOnly: true } : {}) };
+};
+
+export const loadQuarantine = async (): Promise<QuarantineEntry[]> => {
+  try {
+    return await (await getBackend()).listQuarantine();
+  } catch (error) {
+    console.error("Error loading quarantined data", error);
     return [];
   }
-};
\ No newline at end of file
+};
+
+// For records that arrive unreadable after loading, such as through sync
+export const addToQuarantine = async (entries: QuarantineEntry[]): Promise<void> => {
+  try {
+    await addNewToQuarantine(await getBackend(), entries);
+  } catch (error) {
+    console.error("Error quarantining data", error);
+  }
+};
+
+export const clearQuarantine = async (): Promise<void> => {
+  try {
+    await (await getBackend()).clearQuarantine();
+  } catch (error) {
+    console.error("Error clearing quarantined data", error);
+  }
+};
+
+// Nested maps are merged key by key so a newly added channel still gets its default rule
+export const mergeSettings = (settings: Partial<AppSettings>): AppSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...settings,
+  channelFees: { ...DEFAULT_SETTINGS.channelFees, ...settings.channelFees },
+  shop: { ...DEFAULT_SETTINGS.shop, ...settings.shop },
+  goals: { ...DEFAULT_SETTINGS.goals, ...settings.goals },
+  alerts: { ...DEFAULT_SETTINGS.alerts, ...settings.alerts },
+  dismissedAlerts: Array.isArray(settings.dismissedAlerts) ? settings.dismissedAlerts : [],
+  // Settings saved before categories existed keep the built-in list
+  categories: Array.isArray(settings.categories) ? settings.categories : DEFAULT_SETTINGS.categories,
+});
+
+export const saveSettings = async (settings: AppSettings): Promise<void> => {
+  try {
+    await (await getBackend()).writeSettings(settings);
+  } catch (error) {
+    console.error("Error saving settings", error);
+  }
+};
+
+// Unknown or missing keys fall back to defaults, so settings never need migrating
+export const loadSettings = async (): Promise<AppSettings> => {
+  try {
+    const raw = await (await getBackend()).readSettings();
+    return isRecord(raw) ? mergeSettings(raw as Partial<AppSettings>) : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.error("Error loading settings", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSyncState = async (state: SyncState): Promise<void> => {
+  try {
+    await (await getBackend()).writeSyncState(state);
+  } catch (error) {
+    console.error("Error saving sync state", error);
+  }
+};
+
+// Rejects like loadData: starting over from an empty state would re-push every
+// record as new and wrongly report them all as conflicts.
+export const loadSyncState = async (): Promise<SyncState> => {
+  const raw = await (await getBackend()).readSyncState();
+  if (!isRecord(raw) || typeof raw.cursor !== 'number' || !isRecord(raw.synced)) return EMPTY_SYNC_STATE;
+  return { ...EMPTY_SYNC_STATE, ...(raw as Partial<SyncState>) };
+};
+
+export const saveAuditLog = async (log: AuditEntry[]): Promise<void> => {
+  try {
+    await (await getBackend()).writeAudit(log);
+  } catch (error) {
+    console.error("Error saving edit history", error);
+  }
+};
+
+const isValidAuditEntry = (entry: unknown): entry is AuditEntry =>
+  isRecord(entry) &&
+  typeof entry.id === 'string' &&
+  typeof entry.itemId === 'string' &&
+  typeof entry.at === 'string' &&
+  Object.values(AuditAction).includes(entry.action as AuditAction) &&
+  Array.isArray(entry.changes) &&
+  (entry.before === null || isRecord(entry.before));
+
+// Rejects like loadData, so a failed read is not followed by a save that wipes the
+// history. Unreadable entries are only history, so they are dropped rather than quarantined.
+export const loadAuditLog = async (): Promise<AuditEntry[]> => {
+  const raw = await (await getBackend()).readAudit();
+  return Array.isArray(raw) ? raw.filter(isValidAuditEntry) : [];
+};
+
+// Rejects so the form can tell the user the photo was not kept
+export const savePhoto = async (photo: PhotoRecord): Promise<void> => {
+  await (await getBackend()).putPhoto(photo);
+};
+
+export const loadPhoto = async (id: string): Promise<PhotoRecord | undefined> => {
+  try {
+    return await (await getBackend()).getPhoto(id);
+  } catch (error) {
+    console.error("Error loading photo", error);
+    return undefined;
+  }
+};
+
+// Photos not found are skipped, e.g. ones taken on another synced device
+export const loadPhotos = async (ids: string[]): Promise<PhotoRecord[]> => {
+  const photos = await Promise.all(ids.map(loadPhoto));
+  return photos.filter((photo): photo is PhotoRecord => photo !== undefined);
+};
+
+// Photos are saved as soon as they are picked, so a cancelled form or an item deleted
+// long enough ago to have left the edit history leaves some behind. Called after loading,
+// once the undo window has passed.
+export const prunePhotos = async (referenced: Set<string>): Promise<void> => {
+  try {
+    const backend = await getBackend();
+    const orphans = (await backend.listPhotoIds()).filter(id => !referenced.has(id));
+    await Promise.all(orphans.map(id => backend.deletePhoto(id)));
+  } catch (error) {
+    console.error("Error removing unused photos", error);
+  }
+};
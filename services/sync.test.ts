@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { SaleItem, SyncState } from '../types';
+import { collectChanges, mergeSyncResponse, resolveConflict, SyncResponse } from './sync';
+import { EMPTY_SYNC_STATE } from './storage';
+import { soldAmp } from './testUtils';
+
+const NOW = '2026-03-02T10:00:00.000Z';
+const EARLIER = '2026-03-01T10:00:00.000Z';
+const LATER = '2026-03-03T10:00:00.000Z';
+
+// An item the server has at the given revision, unchanged here since
+const syncedAt = (item: SaleItem, revision: number) => ({ [item.id]: { revision, updatedAt: item.updatedAt } });
+
+const remote = (item: SaleItem | { id: string }, revision: number, deleted = false) => ({
+  id: item.id, revision, updatedAt: NOW, deleted, data: deleted ? null : item
+});
+
+const response = (overrides: Partial<SyncResponse> = {}): SyncResponse => ({
+  cursor: 10, applied: [], conflicts: [], changes: [], ...overrides
+});
+
+describe('collectChanges', () => {
+  it('sends new and edited items, and deletes of synced ones', () => {
+    const unchanged = soldAmp({ updatedAt: EARLIER });
+    const edited = soldAmp({ updatedAt: NOW });
+    const added = soldAmp({ updatedAt: NOW });
+    const state: SyncState = {
+      ...EMPTY_SYNC_STATE,
+      synced: { ...syncedAt(unchanged, 1), [edited.id]: { revision: 2, updatedAt: EARLIER }, removed: { revision: 3, updatedAt: EARLIER } }
+    };
+
+    expect(collectChanges([unchanged, edited, added], state, NOW)).toEqual([
+      { id: edited.id, baseRevision: 2, updatedAt: NOW, deleted: false, data: edited },
+      { id: added.id, baseRevision: 0, updatedAt: NOW, deleted: false, data: added },
+      { id: 'removed', baseRevision: 3, updatedAt: NOW, deleted: true }
+    ]);
+  });
+
+  it('holds back items waiting on a conflict', () => {
+    const item = soldAmp({ updatedAt: NOW });
+    const state: SyncState = { ...EMPTY_SYNC_STATE, conflicts: [{ id: item.id, revision: 4, local: item, remote: null }] };
+    expect(collectChanges([item], state, NOW)).toEqual([]);
+  });
+});
+
+describe('mergeSyncResponse', () => {
+  it('records what the server accepted', () => {
+    const item = soldAmp({ updatedAt: NOW });
+    const pushed = collectChanges([item], EMPTY_SYNC_STATE, NOW);
+    const result = mergeSyncResponse([item], EMPTY_SYNC_STATE, pushed, response({ applied: [{ id: item.id, revision: 5 }] }));
+
+    expect(result.changed).toBe(false);
+    expect(result.state.synced).toEqual({ [item.id]: { revision: 5, updatedAt: NOW } });
+    expect(collectChanges(result.sales, result.state, NOW)).toEqual([]);
+  });
+
+  it('takes edits, additions and tombstones from other devices', () => {
+    const kept = soldAmp({ updatedAt: EARLIER });
+    const deleted = soldAmp({ updatedAt: EARLIER });
+    const state: SyncState = { ...EMPTY_SYNC_STATE, synced: { ...syncedAt(kept, 1), ...syncedAt(deleted, 1) } };
+    const edit = { ...kept, sellingPrice: 8500, updatedAt: NOW };
+    const added = soldAmp({ updatedAt: NOW });
+
+    const result = mergeSyncResponse([kept, deleted], state, [], response({
+      changes: [remote(edit, 2), remote(deleted, 2, true), remote(added, 3)]
+    }));
+    expect(result.changed).toBe(true);
+    expect(result.sales).toEqual([added, edit]);
+    expect(result.state.synced).toEqual({ [kept.id]: { revision: 2, updatedAt: NOW }, [added.id]: { revision: 3, updatedAt: NOW } });
+  });
+
+  it('turns a remote change to an item edited here into a conflict', () => {
+    const local = soldAmp({ updatedAt: NOW });
+    const state: SyncState = { ...EMPTY_SYNC_STATE, synced: { [local.id]: { revision: 1, updatedAt: EARLIER } } };
+    const other = { ...local, sellingPrice: 8500, updatedAt: NOW };
+
+    const result = mergeSyncResponse([local], state, [], response({ changes: [remote(other, 2)] }));
+    expect(result.sales).toEqual([local]);
+    expect(result.state.conflicts).toEqual([{ id: local.id, revision: 2, local, remote: other }]);
+  });
+
+  it('keeps the local copy when the remote version cannot be read', () => {
+    const local = soldAmp({ updatedAt: EARLIER });
+    const state: SyncState = { ...EMPTY_SYNC_STATE, synced: syncedAt(local, 1) };
+    const unreadable = { ...remote(local, 2), data: { ...local, costs: 'see grades' } };
+
+    const result = mergeSyncResponse([local], state, [], response({ changes: [unreadable], conflicts: [{ ...unreadable, id: 'other' }] }));
+    expect(result.changed).toBe(false);
+    expect(result.sales).toEqual([local]);
+    expect(result.state.synced).toEqual(state.synced);
+    expect(result.state.conflicts).toEqual([]);
+    expect(result.quarantined.map(entry => entry.payload)).toEqual([unreadable.data, unreadable.data]);
+  });
+});
+
+describe('resolveConflict', () => {
+  const local = soldAmp({ updatedAt: EARLIER });
+  const other = { ...local, sellingPrice: 8500, updatedAt: NOW };
+  const conflicted = (remoteSide: SaleItem | null): SyncState => ({
+    ...EMPTY_SYNC_STATE,
+    synced: syncedAt(local, 1),
+    conflicts: [{ id: local.id, revision: 2, local, remote: remoteSide }]
+  });
+
+  it('keeps this side and queues it to overwrite the other', () => {
+    const result = resolveConflict([local], conflicted(other), local.id, 'local', LATER);
+    expect(result.sales).toEqual([{ ...local, updatedAt: LATER }]);
+    expect(result.state.conflicts).toEqual([]);
+    expect(collectChanges(result.sales, result.state, LATER)).toEqual([
+      { id: local.id, baseRevision: 2, updatedAt: LATER, deleted: false, data: result.sales[0] }
+    ]);
+  });
+
+  it('takes the other side, including its delete', () => {
+    const taken = resolveConflict([local], conflicted(other), local.id, 'remote', NOW);
+    expect(taken.sales).toEqual([other]);
+    expect(taken.state.synced).toEqual({ [local.id]: { revision: 2, updatedAt: NOW } });
+
+    const deleted = resolveConflict([local], conflicted(null), local.id, 'remote', NOW);
+    expect(deleted.sales).toEqual([]);
+    expect(deleted.state.synced).toEqual({});
+  });
+});
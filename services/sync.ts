@@ -0,0 +1,234 @@
+import { SaleItem, SyncSettings, SyncState, SyncConflict, SyncedRecord, QuarantineEntry } from '../types';
+import { SCHEMA_VERSION, decodeStoredData } from './storage';
+import { stableStringify } from './backup';
+
+// Wire format of the sync server (server/index.js)
+export interface SyncChange {
+  id: string;
+  baseRevision: number; // Server revision this edit started from, 0 for a new record
+  updatedAt: string;
+  deleted: boolean;
+  data?: SaleItem;
+}
+
+interface RemoteRecord {
+  id: string;
+  revision: number;
+  updatedAt: string;
+  deleted: boolean;
+  data: unknown;
+}
+
+export interface SyncResponse {
+  cursor: number;
+  applied: { id: string; revision: number }[];
+  conflicts: RemoteRecord[];
+  changes: RemoteRecord[];
+}
+
+export interface SyncResult {
+  sales: SaleItem[];
+  state: SyncState;
+  changed: boolean; // Whether `sales` differs from what was passed in
+  quarantined: QuarantineEntry[]; // Remote records this version could not read, kept for recovery
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+export class SyncError extends Error {
+  // Thrown for failures the user can fix (wrong address, wrong token), as opposed to being offline
+  constructor(message: string, readonly status?: number) {
+    super(message);
+  }
+}
+
+const withoutUpdatedAt = ({ updatedAt, ...item }: SaleItem) => item;
+
+const sameContent = (a: SaleItem, b: SaleItem) =>
+  stableStringify(withoutUpdatedAt(a)) === stableStringify(withoutUpdatedAt(b));
+
+// Stamps updatedAt on every item that is new or was replaced in `next`. Unchanged
+// items keep their identity through immutable updates, so only real edits are compared.
+export const touchChanged = (prev: SaleItem[], next: SaleItem[], now = new Date().toISOString()): SaleItem[] => {
+  const untouched = new Set(prev);
+  const prevById = new Map(prev.map(item => [item.id, item]));
+  return next.map(item => {
+    if (untouched.has(item)) return item;
+    const previous = prevById.get(item.id);
+    if (previous && sameContent(previous, item)) return { ...item, updatedAt: previous.updatedAt };
+    return { ...item, updatedAt: now };
+  });
+};
+
+const isDirty = (item: SaleItem, known: SyncedRecord | undefined) => !known || known.updatedAt !== item.updatedAt;
+
+// Local edits and deletes the server has not seen. Records waiting on a conflict
+// resolution are held back so they cannot overwrite the other device's version.
+export const collectChanges = (sales: SaleItem[], state: SyncState, now = new Date().toISOString()): SyncChange[] => {
+  const conflicted = new Set(state.conflicts.map(conflict => conflict.id));
+  const localIds = new Set(sales.map(item => item.id));
+
+  const edits = sales
+    .filter(item => !conflicted.has(item.id) && isDirty(item, state.synced[item.id]))
+    .map(item => ({
+      id: item.id,
+      baseRevision: state.synced[item.id]?.revision ?? 0,
+      updatedAt: item.updatedAt ?? now,
+      deleted: false,
+      data: item,
+    }));
+
+  const deletes = Object.entries(state.synced)
+    .filter(([id]) => !localIds.has(id) && !conflicted.has(id))
+    .map(([id, known]) => ({ id, baseRevision: known.revision, updatedAt: now, deleted: true }));
+
+  return [...edits, ...deletes];
+};
+
+export const requestSync = async (settings: SyncSettings, cursor: number, changes: SyncChange[]): Promise<SyncResponse> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.token) headers.Authorization = `Bearer ${settings.token}`;
+
+  // fetch only rejects on network failure, which callers treat as being offline
+  const response = await fetch(`${settings.serverUrl.replace(/\/+$/, '')}/api/sync`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ cursor, changes }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new SyncError(body?.error ?? `Server responded ${response.status}`, response.status);
+  }
+  return response.json();
+};
+
+// Remote data goes through the same validation as stored data. Only a tombstone deletes:
+// a record this version of the app cannot read (say, one a newer version wrote) comes back
+// as `unreadable` and is quarantined, never taken as a reason to drop the local copy.
+const decodeRemote = (record: RemoteRecord): { item: SaleItem | null; unreadable: QuarantineEntry[] } => {
+  if (record.deleted) return { item: null, unreadable: [] };
+  const { sales, quarantined } = decodeStoredData({ version: SCHEMA_VERSION, sales: [record.data] });
+  return { item: sales[0] ?? null, unreadable: quarantined };
+};
+
+// Folds a server response into the current local data. `current` may include edits
+// made while the request was in flight; those stay dirty and go out with the next sync.
+export const mergeSyncResponse = (
+  current: SaleItem[],
+  state: SyncState,
+  pushed: SyncChange[],
+  response: SyncResponse
+): SyncResult => {
+  const pushedById = new Map(pushed.map(change => [change.id, change]));
+  const synced = { ...state.synced };
+  const conflicts = new Map(state.conflicts.map(conflict => [conflict.id, conflict]));
+  const items = new Map(current.map(item => [item.id, item]));
+  const added: SaleItem[] = [];
+  const quarantined: QuarantineEntry[] = [];
+  let changed = false;
+
+  const decode = (record: RemoteRecord) => {
+    const { item, unreadable } = decodeRemote(record);
+    quarantined.push(...unreadable);
+    return { item, readable: unreadable.length === 0 };
+  };
+
+  response.applied.forEach(({ id, revision }) => {
+    const change = pushedById.get(id);
+    if (!change) return;
+    if (change.deleted) delete synced[id];
+    else synced[id] = { revision, updatedAt: change.data?.updatedAt };
+  });
+
+  // An unreadable remote side can't be offered as a choice, so the local edit simply stays
+  // pending; the server keeps refusing it until this device runs a version that can read both
+  const addConflict = (record: RemoteRecord) => {
+    const { item: remote, readable } = decode(record);
+    if (!readable) return;
+    const existing = conflicts.get(record.id);
+    conflicts.set(record.id, {
+      id: record.id,
+      revision: record.revision,
+      local: existing ? existing.local : items.get(record.id) ?? null,
+      remote,
+    });
+  };
+
+  response.conflicts.forEach(addConflict);
+
+  response.changes.forEach(record => {
+    const local = items.get(record.id);
+    const known = synced[record.id];
+    const locallyChanged = local ? isDirty(local, known) : !!known;
+    if (conflicts.has(record.id) || locallyChanged) {
+      addConflict(record);
+      return;
+    }
+
+    const { item: remote, readable } = decode(record);
+    // The local copy, if any, stays as it was, and at its old revision
+    if (!readable) return;
+    changed = true;
+    if (remote) {
+      if (!local) added.push(remote);
+      items.set(record.id, remote);
+      synced[record.id] = { revision: record.revision, updatedAt: remote.updatedAt };
+    } else {
+      items.delete(record.id);
+      delete synced[record.id];
+    }
+  });
+
+  const sales = changed
+    ? [...added, ...current.filter(item => items.has(item.id)).map(item => items.get(item.id)!)]
+    : current;
+
+  return {
+    sales,
+    state: {
+      cursor: response.cursor,
+      synced,
+      conflicts: [...conflicts.values()],
+      lastSyncedAt: new Date().toISOString(),
+    },
+    changed,
+    quarantined,
+  };
+};
+
+// Keeping the local side re-bases it on the server's revision so the next sync overwrites
+// the remote version; taking the remote side replaces (or deletes) the local record.
+export const resolveConflict = (
+  current: SaleItem[],
+  state: SyncState,
+  id: string,
+  choice: ConflictChoice,
+  now = new Date().toISOString()
+): SyncResult => {
+  const conflict = state.conflicts.find(entry => entry.id === id);
+  if (!conflict) return { sales: current, state, changed: false, quarantined: [] };
+
+  const synced = { ...state.synced };
+  const conflicts = state.conflicts.filter(entry => entry.id !== id);
+  const winner: SaleItem | null = choice === 'local'
+    ? conflict.local && { ...conflict.local, updatedAt: now }
+    : conflict.remote;
+
+  if (choice === 'local' && conflict.revision > 0) {
+    // An updatedAt that matches nothing marks the record dirty for the next push
+    synced[id] = { revision: conflict.revision, updatedAt: conflict.remote?.updatedAt ?? '' };
+  } else if (choice === 'remote' && winner) {
+    synced[id] = { revision: conflict.revision, updatedAt: winner.updatedAt };
+  } else {
+    delete synced[id];
+  }
+
+  const exists = current.some(item => item.id === id);
+  let sales = current.filter(item => item.id !== id || winner);
+  if (winner) {
+    sales = exists ? sales.map(item => (item.id === id ? winner : item)) : [winner, ...sales];
+  }
+
+  return { sales, state: { ...state, synced, conflicts }, changed: true, quarantined: [] };
+};
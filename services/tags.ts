@@ -0,0 +1,32 @@
+import { SaleItem } from '../types';
+import { catalogKey } from './catalog';
+
+// "#Vintage  " and "vintage" are the same tag; the spelling typed first is kept
+export const normalizeTag = (input: string) => input.trim().replace(/^#+/, '').replace(/\s+/g, ' ');
+
+export const hasTag = (item: Pick<SaleItem, 'tags'>, tag: string) =>
+  (item.tags ?? []).some(existing => catalogKey(existing) === catalogKey(tag));
+
+// Adds each comma-separated tag in `input` that the list doesn't have yet
+export const addTags = (tags: string[], input: string): string[] =>
+  input.split(',').map(normalizeTag).reduce(
+    (result, tag) => (tag && !hasTag({ tags: result }, tag) ? [...result, tag] : result),
+    tags
+  );
+
+export const removeTag = (tags: string[], tag: string): string[] =>
+  tags.filter(existing => catalogKey(existing) !== catalogKey(tag));
+
+// Every tag in use, most used first, for suggestions and the filter
+export const collectTags = (sales: SaleItem[]): string[] => {
+  const counts = new Map<string, { name: string; count: number }>();
+  sales.forEach(item => (item.tags ?? []).forEach(tag => {
+    const key = catalogKey(tag);
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { name: tag, count: 1 });
+  }));
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .map(entry => entry.name);
+};
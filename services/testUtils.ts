@@ -0,0 +1,24 @@
+import { SaleItem, ItemStatus, CostCategory } from '../types';
+
+// Record factories shared by the service tests; each test overrides only what it is about
+
+let nextId = 0;
+
+// A sold item with a unique id. `cost` is shorthand for a single purchase cost entry.
+export const sale = (overrides: Partial<SaleItem> & { cost?: number } = {}): SaleItem => {
+  const { cost, ...rest } = overrides;
+  return {
+    id: `item-${++nextId}`,
+    brand: 'Sony',
+    model: 'SS-1',
+    type: 'ลำโพง',
+    status: ItemStatus.SOLD,
+    purchaseDate: '2026-01-01',
+    costs: cost === undefined ? [] : [{ id: `purchase-${nextId}`, category: CostCategory.PURCHASE, amount: cost }],
+    ...rest
+  };
+};
+
+// A completed sale: an amp bought for 6000 and sold for 9000
+export const soldAmp = (overrides: Partial<SaleItem> & { cost?: number } = {}): SaleItem =>
+  sale({ brand: 'Marantz', model: 'PM6006', type: 'แอมป์', date: '2026-03-01', sellingPrice: 9000, cost: 6000, ...overrides });
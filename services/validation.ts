@@ -0,0 +1,92 @@
+import { SaleItem, ItemStatus, PaymentStatus, CostCategory } from '../types';
+import { calculateProfit, getCostByCategory } from './profit';
+import { Translator } from './i18n';
+
+export type ValidatedField = 'brand' | 'model' | 'purchaseDate' | 'date' | 'costs' | 'exchangeRate' | 'sellingPrice' | 'depositAmount';
+
+export interface SaleValidation {
+  errors: Partial<Record<ValidatedField, string>>; // Block saving
+  warnings: Partial<Record<ValidatedField, string>>; // Shown, but the user may save anyway
+  duplicate?: SaleItem; // An existing record with the same brand, model and date
+}
+
+// Above this, profit over cost is far more likely a typo (an extra zero) than a real deal
+const MAX_PLAUSIBLE_MARKUP = 5;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidDate = (value: string | undefined): value is string =>
+  !!value && ISO_DATE.test(value) && !Number.isNaN(new Date(value).getTime());
+
+const isAmount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+export const duplicateKey = (item: Pick<SaleItem, 'brand' | 'model' | 'date' | 'purchaseDate'>) =>
+  [item.brand, item.model, item.date ?? item.purchaseDate]
+    .map(v => (v ?? '').trim().toLowerCase())
+    .join('|');
+
+export type DuplicateIndex = Map<string, SaleItem[]>;
+
+export const buildDuplicateIndex = (items: SaleItem[]): DuplicateIndex => {
+  const index: DuplicateIndex = new Map();
+  items.forEach(item => addToDuplicateIndex(index, item));
+  return index;
+};
+
+export const addToDuplicateIndex = (index: DuplicateIndex, item: SaleItem) => {
+  const key = duplicateKey(item);
+  index.set(key, [...(index.get(key) ?? []), item]);
+};
+
+export const findDuplicate = (item: SaleItem, index: DuplicateIndex): SaleItem | undefined =>
+  index.get(duplicateKey(item))?.find(existing => existing.id !== item.id);
+
+// The one set of rules for a SaleItem, used by the form and every import path.
+// `today` is a local YYYY-MM-DD so "in the future" matches the user's calendar.
+export const validateSaleItem = (item: SaleItem, duplicates: DuplicateIndex, today: string, t: Translator): SaleValidation => {
+  const errors: SaleValidation['errors'] = {};
+  const warnings: SaleValidation['warnings'] = {};
+
+  if (!item.brand?.trim()) errors.brand = t('validation.brandRequired');
+  if (!item.model?.trim()) errors.model = t('validation.modelRequired');
+
+  if (!isValidDate(item.purchaseDate)) errors.purchaseDate = t('validation.purchaseDateInvalid');
+  else if (item.purchaseDate > today) errors.purchaseDate = t('validation.purchaseDateFuture');
+
+  if (!item.costs.every(entry => isAmount(entry.amount))) {
+    errors.costs = t('validation.costsInvalid');
+  } else if (getCostByCategory(item, CostCategory.PURCHASE) === 0) {
+    warnings.costs = t('validation.noPurchaseCost');
+  }
+
+  if (item.purchaseCurrency !== undefined && (!isAmount(item.exchangeRate) || item.exchangeRate === 0)) {
+    errors.exchangeRate = t('validation.exchangeRateRequired');
+  }
+
+  if (item.status === ItemStatus.SOLD) {
+    if (!isValidDate(item.date)) errors.date = t('validation.saleDateRequired');
+    else if (item.date > today) errors.date = t('validation.saleDateFuture');
+    else if (isValidDate(item.purchaseDate) && item.date < item.purchaseDate) errors.date = t('validation.saleBeforePurchase');
+  }
+
+  if (item.status === ItemStatus.SOLD || item.status === ItemStatus.RESERVED) {
+    if (!isAmount(item.sellingPrice) || item.sellingPrice === 0) {
+      errors.sellingPrice = t('validation.sellingPriceRequired');
+    } else if (!errors.costs) {
+      const { cost, profit } = calculateProfit(item);
+      if (profit < 0) warnings.sellingPrice = t('validation.belowCost', { amount: Math.abs(profit) });
+      else if (cost > 0 && profit / cost > MAX_PLAUSIBLE_MARKUP) warnings.sellingPrice = t('validation.markupTooHigh', { percent: MAX_PLAUSIBLE_MARKUP * 100 });
+    }
+  }
+
+  if (item.paymentStatus === PaymentStatus.DEPOSIT) {
+    if (!isAmount(item.depositAmount) || item.depositAmount === 0) errors.depositAmount = t('validation.depositRequired');
+    else if (isAmount(item.sellingPrice) && item.depositAmount > item.sellingPrice) errors.depositAmount = t('validation.depositTooHigh');
+  }
+
+  const duplicate = findDuplicate(item, duplicates);
+  return { errors, warnings, duplicate };
+};
+
+export const hasErrors = (validation: SaleValidation) => Object.keys(validation.errors).length > 0;
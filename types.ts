@@ -1,3 +1,4 @@
+// The built-in categories a new install starts with; users can rename, merge or add to them
 export enum EquipmentType {
   SPEAKER = 'ลำโพง',
   AMPLIFIER = 'แอมป์',
@@ -7,16 +8,150 @@ export enum EquipmentType {
   OTHER = 'อื่นๆ'
 }
 
+export enum ItemStatus {
+  PURCHASED = 'purchased',
+  LISTED = 'listed',
+  RESERVED = 'reserved',
+  SOLD = 'sold',
+  RETURNED = 'returned'
+}
+
+// Statuses where the item is physically with us and its cost is tied up as stock
+export const IN_STOCK_STATUSES: ItemStatus[] = [
+  ItemStatus.PURCHASED,
+  ItemStatus.LISTED,
+  ItemStatus.RESERVED,
+  ItemStatus.RETURNED
+];
+
+export enum SalesChannel {
+  FACEBOOK = 'facebook',
+  SHOPEE = 'shopee',
+  KAIDEE = 'kaidee',
+  IN_PERSON = 'in_person',
+  OTHER = 'other'
+}
+
+export enum PaymentMethod {
+  CASH = 'cash',
+  TRANSFER = 'transfer',
+  COD = 'cod',
+  CARD = 'card'
+}
+
+export enum PaymentStatus {
+  PAID = 'paid',
+  DEPOSIT = 'deposit',
+  PENDING_COD = 'pending_cod'
+}
+
+export interface ChannelFeeRule {
+  percent: number; // % of the selling price
+  fixed: number; // Flat amount per sale
+}
+
+export enum CostCategory {
+  PURCHASE = 'purchase',
+  SHIPPING = 'shipping',
+  REPAIR = 'repair',
+  CLEANING = 'cleaning',
+  PLATFORM_FEE = 'platform_fee',
+  PACKAGING = 'packaging',
+  IMPORT_DUTY = 'import_duty',
+  TRAVEL = 'travel',
+  OTHER = 'other'
+}
+
+export interface CostEntry {
+  id: string;
+  category: CostCategory;
+  amount: number;
+  note?: string;
+}
+
+export enum AfterSalesKind {
+  RETURN = 'return', // The buyer sent the item back; it goes back into stock
+  REFUND = 'refund', // Part of the price given back, the buyer keeps the item
+  REPAIR = 'repair' // Fixed under warranty at our cost
+}
+
+export interface AfterSalesEvent {
+  id: string;
+  date: string; // YYYY-MM-DD
+  kind: AfterSalesKind;
+  amount: number; // Refunded to the buyer, or spent on the repair
+  note?: string;
+}
+
 export interface SaleItem {
   id: string;
   brand: string;
-  type: EquipmentType | string;
+  type: EquipmentType | string; // Category name
   model: string;
-  costPrice: number;
-  shippingCost: number;
-  sellingPrice: number;
-  date: string; // ISO String
+  status: ItemStatus;
+  purchaseDate: string; // ISO String
+  costs: CostEntry[];
+  purchaseCurrency?: string; // ISO code the purchase price was paid in, when not the reporting currency
+  exchangeRate?: number; // Reporting currency per 1 unit of purchaseCurrency, as of the purchase
+  sellingPrice?: number; // Agreed/actual price, set once reserved or sold
+  date?: string; // ISO String, sale date (only when sold)
+  channel?: SalesChannel;
+  channelFee?: number; // Fee charged by the channel, fixed when the sale is saved
+  buyerName?: string;
+  buyerContact?: string; // Phone, LINE or profile link
+  paymentMethod?: PaymentMethod;
+  paymentStatus?: PaymentStatus;
+  depositAmount?: number; // Received so far, with PaymentStatus.DEPOSIT
+  warrantyDays?: number; // Warranty given to the buyer, counted from the sale date
+  afterSales?: AfterSalesEvent[]; // Returns, refunds and repairs after the sale, oldest first
+  returnOf?: string; // Id of the sale this stock record came back from
+  note?: string;
+  tags?: string[]; // Free-form labels such as "vintage" or "needs service", as first typed
+  photoIds?: string[]; // Images live in the photo store, not in the sales data
+  updatedAt?: string; // ISO String, stamped on every local change
+}
+
+// Business costs not tied to one item, deducted from the period's gross profit
+export enum ExpenseCategory {
+  ADVERTISING = 'advertising',
+  EVENT = 'event',
+  TOOLS = 'tools',
+  RENT = 'rent',
+  SUBSCRIPTION = 'subscription',
+  UTILITIES = 'utilities',
+  OTHER = 'other'
+}
+
+export enum Recurrence {
+  MONTHLY = 'monthly',
+  YEARLY = 'yearly'
+}
+
+export interface Expense {
+  id: string;
+  date: string; // YYYY-MM-DD; the first occurrence of a recurring expense
+  category: ExpenseCategory;
+  amount: number;
   note?: string;
+  recurrence?: Recurrence; // Repeats on the same day of the month (or year) when set
+  endDate?: string; // YYYY-MM-DD, last day a recurring expense can fall on; open-ended when missing
+}
+
+// Gross profit from sales less the overhead that fell in the same period
+export interface OverheadSummary {
+  grossProfit: number;
+  overhead: number;
+  netProfit: number;
+  byCategory: Record<ExpenseCategory, number>;
+}
+
+export interface PhotoRecord {
+  id: string;
+  createdAt: string; // ISO String
+  width: number;
+  height: number;
+  image: string; // JPEG data URL, resized
+  thumbnail: string; // JPEG data URL for list cards
 }
 
 export interface SummaryStats {
@@ -24,4 +159,231 @@ export interface SummaryStats {
   totalRevenue: number;
   totalProfit: number;
   count: number;
-}
\ No newline at end of file
+  totalFees: number; // Channel fees on sold items, already deducted from totalProfit
+  costBreakdown: Record<CostCategory, number>; // Sold items' costs and fees by category
+  inventoryValue: number; // Cost of items still in stock
+  inventoryCount: number;
+}
+
+export interface GoalProgress {
+  actual: number;
+  target: number;
+  projected: number; // Where the month ends if the pace so far continues
+}
+
+export interface MonthlyGoals {
+  month: string; // YYYY-MM
+  daysElapsed: number;
+  daysInMonth: number;
+  revenue: GoalProgress;
+  profit: GoalProgress;
+}
+
+export enum AlertKind {
+  LOSS = 'loss',
+  STALE_STOCK = 'stale_stock'
+}
+
+export interface PerformanceAlert {
+  id: string; // Stable across sessions so a dismissal sticks
+  kind: AlertKind;
+  item: SaleItem;
+  amount: number; // The loss, or the days held
+}
+
+export interface WarrantyStatus {
+  item: SaleItem;
+  endsOn: string; // YYYY-MM-DD, the last day covered
+  daysLeft: number;
+}
+
+// One calendar month of sales for the accountant
+export interface MonthlyReport {
+  month: string; // YYYY-MM
+  stats: SummaryStats; // Inventory figures are the stock held at the end of the month
+  sales: SaleItem[]; // Sold that month, oldest first
+  categories: ProfitabilityRow[]; // In the user's category order
+}
+
+// Stored data that could not be decoded, kept aside instead of being discarded
+export interface QuarantineEntry {
+  id: string;
+  quarantinedAt: string; // ISO String
+  reason: string;
+  payload: unknown;
+}
+
+export enum AuditAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete'
+}
+
+// One field of an item before and after a change; a missing side means the field was unset
+export interface FieldChange {
+  field: keyof SaleItem;
+  before?: unknown;
+  after?: unknown;
+}
+
+// One user change to one item, kept so mistakes can be traced and undone later
+export interface AuditEntry {
+  id: string;
+  itemId: string;
+  at: string; // ISO String
+  action: AuditAction;
+  changes: FieldChange[]; // Empty for a delete
+  before: SaleItem | null; // The item as it was, to restore from; null for a create
+  fromSync?: boolean; // Made on another device, or by settling a sync conflict
+}
+
+export interface SyncSettings {
+  serverUrl: string;
+  token: string;
+}
+
+export interface Category {
+  id: string;
+  name: string; // Stored as-is in SaleItem.type
+  color: string; // Hex colour used in charts
+}
+
+export enum Language {
+  TH = 'th',
+  EN = 'en'
+}
+
+export enum CalendarEra {
+  BUDDHIST = 'buddhist',
+  GREGORIAN = 'gregorian'
+}
+
+// Printed on receipts and reports
+export interface ShopDetails {
+  name: string;
+  address: string;
+  phone: string;
+  taxId: string;
+  warrantyNote: string; // Terms printed at the bottom of every receipt
+}
+
+// Targets for the current calendar month; 0 means no target
+export interface GoalSettings {
+  monthlyRevenue: number;
+  monthlyProfit: number;
+}
+
+export interface AlertSettings {
+  lossMaking: boolean; // Warn about recent sales below cost
+  staleStockDays: number; // Warn about stock held longer than this; 0 turns it off
+}
+
+export interface AppSettings {
+  lastBackupAt?: string; // ISO String
+  language: Language;
+  calendar: CalendarEra; // Years are shown in this era; stored dates are always Gregorian ISO
+  currency: string; // ISO code every amount is reported in
+  channelFees: Record<SalesChannel, ChannelFeeRule>;
+  categories: Category[]; // In display order
+  shop: ShopDetails;
+  goals: GoalSettings;
+  alerts: AlertSettings;
+  dismissedAlerts: string[]; // Alert ids the user has acknowledged
+  sync?: SyncSettings; // Sync is off until a server is configured
+}
+
+export enum SyncStatus {
+  DISABLED = 'disabled',
+  IDLE = 'idle',
+  SYNCING = 'syncing',
+  OFFLINE = 'offline',
+  ERROR = 'error'
+}
+
+// A record edited here and on another device since the last sync. Either side
+// may be null when that side deleted it.
+export interface SyncConflict {
+  id: string;
+  revision: number; // Server revision of the remote side
+  local: SaleItem | null;
+  remote: SaleItem | null;
+}
+
+export interface SyncedRecord {
+  revision: number;
+  updatedAt?: string; // Local updatedAt of the version the server has
+}
+
+export interface SyncState {
+  cursor: number; // Highest server sequence number already pulled
+  synced: Record<string, SyncedRecord>;
+  conflicts: SyncConflict[];
+  lastSyncedAt?: string; // ISO String
+}
+
+export interface ChannelSummary {
+  channel: SalesChannel | null; // null for sales recorded before channels existed
+  units: number;
+  revenue: number;
+  fees: number;
+  profit: number;
+  outstanding: number; // Sold but not yet fully paid
+}
+
+export enum DateRangePreset {
+  ALL = 'all',
+  THIS_WEEK = 'week',
+  LAST_30_DAYS = '30d',
+  MONTH = 'month',
+  THIS_QUARTER = 'quarter',
+  THIS_YEAR = 'year',
+  CUSTOM = 'custom'
+}
+
+export enum ProfitOutcome {
+  ALL = 'all',
+  PROFIT = 'profit',
+  LOSS = 'loss'
+}
+
+export interface SalesFilter {
+  range: DateRangePreset;
+  month?: string; // 'YYYY-MM', with DateRangePreset.MONTH
+  from?: string; // 'YYYY-MM-DD', with DateRangePreset.CUSTOM
+  to?: string;
+  type?: string;
+  brand?: string;
+  tag?: string;
+  outcome: ProfitOutcome;
+  query: string; // Free text over brand, model, note and tags
+}
+
+export interface MonthlyTrend {
+  month: string; // 'YYYY-MM'
+  revenue: number;
+  cost: number;
+  profit: number;
+  count: number;
+  margin: number | null; // Profit as % of revenue; null without revenue
+  avgProfit: number | null; // Per item sold; null without sales
+  profitChangeMoM: number | null; // % change vs previous month
+  profitChangeYoY: number | null; // % change vs same month last year
+}
+
+export enum ProfitGrouping {
+  TYPE = 'type',
+  BRAND = 'brand',
+  BRAND_MODEL = 'brandModel'
+}
+
+export interface ProfitabilityRow {
+  key: string;
+  label: string;
+  units: number;
+  revenue: number;
+  cost: number;
+  profit: number;
+  avgMargin: number | null; // Mean of per-item margins (%); null when nothing had revenue
+  lossCount: number;
+  items: SaleItem[];
+}
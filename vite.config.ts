@@ -1,6 +1,39 @@
+/// <reference types="vitest/config" />
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from '@tailwindcss/vite';
+
+const SERVICE_WORKER_FILE = 'sw.js';
+
+const listFiles = (dir: string): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(fullPath) : [fullPath];
+  });
+
+// Writes sw.js next to the build output with every emitted file listed for precaching,
+// versioned by their contents so a new build replaces the old cache.
+const serviceWorker = (): Plugin => ({
+  name: 'audiosale-service-worker',
+  apply: 'build',
+  writeBundle({ dir }) {
+    if (!dir) return;
+    const files = listFiles(dir)
+      .map(file => path.relative(dir, file).split(path.sep).join('/'))
+      .filter(file => file !== SERVICE_WORKER_FILE)
+      .sort();
+    const hash = createHash('sha256');
+    files.forEach(file => hash.update(file).update(fs.readFileSync(path.join(dir, file))));
+
+    const source = fs.readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf-8')
+      .replace('__CACHE_VERSION__', hash.digest('hex').slice(0, 12))
+      .replace('__PRECACHE_MANIFEST__', JSON.stringify(files.map(file => `/${file}`)));
+    fs.writeFileSync(path.join(dir, SERVICE_WORKER_FILE), source);
+  }
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +42,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), tailwindcss(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -18,6 +51,12 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./vitest.setup.ts'],
+        include: ['**/*.test.{ts,tsx}'],
+        exclude: ['node_modules/**', 'server/**', 'dist/**'],
       }
     };
 });
@@ -0,0 +1,17 @@
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// recharts' ResponsiveContainer measures itself, and jsdom has no layout to measure
+class ResizeObserverStub {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+globalThis.ResizeObserver ??= ResizeObserverStub as unknown as typeof ResizeObserver;
+
+// The app mirrors its view and filter in the URL, which would otherwise carry over to the next test
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  window.history.replaceState(null, '', '/');
+});